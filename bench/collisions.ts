@@ -0,0 +1,169 @@
+// Compares the spatial hash broadphase with the brute-force scans it replaced,
+// on a full-size map in a heavy firefight. Run with `npm run bench`.
+
+import type { Player, Structure, Vector2 } from '../src/types';
+import { DEFAULT_CONFIG, ROLE_STATS } from '../src/types';
+import { createPracticeMatch } from '../src/core/MatchSetup';
+import { resolveCircleStructureCollisions, createStructureIndex, sweepStructure } from '../src/utils/collision';
+import { SpatialHash } from '../src/utils/spatialHash';
+import { vec2Add, vec2Distance, vec2FromAngle, vec2Lerp, segmentCircleIntersection } from '../src/utils/math';
+import { Rng } from '../src/utils/rng';
+
+const PLAYERS = 100;
+const PROJECTILES = 600;
+const ORBS = 300;
+const FRAMES = 600;
+const PROJECTILE_RADIUS = 4;
+const PROJECTILE_STEP = 20; // 1200 units/s at 60 ticks/s
+const ORB_COLLECT_RADIUS = 30;
+
+interface Segment {
+  from: Vector2;
+  to: Vector2;
+}
+
+interface Scene {
+  structures: Structure[];
+  players: Player[];
+  projectiles: Segment[];
+  orbs: Vector2[];
+}
+
+function createScene(seed: number): Scene {
+  const config = DEFAULT_CONFIG;
+  const ms = createPracticeMatch(config, 'vanguard', seed);
+  const rng = new Rng(seed);
+  const template = Array.from(ms.players.values())[0];
+  const point = (): Vector2 => ({ x: rng.range(0, config.mapWidth), y: rng.range(0, config.mapHeight) });
+
+  const players: Player[] = [];
+  for (let i = 0; i < PLAYERS; i++) {
+    players.push({ ...template, id: `p${i}`, teamId: `t${i % 10}`, position: point() });
+  }
+
+  return {
+    structures: Array.from(ms.structures.values()),
+    players,
+    projectiles: Array.from({ length: PROJECTILES }, () => ({ from: point(), to: point() })),
+    orbs: Array.from({ length: ORBS }, point),
+  };
+}
+
+// One frame's worth of queries; returns a checksum so both paths can be compared
+function bruteForceFrame(scene: Scene): number {
+  let hits = 0;
+
+  for (const player of scene.players) {
+    const position = { ...player.position };
+    resolveCircleStructureCollisions(scene.structures, position, ROLE_STATS[player.role].hitboxRadius);
+    if (position.x !== player.position.x || position.y !== player.position.y) hits++;
+  }
+
+  for (const { from, to } of scene.projectiles) {
+    for (const player of scene.players) {
+      if (segmentCircleIntersection(from, to, player.position, ROLE_STATS[player.role].hitboxRadius) !== null) hits++;
+    }
+    for (const structure of scene.structures) {
+      if (sweepStructure(from, to, PROJECTILE_RADIUS, structure) !== null) hits++;
+    }
+  }
+
+  for (const orb of scene.orbs) {
+    for (const player of scene.players) {
+      if (vec2Distance(orb, player.position) <= ORB_COLLECT_RADIUS) hits++;
+    }
+  }
+
+  return hits;
+}
+
+function spatialHashFrame(scene: Scene, structureIndex: SpatialHash<Structure>): number {
+  let hits = 0;
+
+  // Dynamic indexes are rebuilt every frame, as the simulation does
+  const playerIndex = new SpatialHash<Player>();
+  for (const player of scene.players) {
+    playerIndex.insert(player, player.position, ROLE_STATS[player.role].hitboxRadius);
+  }
+  const orbIndex = new SpatialHash<Vector2>();
+  for (const orb of scene.orbs) {
+    orbIndex.insert(orb, orb);
+  }
+
+  for (const player of scene.players) {
+    const position = { ...player.position };
+    const radius = ROLE_STATS[player.role].hitboxRadius;
+    resolveCircleStructureCollisions(structureIndex.query(position, radius), position, radius);
+    if (position.x !== player.position.x || position.y !== player.position.y) hits++;
+  }
+
+  for (const { from, to } of scene.projectiles) {
+    const center = vec2Lerp(from, to, 0.5);
+    const reach = PROJECTILE_STEP / 2;
+    for (const player of playerIndex.query(center, reach)) {
+      if (segmentCircleIntersection(from, to, player.position, ROLE_STATS[player.role].hitboxRadius) !== null) hits++;
+    }
+    for (const structure of structureIndex.query(center, reach + PROJECTILE_RADIUS * 2)) {
+      if (sweepStructure(from, to, PROJECTILE_RADIUS, structure) !== null) hits++;
+    }
+  }
+
+  for (const player of scene.players) {
+    for (const orb of orbIndex.query(player.position, ORB_COLLECT_RADIUS)) {
+      if (vec2Distance(orb, player.position) <= ORB_COLLECT_RADIUS) hits++;
+    }
+  }
+
+  return hits;
+}
+
+// Scatter everything between frames so neither path benefits from a static scene
+function shuffle(scene: Scene, rng: Rng): void {
+  for (const player of scene.players) {
+    player.position = { x: rng.range(0, DEFAULT_CONFIG.mapWidth), y: rng.range(0, DEFAULT_CONFIG.mapHeight) };
+  }
+  for (const projectile of scene.projectiles) {
+    projectile.from = { x: rng.range(0, DEFAULT_CONFIG.mapWidth), y: rng.range(0, DEFAULT_CONFIG.mapHeight) };
+    projectile.to = vec2Add(projectile.from, vec2FromAngle(rng.range(0, Math.PI * 2), PROJECTILE_STEP));
+  }
+  for (const orb of scene.orbs) {
+    orb.x = rng.range(0, DEFAULT_CONFIG.mapWidth);
+    orb.y = rng.range(0, DEFAULT_CONFIG.mapHeight);
+  }
+}
+
+function run(): void {
+  const scene = createScene(12345);
+  const structureIndex = createStructureIndex(scene.structures);
+  const rng = new Rng(99);
+
+  console.log(
+    `${scene.structures.length} structures, ${PLAYERS} players, ${PROJECTILES} projectiles, ${ORBS} orbs, ${FRAMES} frames`
+  );
+
+  let bruteTime = 0;
+  let hashTime = 0;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    shuffle(scene, rng);
+
+    let start = performance.now();
+    const expected = bruteForceFrame(scene);
+    bruteTime += performance.now() - start;
+
+    start = performance.now();
+    const actual = spatialHashFrame(scene, structureIndex);
+    hashTime += performance.now() - start;
+
+    if (actual !== expected) {
+      console.error(`Frame ${frame}: spatial hash found ${actual} contacts, brute force ${expected}`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  console.log(`brute force:  ${(bruteTime / FRAMES).toFixed(3)} ms/frame`);
+  console.log(`spatial hash: ${(hashTime / FRAMES).toFixed(3)} ms/frame`);
+  console.log(`speedup:      ${(bruteTime / hashTime).toFixed(1)}x`);
+}
+
+run();
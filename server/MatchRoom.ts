@@ -0,0 +1,347 @@
+import type { WebSocket } from 'ws';
+import { randomUUID } from 'node:crypto';
+import type { GameConfig, MatchEvent } from '../src/types';
+import { isRole } from '../src/types';
+import { MatchSimulation, createEmptyInput } from '../src/core/MatchSimulation';
+import { createNetworkMatch, addNetworkPlayer } from '../src/core/MatchSetup';
+import { serializeMatchState } from '../src/core/MatchSerializer';
+import { generateSeed } from '../src/utils/rng';
+import { eventForTeam } from '../src/utils/visibility';
+import {
+  encodeMessage,
+  PROTOCOL_VERSION,
+  SNAPSHOT_RATE,
+  type ClientMessage,
+  type JoinMessage,
+  type MatchSnapshot,
+  type ServerMessage,
+} from '../src/net/protocol';
+import { SnapshotEncoder, quantizeSnapshot, teamSnapshot, type QuantizedSnapshot } from '../src/net/SnapshotCodec';
+
+// Minimum number of teams before the countdown starts
+const MIN_TEAMS = 2;
+
+// Seconds between reaching MIN_TEAMS and the match opening (skipped once full)
+const START_COUNTDOWN = 10;
+
+// Sent snapshots kept as delta baselines; older acks get a full snapshot
+const SNAPSHOT_HISTORY = 32;
+
+interface Client {
+  socket: WebSocket;
+  playerId: string;
+  teamId: string;
+  inputSeq: number; // last input applied
+  inputTicks: number; // ticks simulated with it so far
+  encoder: SnapshotEncoder;
+  ackedSnapshotId: number; // 0 until the client acknowledges one
+}
+
+// One authoritative match. Owns the simulation, applies client inputs and
+// broadcasts snapshots; clients never touch match state directly.
+export class MatchRoom {
+  readonly id: string;
+
+  private config: GameConfig;
+  private simulation: MatchSimulation;
+  private clients: Map<WebSocket, Client> = new Map();
+  private teamSlots: Map<string, number> = new Map(); // partyId -> slot
+  // Player id -> secret handed out on their first join, required to rejoin
+  private reconnectTokens: Map<string, string> = new Map();
+  private countdown: number | null = null;
+  private snapshotTimer: number = 0;
+  private snapshotId: number = 0;
+  // Team id -> snapshots sent to that team, which differ by what it can see
+  private snapshotHistory: Map<string, Map<number, QuantizedSnapshot>> = new Map();
+  // Events from this tick, sent once it is over and visibility is known
+  private pendingEvents: MatchEvent[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTime: number = 0;
+  private onEmpty: (() => void) | null = null;
+
+  constructor(id: string, config: GameConfig, seed: number = generateSeed()) {
+    this.id = id;
+    this.config = config;
+    this.simulation = new MatchSimulation(createNetworkMatch(config, seed, id), config);
+
+    this.simulation.events.onAny((event) => {
+      this.pendingEvents.push(event);
+    });
+  }
+
+  setOnEmpty(callback: () => void): void {
+    this.onEmpty = callback;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.lastTime = performance.now();
+    this.timer = setInterval(() => this.tick(), 1000 / this.simulation.tickRate);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  handleMessage(socket: WebSocket, message: ClientMessage): void {
+    if (message.type === 'join') {
+      this.join(socket, message);
+      return;
+    }
+
+    const client = this.clients.get(socket);
+    if (!client) return;
+
+    if (message.type === 'ack') {
+      client.ackedSnapshotId = Math.max(client.ackedSnapshotId, message.snapshotId);
+      return;
+    }
+
+    if (message.seq <= client.inputSeq) return;
+    // Includes the round trip and the client's interpolation delay; the
+    // simulation caps how far it will actually rewind
+    this.simulation.setRewind(client.playerId, this.simulation.getTick() - message.viewTick);
+    this.simulation.setInput(client.playerId, message.input);
+    client.inputSeq = message.seq;
+    client.inputTicks = 0;
+  }
+
+  // Also called for sockets whose join was rejected: the room was created for
+  // them, so it must still close if nobody else is in it
+  handleClose(socket: WebSocket): void {
+    const client = this.clients.get(socket);
+    if (client) {
+      this.clients.delete(socket);
+      // Leave the player standing still until they reconnect
+      this.simulation.setInput(client.playerId, createEmptyInput());
+    }
+
+    if (this.clients.size === 0 && this.onEmpty) {
+      this.onEmpty();
+    }
+  }
+
+  private join(socket: WebSocket, message: JoinMessage): void {
+    if (message.version !== PROTOCOL_VERSION) {
+      this.reject(socket, 'Client is out of date');
+      return;
+    }
+    if (!isRole(message.role)) {
+      this.reject(socket, 'Unknown role');
+      return;
+    }
+
+    const ms = this.simulation.state;
+    const existing = ms.players.get(message.playerId);
+
+    if (existing) {
+      // Reconnect: only whoever was given the player's token may take it back
+      if (message.reconnectToken === null || message.reconnectToken !== this.reconnectTokens.get(existing.id)) {
+        this.reject(socket, 'Player is already in this match');
+        return;
+      }
+
+      // Drop any stale socket still bound to this player
+      for (const [otherSocket, client] of this.clients) {
+        if (client.playerId === existing.id && otherSocket !== socket) {
+          this.clients.delete(otherSocket);
+          otherSocket.close();
+        }
+      }
+    } else {
+      if (ms.phase !== 'waiting') {
+        this.reject(socket, 'Match already started');
+        return;
+      }
+
+      const teamSlot = this.getTeamSlot(message.partyId);
+      if (teamSlot === null) {
+        this.reject(socket, 'Match is full');
+        return;
+      }
+
+      const teamId = `team_${teamSlot}`;
+      const team = ms.teams.get(teamId);
+      if (team && team.playerIds.length >= this.config.playersPerTeam) {
+        this.reject(socket, 'Team is full');
+        return;
+      }
+
+      addNetworkPlayer(ms, this.config, {
+        id: message.playerId,
+        name: message.name,
+        role: message.role,
+        teamId,
+        teamSlot,
+      });
+      this.reconnectTokens.set(message.playerId, randomUUID());
+    }
+
+    // Input sequence numbers restart with every connection
+    this.simulation.setInput(message.playerId, createEmptyInput());
+    this.clients.set(socket, {
+      socket,
+      playerId: message.playerId,
+      teamId: ms.players.get(message.playerId)!.teamId,
+      inputSeq: 0,
+      inputTicks: 0,
+      encoder: new SnapshotEncoder(),
+      ackedSnapshotId: 0,
+    });
+    this.send(socket, {
+      type: 'welcome',
+      matchId: this.id,
+      playerId: message.playerId,
+      tickRate: this.simulation.tickRate,
+      config: this.config,
+      reconnectToken: this.reconnectTokens.get(message.playerId)!,
+    });
+  }
+
+  private getTeamSlot(partyId: string): number | null {
+    const slot = this.teamSlots.get(partyId);
+    if (slot !== undefined) return slot;
+    if (this.teamSlots.size >= this.config.teamsCount) return null;
+
+    const next = this.teamSlots.size;
+    this.teamSlots.set(partyId, next);
+    return next;
+  }
+
+  private tick(): void {
+    const now = performance.now();
+    const deltaTime = (now - this.lastTime) / 1000;
+    this.lastTime = now;
+
+    const ms = this.simulation.state;
+    if (ms.phase === 'waiting') {
+      this.updateCountdown(deltaTime);
+    } else if (ms.phase !== 'ended') {
+      const ticks = this.simulation.advance(deltaTime);
+      for (const client of this.clients.values()) {
+        client.inputTicks += ticks;
+      }
+    }
+    this.sendEvents();
+
+    this.snapshotTimer += deltaTime;
+    if (this.snapshotTimer >= 1 / SNAPSHOT_RATE) {
+      this.snapshotTimer %= 1 / SNAPSHOT_RATE;
+      this.sendSnapshots();
+    }
+  }
+
+  private updateCountdown(deltaTime: number): void {
+    const teams = this.simulation.state.teams.size;
+    if (teams < MIN_TEAMS) {
+      this.countdown = null;
+      return;
+    }
+
+    if (this.countdown === null) {
+      this.countdown = START_COUNTDOWN;
+    }
+    this.countdown -= deltaTime;
+
+    const full = this.simulation.state.players.size >= this.config.teamsCount * this.config.playersPerTeam;
+    if (this.countdown <= 0 || full) {
+      this.countdown = null;
+      this.simulation.start();
+      console.log(`Match ${this.id} started with ${teams} teams`);
+    }
+  }
+
+  // Quantize once, cut it down to what each team may see (see teamSnapshot),
+  // then delta-encode per client against whatever snapshot that client last
+  // acknowledged
+  private sendSnapshots(): void {
+    const full = quantizeSnapshot(++this.snapshotId, this.createSnapshot());
+    const teamSnapshots = new Map<string, QuantizedSnapshot>();
+
+    for (const client of this.clients.values()) {
+      if (client.socket.readyState !== client.socket.OPEN) continue;
+
+      let snapshot = teamSnapshots.get(client.teamId);
+      if (!snapshot) {
+        snapshot = teamSnapshot(full, client.teamId, this.hiddenFrom(client.teamId));
+        teamSnapshots.set(client.teamId, snapshot);
+        this.rememberSnapshot(client.teamId, snapshot);
+      }
+
+      const baseline = this.snapshotHistory.get(client.teamId)?.get(client.ackedSnapshotId) || null;
+      const bytes = client.encoder.encode(snapshot, baseline, {
+        seq: client.inputSeq,
+        ticks: client.inputTicks,
+      });
+      client.socket.send(bytes);
+    }
+  }
+
+  // Each team only hears about what it can see (see eventForTeam)
+  private sendEvents(): void {
+    if (this.pendingEvents.length === 0) return;
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+
+    const teamMessages = new Map<string, string[]>();
+    for (const client of this.clients.values()) {
+      if (client.socket.readyState !== client.socket.OPEN) continue;
+
+      let messages = teamMessages.get(client.teamId);
+      if (!messages) {
+        const hidden = this.hiddenFrom(client.teamId);
+        messages = [];
+        for (const event of events) {
+          const visible = eventForTeam(event, hidden);
+          if (visible) messages.push(encodeMessage({ type: 'event', event: visible }));
+        }
+        teamMessages.set(client.teamId, messages);
+      }
+
+      for (const message of messages) client.socket.send(message);
+    }
+  }
+
+  // Enemy players the team can see none of
+  private hiddenFrom(teamId: string): Set<string> {
+    const visible = this.simulation.getVisibleEnemies(teamId);
+    const hidden = new Set<string>();
+    for (const player of this.simulation.state.players.values()) {
+      if (player.teamId !== teamId && !visible.has(player.id)) hidden.add(player.id);
+    }
+    return hidden;
+  }
+
+  private rememberSnapshot(teamId: string, snapshot: QuantizedSnapshot): void {
+    let history = this.snapshotHistory.get(teamId);
+    if (!history) {
+      history = new Map();
+      this.snapshotHistory.set(teamId, history);
+    }
+    history.set(snapshot.id, snapshot);
+    history.delete(snapshot.id - SNAPSHOT_HISTORY);
+  }
+
+  private createSnapshot(): MatchSnapshot {
+    return {
+      tick: this.simulation.getTick(),
+      state: serializeMatchState(this.simulation.state),
+      projectiles: this.simulation.projectiles,
+      orbs: this.simulation.orbs,
+    };
+  }
+
+  private reject(socket: WebSocket, message: string): void {
+    this.send(socket, { type: 'error', message });
+    socket.close();
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(encodeMessage(message));
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { GameConfig } from '../src/types';
+import { decodeClientMessage, encodeMessage } from '../src/net/protocol';
+import { MatchRoom } from './MatchRoom';
+
+// Routes sockets to match rooms. A room is created by the first player to
+// join a match id and torn down once its last client disconnects.
+export class MatchServer {
+  private wss: WebSocketServer;
+  private config: GameConfig;
+  private rooms: Map<string, MatchRoom> = new Map();
+  private socketRooms: Map<WebSocket, MatchRoom> = new Map();
+
+  constructor(port: number, config: GameConfig) {
+    this.config = config;
+    this.wss = new WebSocketServer({ port });
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+    console.log(`Match server listening on :${port}`);
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    socket.on('message', (data) => {
+      const message = decodeClientMessage(data.toString());
+      if (!message) {
+        console.warn('Dropping malformed client message');
+        return;
+      }
+
+      let room = this.socketRooms.get(socket);
+      if (message.type === 'join' && !room) {
+        room = this.getOrCreateRoom(message.matchId);
+        this.socketRooms.set(socket, room);
+      }
+
+      if (!room) {
+        socket.send(encodeMessage({ type: 'error', message: 'Join a match first' }));
+        return;
+      }
+      room.handleMessage(socket, message);
+    });
+
+    socket.on('close', () => {
+      const room = this.socketRooms.get(socket);
+      this.socketRooms.delete(socket);
+      room?.handleClose(socket);
+    });
+
+    socket.on('error', (error) => {
+      console.warn('Socket error:', error.message);
+    });
+  }
+
+  private getOrCreateRoom(matchId: string): MatchRoom {
+    let room = this.rooms.get(matchId);
+    if (room) return room;
+
+    room = new MatchRoom(matchId, this.config);
+    room.setOnEmpty(() => {
+      // Late closes from sockets of a room already torn down land here too
+      if (this.rooms.get(matchId) !== room) return;
+      room!.stop();
+      this.rooms.delete(matchId);
+      console.log(`Match ${matchId} closed`);
+    });
+    room.start();
+    this.rooms.set(matchId, room);
+    console.log(`Match ${matchId} created`);
+    return room;
+  }
+
+  close(): void {
+    for (const room of this.rooms.values()) {
+      room.stop();
+    }
+    this.rooms.clear();
+    this.wss.close();
+  }
+}
@@ -0,0 +1,11 @@
+import { DEFAULT_CONFIG } from '../src/types';
+import { MatchServer } from './MatchServer';
+
+// Entry point for the authoritative match server: `npm run server`
+const port = Number(process.env.PORT) || 8787;
+const server = new MatchServer(port, DEFAULT_CONFIG);
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
@@ -0,0 +1,113 @@
+import type { MatchState, Player, Structure, Vector2 } from '../types';
+import { angleDifference, clamp, vec2Angle, vec2FromAngle, vec2Sub } from '../utils/math';
+import type { SpatialHash } from '../utils/spatialHash';
+import { canSee } from '../utils/visibility';
+
+export interface AimAssistSettings {
+  enabled: boolean;
+  strength: number; // 0 to 1, scales both slowdown and magnetism
+  coneAngle: number; // radians either side of the aim that targets are picked from
+  slowdown: number; // share of aim stick turning absorbed over a target at full strength
+  magnetism: number; // radians per second the aim is pulled onto a target at full strength
+}
+
+export const DEFAULT_AIM_ASSIST: AimAssistSettings = {
+  enabled: true,
+  strength: 0.6,
+  coneAngle: Math.PI / 12,
+  slowdown: 0.6,
+  magnetism: Math.PI / 3,
+};
+
+// Radians per second the assisted aim returns to the stick once no target is
+// in the cone
+const RECOVERY_RATE = Math.PI;
+
+// Bends the raw aim stick direction towards visible enemies: turning slows
+// while the aim is over a target and a gentle pull keeps it there as the
+// target moves. Only the aim stick goes through this; mouse aim is left raw.
+export class AimAssist {
+  private settings: AimAssistSettings;
+  private assistedAngle: number | null = null;
+  private lastStickAngle: number = 0;
+
+  constructor(settings: Partial<AimAssistSettings> = {}) {
+    this.settings = { ...DEFAULT_AIM_ASSIST, ...settings };
+  }
+
+  configure(settings: Partial<AimAssistSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): AimAssistSettings {
+    return { ...this.settings };
+  }
+
+  // Forget the aim once the stick is released, so the next touch starts raw
+  reset(): void {
+    this.assistedAngle = null;
+  }
+
+  apply(
+    stickAim: Vector2,
+    shooter: Player,
+    state: MatchState,
+    structures: SpatialHash<Structure>,
+    deltaTime: number
+  ): Vector2 {
+    const { enabled, strength, coneAngle, slowdown, magnetism } = this.settings;
+    const stickAngle = vec2Angle(stickAim);
+    if (!enabled || strength <= 0 || this.assistedAngle === null) {
+      this.assistedAngle = stickAngle;
+      this.lastStickAngle = stickAngle;
+      return stickAim;
+    }
+
+    const turn = angleDifference(this.lastStickAngle, stickAngle);
+    this.lastStickAngle = stickAngle;
+
+    let angle = this.assistedAngle;
+    const target = this.findTarget(shooter, state, structures, angle);
+    if (target) {
+      angle += turn * (1 - slowdown * strength);
+      const toTarget = angleDifference(angle, vec2Angle(vec2Sub(target.position, shooter.position)));
+      const pull = magnetism * strength * deltaTime;
+      angle += clamp(toTarget, -pull, pull);
+    } else {
+      angle += turn;
+      const recovery = RECOVERY_RATE * deltaTime;
+      angle += clamp(angleDifference(angle, stickAngle), -recovery, recovery);
+    }
+
+    // Never stray further from the thumb than the cone
+    const drift = angleDifference(stickAngle, angle);
+    angle = stickAngle + clamp(drift, -coneAngle, coneAngle);
+
+    this.assistedAngle = angle;
+    return vec2FromAngle(angle);
+  }
+
+  // The standing enemy within awareness range, in the cone and in sight
+  // (not behind a structure or in smoke) that is closest to the aim
+  private findTarget(
+    shooter: Player,
+    state: MatchState,
+    structures: SpatialHash<Structure>,
+    aimAngle: number
+  ): Player | null {
+    let best: Player | null = null;
+    let bestOffset = this.settings.coneAngle;
+
+    for (const other of state.players.values()) {
+      if (!other.isAlive || other.isDowned || other.teamId === shooter.teamId) continue;
+
+      const offset = Math.abs(angleDifference(aimAngle, vec2Angle(vec2Sub(other.position, shooter.position))));
+      if (offset > bestOffset) continue;
+      if (!canSee(shooter, other.position, structures, state.smokes.values())) continue;
+
+      best = other;
+      bestOffset = offset;
+    }
+    return best;
+  }
+}
@@ -1,45 +1,64 @@
 import type {
-  Vector2,
   Player,
-  Team,
-  Relic,
-  DeliverySite,
-  RiftlineRing,
-  MatchState,
-  MatchPhase,
   Role,
-  Weapon,
   GameConfig,
-  Structure,
-  StructureType,
   GameScreen,
+  InputState,
+  MatchState,
+  MatchEvent,
+  MatchEventType,
+  GrenadeExplodedEvent,
+  AbilityUsedEvent,
+  Structure,
+  Vector2,
 } from '../types';
 import { DEFAULT_CONFIG, ROLE_STATS } from '../types';
 import { Camera } from './Camera';
 import { InputManager } from './InputManager';
 import { Renderer } from './Renderer';
-import { MenuRenderer, type MenuState } from '../ui/MenuRenderer';
-import { Projectile, createProjectile, updateProjectile } from '../entities/Projectile';
-import { Orb, createOrbsFromElimination, isOrbExpired, canCollectOrb } from '../entities/Orb';
-import { lobbyManager, type Shard, type Party } from '../lib/lobby';
+import type { MatchSimulation } from './MatchSimulation';
+import { MatchEventBus, type MatchEventHandler } from './MatchEvents';
+import { KillFeed } from './KillFeed';
+import { AimAssist, type AimAssistSettings } from './AimAssist';
+import { createEmptyMatchState, LOCAL_PLAYER_ID } from './MatchSetup';
+import type { MatchRecording } from './MatchRecorder';
+import { createLocalMatch, MainThreadMatch, WorkerMatch, type LocalMatch } from './LocalMatch';
+import { SUSPENDED_MATCH_VERSION, type PracticeMatchSetup, type SuspendedMatch } from './PracticeMatch';
+import { MatchReplay } from './MatchReplay';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import { MatchClient } from '../net/MatchClient';
+import { DEFAULT_INTERPOLATION, type InterpolationSettings } from '../net/SnapshotInterpolator';
+import { MenuRenderer, type MenuState, type SuspendedMatchInfo } from '../ui/MenuRenderer';
+import { ReplayRenderer } from '../ui/ReplayRenderer';
+import { InventoryOverlay } from '../ui/InventoryOverlay';
+import { lobbyManager, type Shard } from '../lib/lobby';
+import { MATCH_MODES, compositionProblems } from '../lib/composition';
 import { continueAsGuest } from '../lib/auth';
-import {
-  vec2,
-  vec2Add,
-  vec2Sub,
-  vec2Scale,
-  vec2Normalize,
-  vec2Length,
-  vec2Distance,
-  vec2Angle,
-  vec2FromAngle,
-  randomRange,
-  randomInt,
-  pointInCircle,
-  clamp,
-  getCircleRectPushVector,
-  pointInRotatedRect,
-} from '../utils/math';
+import { saveReplay, loadLatestReplay, exportReplay } from '../lib/replays';
+import { storage } from '../lib/storage';
+import { vec2Add, vec2Sub, vec2Scale, vec2Normalize, vec2Length, clamp } from '../utils/math';
+import { MAX_THROW_RANGE } from '../entities/Throwable';
+import { createStructureIndex } from '../utils/collision';
+import type { SpatialHash } from '../utils/spatialHash';
+import { computeTeamVision, type TeamVision } from '../utils/visibility';
+import { generateSeed, decodeSeed, encodeSeed } from '../utils/rng';
+
+// Authoritative match server; without one, matchmade games fall back to practice
+const MATCH_SERVER_URL = import.meta.env.VITE_MATCH_SERVER_URL || '';
+const INTERPOLATION_KEY = 'net_interpolation';
+const AIM_ASSIST_KEY = 'aim_assist';
+const SUSPENDED_MATCH_KEY = 'suspended_match';
+
+// A reload gives no chance to ask the worker for the match, so practice
+// matches are also saved on this interval (seconds)
+const AUTOSAVE_INTERVAL = 5;
+
+// Seconds a grenade blast stays on screen
+const EXPLOSION_FLASH = 0.4;
+
+// Seconds a sentinel's scan pulse takes to sweep out to its range
+const SCAN_PULSE_TIME = 0.6;
 
 export class Game {
   private canvas: HTMLCanvasElement;
@@ -47,13 +66,37 @@ export class Game {
   private inputManager: InputManager;
   private renderer: Renderer;
   private menuRenderer: MenuRenderer;
+  private replayRenderer: ReplayRenderer;
+  private inventoryOverlay: InventoryOverlay;
   private config: GameConfig;
 
   // Game state
-  private matchState: MatchState;
-  private projectiles: Projectile[] = [];
-  private orbs: Orb[] = [];
+  private match: LocalMatch | null = null; // practice match, usually in a worker
+  private matchSetup: PracticeMatchSetup | null = null;
+  private autosaveTimer: number = 0;
+  private useWorker: boolean = true; // cleared if the simulation worker ever fails
+  private idleState: MatchState = createEmptyMatchState(); // shown when no match is running
+  private snapCameraPending: boolean = false;
+  private events: MatchEventBus = new MatchEventBus(); // outlives individual matches
+  private killFeed: KillFeed = new KillFeed(this.events);
+  private explosions: GrenadeExplodedEvent[] = []; // recent blasts, drawn briefly
+  private scanPulses: AbilityUsedEvent[] = []; // recent scans, drawn briefly
+  private throwPreview: Vector2 | null = null; // local player's aimed throw offset
   private currentScreen: GameScreen = 'landing';
+  private network: MatchClient | null = null; // set while playing on the match server
+  private interpolation: InterpolationSettings = {
+    ...DEFAULT_INTERPOLATION,
+    ...storage.get<Partial<InterpolationSettings>>(INTERPOLATION_KEY),
+  };
+  private aimAssist: AimAssist = new AimAssist(storage.get<Partial<AimAssistSettings>>(AIM_ASSIST_KEY) ?? {});
+
+  // Structures indexed for the fog of war, rebuilt when the map changes
+  private visionStructures: SpatialHash<Structure> | null = null;
+  private visionStructureSource: Map<string, Structure> | null = null;
+
+  // Replays
+  private replay: MatchReplay | null = null;
+  private readonly REPLAY_CAMERA_SPEED = 600; // world units per second at 1x zoom
 
   // Menu state
   private menuState: MenuState = {
@@ -67,6 +110,8 @@ export class Game {
     queueTime: 0,
     isGuest: true,
     username: 'Player',
+    suspendedMatch: null,
+    aimAssist: this.aimAssist.getSettings(),
   };
 
   // Local player
@@ -81,26 +126,10 @@ export class Game {
   private lastTime: number = 0;
   private running: boolean = false;
 
-  // Combat
-  private lastFireTime: Map<string, number> = new Map();
-
-  // Default weapon for testing
-  private defaultWeapon: Weapon = {
-    id: 'default_rifle',
-    name: 'Standard Rifle',
-    type: 'automatic',
-    rarity: 'common',
-    stats: {
-      damage: 15,
-      fireRate: 8, // rounds per second
-      magazineSize: 30,
-      reloadTime: 2,
-      range: 500,
-      spread: 3,
-      projectileSpeed: 1200,
-    },
-    gridSize: { width: 4, height: 1 },
-  };
+  // Stress test: bullets kept in flight, and frame times logged once a second
+  // so GC pauses show up as worst-frame spikes
+  private stressBullets: number = 0;
+  private stressFrames = { count: 0, total: 0, worst: 0 };
 
   constructor(canvas: HTMLCanvasElement, config: Partial<GameConfig> = {}) {
     this.canvas = canvas;
@@ -122,8 +151,31 @@ export class Game {
     );
 
     this.menuRenderer = new MenuRenderer(canvas);
+    this.replayRenderer = new ReplayRenderer(canvas);
+
+    // Backpack commands travel with the rest of the input
+    this.inventoryOverlay = new InventoryOverlay(canvas);
+    this.inventoryOverlay.onCommand((command) => this.inputManager.sendInventoryAction(command));
+    this.inventoryOverlay.onClose(() => this.setInventoryOpen(false));
+    this.inputManager.onToggleInventory(() => {
+      if (this.currentScreen === 'match') this.setInventoryOpen(!this.inventoryOverlay.isOpen());
+    });
 
-    this.matchState = this.createEmptyMatchState();
+    this.events.on('GrenadeExploded', (event) => this.explosions.push(event));
+    this.events.on('AbilityUsed', (event) => {
+      if (event.ability === 'scan') this.scanPulses.push(event);
+    });
+
+    // Persist the recording once the match is decided; there is nothing left to resume
+    this.events.on('PhaseChanged', (event) => {
+      if (event.to === 'ended') {
+        this.saveRecording();
+        storage.remove(SUSPENDED_MATCH_KEY);
+      }
+    });
+
+    this.menuState.suspendedMatch = this.loadSuspendedMatchInfo();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange.bind(this));
 
     // Setup click/touch handlers
     this.canvas.addEventListener('click', this.handleCanvasClick.bind(this));
@@ -139,14 +191,14 @@ export class Game {
     });
 
     lobbyManager.setOnLobbyUpdate((lobby) => {
-      if (lobby?.status === 'starting') {
-        // Match is starting!
+      // Lobbies with a match id are started by onMatchStart
+      if (lobby?.status === 'starting' && !lobby.match_id) {
         this.initTestMatch();
       }
     });
 
-    lobbyManager.setOnMatchStart(() => {
-      this.initTestMatch();
+    lobbyManager.setOnMatchStart((matchId) => {
+      this.startNetworkMatch(matchId);
     });
   }
 
@@ -207,12 +259,36 @@ export class Game {
   private handleInteraction(x: number, y: number, width: number, height: number): void {
     // Handle zoom buttons in match screen
     if (this.currentScreen === 'match') {
+      // The open backpack gets its pointer input through InputManager
+      if (this.inventoryOverlay.isOpen()) {
+        return;
+      }
+      // Touch buttons are tracked by InputManager; don't count them as zoom taps
+      const position = { x, y };
+      if (
+        this.inputManager.hitsReloadButton(position) ||
+        this.inputManager.hitsHealButton(position) ||
+        this.inputManager.hitsInteractButton(position) ||
+        this.inputManager.hitsThrowButton(position) ||
+        this.inputManager.hitsAbilityButton(position) ||
+        this.inputManager.hitsBagButton(position)
+      ) {
+        return;
+      }
       if (this.handleZoomButtonTap(x, y, width, height)) {
         return;
       }
       return; // Don't process menu clicks during match
     }
 
+    if (this.currentScreen === 'replay') {
+      if (this.handleZoomButtonTap(x, y, width, height)) {
+        return;
+      }
+      this.handleReplayInteraction(x, y);
+      return;
+    }
+
     // Check menu button clicks
     const buttonId = this.menuRenderer.hitTest(x, y);
     if (buttonId) {
@@ -240,6 +316,15 @@ export class Game {
         this.menuState.isLoading = false;
         break;
 
+      case 'resume-match':
+        this.resumeSuspendedMatch();
+        break;
+
+      case 'discard-match':
+        storage.remove(SUSPENDED_MATCH_KEY);
+        this.menuState.suspendedMatch = null;
+        break;
+
       case 'signin':
         // For now, just go to menu (would open auth modal)
         this.currentScreen = 'menu';
@@ -275,13 +360,54 @@ export class Game {
         this.initTestMatch();
         break;
 
+      case 'practice-seed':
+        // Replay a shared map layout
+        const seedCode = prompt('Enter match seed:');
+        if (seedCode) {
+          const seed = decodeSeed(seedCode);
+          if (seed === null) {
+            this.menuState.error = 'Invalid seed code';
+            setTimeout(() => { this.menuState.error = null; }, 3000);
+          } else {
+            this.initTestMatch(seed);
+          }
+        }
+        break;
+
+      case 'replays':
+        // Watch the most recent saved match
+        this.menuState.isLoading = true;
+        const recording = await loadLatestReplay();
+        this.menuState.isLoading = false;
+        if (recording) {
+          this.startReplay(recording);
+        } else {
+          this.menuState.error = 'No replays saved yet';
+          setTimeout(() => { this.menuState.error = null; }, 3000);
+        }
+        break;
+
       case 'settings':
-        // Would open settings modal
+        this.currentScreen = 'settings';
+        this.menuState.screen = 'settings';
         break;
 
+      // Settings
+      case 'aim-assist-toggle':
+        this.setAimAssist({ enabled: !this.aimAssist.getSettings().enabled });
+        break;
+
+      case 'aim-assist-weaker':
+      case 'aim-assist-stronger': {
+        const step = action === 'aim-assist-stronger' ? 0.1 : -0.1;
+        const strength = Math.round(clamp(this.aimAssist.getSettings().strength + step, 0, 1) * 10) / 10;
+        this.setAimAssist({ strength });
+        break;
+      }
+
       // Shard selection
       case 'back':
-        if (this.currentScreen === 'shard-select') {
+        if (this.currentScreen === 'shard-select' || this.currentScreen === 'settings') {
           this.currentScreen = 'menu';
           this.menuState.screen = 'menu';
         } else if (this.currentScreen === 'lobby') {
@@ -310,7 +436,11 @@ export class Game {
       case 'find-match':
         // Check if all ready or set self ready
         const currentParty = this.menuState.party;
-        if (currentParty?.members?.every(m => m.is_ready)) {
+        const problems = compositionProblems(currentParty?.mode ?? 'standard', currentParty?.members?.map(m => m.role) ?? []);
+        if (problems.length > 0) {
+          this.menuState.error = problems[0];
+          setTimeout(() => { this.menuState.error = null; }, 2000);
+        } else if (currentParty?.members?.every(m => m.is_ready)) {
           // All ready, start queue
           this.menuState.isLoading = true;
           const lobby = await lobbyManager.joinQueue(this.menuState.selectedShard);
@@ -339,6 +469,20 @@ export class Game {
         }
         break;
 
+      case 'mode': {
+        // Stored on the party so every member sees it; only the leader may change it
+        const party = this.menuState.party;
+        if (!party) break;
+        const next = (MATCH_MODES.findIndex((mode) => mode === party.mode) + 1) % MATCH_MODES.length;
+        if (await lobbyManager.setMode(MATCH_MODES[next])) {
+          this.menuState.party = { ...party, mode: MATCH_MODES[next] };
+        } else {
+          this.menuState.error = 'Only the party leader can change mode';
+          setTimeout(() => { this.menuState.error = null; }, 2000);
+        }
+        break;
+      }
+
       // Queue
       case 'cancel-queue':
         await lobbyManager.leaveQueue();
@@ -362,22 +506,6 @@ export class Game {
     }
   }
 
-  private createEmptyMatchState(): MatchState {
-    return {
-      id: `match_${Date.now()}`,
-      phase: 'waiting',
-      timeElapsed: 0,
-      teams: new Map(),
-      players: new Map(),
-      relics: new Map(),
-      deliverySites: new Map(),
-      structures: new Map(),
-      rings: [],
-      vaultPosition: null,
-      vaultRadius: 150,
-    };
-  }
-
   // Screen management
   getCurrentScreen(): GameScreen {
     return this.currentScreen;
@@ -396,274 +524,299 @@ export class Game {
   }
 
   // Initialize a test match for single-player development
-  initTestMatch(): void {
-    // Reset match state completely
-    this.matchState = this.createEmptyMatchState();
-    this.projectiles = [];
-    this.orbs = [];
-    this.lastFireTime.clear();
-
-    const ms = this.matchState;
-    ms.phase = 'open';
-    this.currentScreen = 'match';
-
-    // Create one team with one player (local)
-    const teamId = 'team_local';
-    const playerId = 'player_local';
-    const role = this.selectedRole;
-
-    // Get role stats with fallback
-    const roleStats = ROLE_STATS[role] || ROLE_STATS.skirmisher;
-    const spawnX = this.config.mapWidth / 2;
-    const spawnY = this.config.mapHeight / 2;
-
-    const team: Team = {
-      id: teamId,
-      name: 'Local Team',
-      color: '#44ff44',
-      playerIds: [playerId],
-      orbs: 0,
-      isEliminated: false,
-      relicsDelivered: 0,
-    };
-    ms.teams.set(teamId, team);
-
-    const player: Player = {
-      id: playerId,
-      name: 'Player',
-      teamId,
-      role,
-      position: vec2(spawnX, spawnY),
-      velocity: vec2(),
-      rotation: -Math.PI / 2, // Face up initially
-      health: roleStats.maxHealth,
-      shield: roleStats.maxShield,
-      isAlive: true,
-      respawnTimer: 0,
-      weapon: this.defaultWeapon,
-      orbs: 0,
-      carryingRelic: null,
-    };
-    ms.players.set(playerId, player);
-    this.localPlayerId = playerId;
-
-    // Create initial riftline ring FIRST (before enemies spawn)
-    // Make ring very large initially to ensure all spawns are safe
-    ms.rings.push({
-      id: 'ring_main',
-      center: vec2(spawnX, spawnY),
-      currentRadius: Math.max(this.config.mapWidth, this.config.mapHeight), // Full map size
-      targetRadius: 800,
-      shrinkRate: 5, // Slower shrink rate
-      damage: 5, // damage per second
+  initTestMatch(seed: number = generateSeed()): void {
+    // A new match replaces any suspended one
+    storage.remove(SUSPENDED_MATCH_KEY);
+    this.startLocalMatch({
+      config: this.config,
+      role: this.selectedRole,
+      seed,
+      localPlayerId: LOCAL_PLAYER_ID,
     });
+  }
 
-    // Add some enemy teams for testing
-    this.spawnTestEnemies(3);
-
-    // Create relics and delivery sites
-    this.spawnRelicsAndSites();
+  // Pick up the practice match saved before the page was last closed
+  private resumeSuspendedMatch(): void {
+    const suspended = storage.get<SuspendedMatch>(SUSPENDED_MATCH_KEY);
+    if (!suspended || suspended.version !== SUSPENDED_MATCH_VERSION || !suspended.setup.resume) {
+      storage.remove(SUSPENDED_MATCH_KEY);
+      this.menuState.suspendedMatch = null;
+      this.menuState.error = 'Saved match could not be loaded';
+      setTimeout(() => { this.menuState.error = null; }, 3000);
+      return;
+    }
 
-    // Create structures for cover (avoid player spawn area)
-    this.spawnStructures(spawnX, spawnY);
+    this.selectedRole = suspended.setup.role;
+    this.startLocalMatch(suspended.setup);
+  }
 
-    // Make sure player isn't stuck inside a structure
-    this.resolvePlayerStructureCollisions(player.position, roleStats.hitboxRadius);
+  private startLocalMatch(setup: PracticeMatchSetup): void {
+    // Keep whatever was recorded of the previous match
+    this.endLocalMatch();
+    this.leaveNetworkMatch();
+    this.replay = null;
+    this.stressBullets = 0;
+    this.autosaveTimer = 0;
+    this.killFeed.reset(setup.localPlayerId);
+    this.menuState.suspendedMatch = null;
+
+    this.match = this.createLocalMatch(setup);
+    this.matchSetup = setup;
+    this.localPlayerId = setup.localPlayerId;
+    this.currentScreen = 'match';
 
-    // Set camera to follow player immediately
-    this.camera.follow(player.position);
-    // Also force camera position to player position immediately
-    this.camera.position = { x: spawnX, y: spawnY };
-    this.camera.targetPosition = { x: spawnX, y: spawnY };
+    // The local player may only exist once the worker's first snapshot lands
+    this.snapCameraPending = true;
 
     console.log('Match initialized:', {
-      playerHealth: player.health,
-      playerShield: player.shield,
-      playerPosition: player.position,
-      ringRadius: ms.rings[0].currentRadius,
+      seed: encodeSeed(setup.seed),
+      mode: this.match.mode,
+      resumed: setup.resume !== undefined,
     });
   }
 
-  private spawnTestEnemies(count: number): void {
-    const roles: Role[] = ['vanguard', 'skirmisher', 'sentinel', 'catalyst'];
+  private createLocalMatch(setup: PracticeMatchSetup): LocalMatch {
+    if (!this.useWorker) {
+      return new MainThreadMatch(setup, this.events);
+    }
 
-    for (let i = 0; i < count; i++) {
-      const teamId = `team_enemy_${i}`;
-      const team: Team = {
-        id: teamId,
-        name: `Enemy ${i + 1}`,
-        color: '#ff4444',
-        playerIds: [],
-        orbs: 0,
-        isEliminated: false,
-        relicsDelivered: 0,
-      };
+    const match = createLocalMatch(setup, this.events);
+    if (match instanceof WorkerMatch) {
+      // Restart the same match on the main thread rather than leave it frozen
+      match.setOnFailure(() => {
+        if (this.match !== match) return;
+        console.warn('Falling back to main-thread simulation');
+        this.useWorker = false;
+        const bullets = this.stressBullets;
+        this.startLocalMatch(setup);
+        if (bullets > 0) this.startStressBullets(bullets);
+      });
+    }
+    return match;
+  }
 
-      // Add 3 players per team
-      for (let j = 0; j < 3; j++) {
-        const playerId = `player_enemy_${i}_${j}`;
-        const role = roles[randomInt(0, roles.length - 1)];
-
-        const player: Player = {
-          id: playerId,
-          name: `Enemy ${i + 1}-${j + 1}`,
-          teamId,
-          role,
-          position: vec2(
-            randomRange(200, this.config.mapWidth - 200),
-            randomRange(200, this.config.mapHeight - 200)
-          ),
-          velocity: vec2(),
-          rotation: randomRange(0, Math.PI * 2),
-          health: ROLE_STATS[role].maxHealth,
-          shield: ROLE_STATS[role].maxShield,
-          isAlive: true,
-          respawnTimer: 0,
-          weapon: this.defaultWeapon,
-          orbs: 0,
-          carryingRelic: null,
-        };
-
-        team.playerIds.push(playerId);
-        this.matchState.players.set(playerId, player);
-      }
+  private setInventoryOpen(open: boolean): void {
+    this.inventoryOverlay.setOpen(open);
+    this.inputManager.setPointerCapture(open ? this.inventoryOverlay : null);
+  }
+
+  private endLocalMatch(): void {
+    this.setInventoryOpen(false);
+    if (!this.match) return;
+    this.saveRecording();
+    this.match.dispose();
+    this.match = null;
+    this.matchSetup = null;
+  }
 
-      this.matchState.teams.set(teamId, team);
+  private handleVisibilityChange(): void {
+    if (document.hidden) {
+      // The player may never come back: park the match where a reload can find it
+      this.match?.pause();
+      this.saveSuspendedMatch();
+    } else {
+      // No frames ran while hidden; don't count the gap as one long frame
+      this.lastTime = performance.now();
+      this.match?.resume();
     }
   }
 
-  private spawnRelicsAndSites(): void {
-    const ms = this.matchState;
+  private saveSuspendedMatch(): void {
+    const match = this.match;
+    const setup = this.matchSetup;
+    // Stress tests are throwaway, and thousands of bullets would swamp storage
+    if (!match || !setup || this.stressBullets > 0) return;
 
-    for (let i = 0; i < this.config.relicCount; i++) {
-      const relicId = `relic_${i}`;
-      const siteId = `site_${i}`;
+    match.save().then((saved) => {
+      if (this.match !== match) return;
+      if (!saved) {
+        storage.remove(SUSPENDED_MATCH_KEY);
+        return;
+      }
+      const suspended: SuspendedMatch = {
+        version: SUSPENDED_MATCH_VERSION,
+        savedAt: Date.now(),
+        setup: { ...setup, resume: saved },
+      };
+      storage.set(SUSPENDED_MATCH_KEY, suspended);
+    });
+  }
 
-      // Relic position
-      const relicPos = vec2(
-        randomRange(300, this.config.mapWidth - 300),
-        randomRange(300, this.config.mapHeight - 300)
-      );
+  private loadSuspendedMatchInfo(): SuspendedMatchInfo | null {
+    const suspended = storage.get<SuspendedMatch>(SUSPENDED_MATCH_KEY);
+    const resume = suspended?.setup.resume;
+    if (!suspended || suspended.version !== SUSPENDED_MATCH_VERSION || !resume) {
+      return null;
+    }
+    return {
+      role: suspended.setup.role,
+      seed: encodeSeed(suspended.setup.seed),
+      timeElapsed: resume.state.timeElapsed,
+    };
+  }
 
-      // Site position (different from relic)
-      const sitePos = vec2(
-        randomRange(300, this.config.mapWidth - 300),
-        randomRange(300, this.config.mapHeight - 300)
-      );
+  // Practice match with `bullets` harmless projectiles kept in flight
+  startStressTest(bullets: number = 3000): void {
+    this.initTestMatch();
+    this.startStressBullets(bullets);
+  }
 
-      const relic: Relic = {
-        id: relicId,
-        position: relicPos,
-        targetSiteId: siteId,
-        carriedByPlayerId: null,
-        isDelivered: false,
-      };
+  private startStressBullets(bullets: number): void {
+    this.stressBullets = bullets;
+    this.stressFrames = { count: 0, total: 0, worst: 0 };
+    this.match?.setStressBullets(bullets);
+  }
 
-      const site: DeliverySite = {
-        id: siteId,
-        position: sitePos,
-        radius: 60,
-        acceptsRelicId: relicId,
-      };
+  private logStressFrame(frameTime: number): void {
+    const stats = this.stressFrames;
+    stats.count++;
+    stats.total += frameTime;
+    stats.worst = Math.max(stats.worst, frameTime);
 
-      ms.relics.set(relicId, relic);
-      ms.deliverySites.set(siteId, site);
+    if (stats.total >= 1000) {
+      console.log(
+        `[stress] ${this.match?.getRenderView()?.projectiles.length ?? 0} bullets (${this.match?.mode}): ` +
+          `avg ${(stats.total / stats.count).toFixed(1)}ms, worst ${stats.worst.toFixed(1)}ms`
+      );
+      this.stressFrames = { count: 0, total: 0, worst: 0 };
     }
   }
 
-  private spawnStructures(playerSpawnX: number, playerSpawnY: number): void {
-    const ms = this.matchState;
-    const spawnSafeRadius = 150; // Keep structures away from player spawn
-
-    // Create a grid-based layout for cover throughout the map
-    const gridSize = 400; // Distance between structure clusters
-    const margin = 200; // Keep structures away from map edges
-
-    let structureId = 0;
-
-    // Spawn structure clusters in a grid pattern
-    for (let x = margin; x < this.config.mapWidth - margin; x += gridSize) {
-      for (let y = margin; y < this.config.mapHeight - margin; y += gridSize) {
-        // Random offset within the grid cell
-        const offsetX = randomRange(-100, 100);
-        const offsetY = randomRange(-100, 100);
-        const centerX = x + offsetX;
-        const centerY = y + offsetY;
-
-        // Skip if too close to player spawn
-        const distToSpawn = Math.sqrt(
-          Math.pow(centerX - playerSpawnX, 2) + Math.pow(centerY - playerSpawnY, 2)
-        );
-        if (distToSpawn < spawnSafeRadius) continue;
-
-        // Randomly decide what type of structure cluster to place
-        const clusterType = randomInt(0, 4);
-
-        switch (clusterType) {
-          case 0: // L-shaped wall cover
-            this.createStructure(ms, structureId++, 'wall', centerX, centerY, 120, 20, 0);
-            this.createStructure(ms, structureId++, 'wall', centerX + 50, centerY + 50, 80, 20, Math.PI / 2);
-            break;
-          case 1: // Crate cluster
-            this.createStructure(ms, structureId++, 'crate', centerX, centerY, 40, 40, 0);
-            this.createStructure(ms, structureId++, 'crate', centerX + 50, centerY, 40, 40, randomRange(0, Math.PI / 4));
-            this.createStructure(ms, structureId++, 'crate', centerX + 25, centerY + 45, 40, 40, randomRange(0, Math.PI / 4));
-            break;
-          case 2: // Single pillar
-            this.createStructure(ms, structureId++, 'pillar', centerX, centerY, 50, 50, 0);
-            break;
-          case 3: // Small building
-            this.createStructure(ms, structureId++, 'building', centerX, centerY, 100, 80, randomRange(0, Math.PI / 2));
-            break;
-          case 4: // Barrier line
-            this.createStructure(ms, structureId++, 'barrier', centerX, centerY, 150, 15, randomRange(0, Math.PI));
-            break;
-        }
+  // Join the server-run match the lobby was placed in
+  startNetworkMatch(matchId: string): void {
+    const profile = lobbyManager.getProfileSync();
+    const party = lobbyManager.getParty();
+    if (!MATCH_SERVER_URL || !profile || !party) {
+      console.warn('Match server not configured - starting practice match');
+      this.initTestMatch();
+      return;
+    }
+
+    this.endLocalMatch();
+    this.leaveNetworkMatch();
+    this.replay = null;
+
+    const client = new MatchClient(
+      MATCH_SERVER_URL,
+      {
+        matchId,
+        playerId: profile.id,
+        name: profile.display_name || profile.username,
+        role: this.selectedRole,
+        partyId: party.id,
+      },
+      this.events
+    );
+    client.configureInterpolation(this.interpolation);
+    this.killFeed.reset(profile.id);
+
+    client.setOnReady(() => {
+      this.localPlayerId = profile.id;
+      this.currentScreen = 'match';
+
+      const player = this.getLocalPlayer();
+      if (player) {
+        this.camera.position = { ...player.position };
+        this.camera.targetPosition = { ...player.position };
       }
+    });
+
+    client.setOnError((message) => {
+      if (this.network !== client) return;
+      this.network = null;
+      this.currentScreen = 'lobby';
+      this.menuState.screen = 'lobby';
+      this.menuState.error = message;
+      setTimeout(() => { this.menuState.error = null; }, 3000);
+    });
+
+    this.network = client;
+    client.connect();
+  }
+
+  private leaveNetworkMatch(): void {
+    this.setInventoryOpen(false);
+    if (this.network) {
+      this.network.close();
+      this.network = null;
     }
+  }
 
-    // Add some larger structures near the center for interesting combat
-    const centerX = this.config.mapWidth / 2;
-    const centerY = this.config.mapHeight / 2;
+  // The recording lives with the simulation, possibly in the worker
+  private saveRecording(): void {
+    if (!this.match) return;
 
-    // Central structure - keep some space around player spawn
-    this.createStructure(ms, structureId++, 'building', centerX + 200, centerY - 200, 120, 100, 0);
-    this.createStructure(ms, structureId++, 'building', centerX - 200, centerY + 200, 120, 100, 0);
-    this.createStructure(ms, structureId++, 'pillar', centerX + 150, centerY + 150, 60, 60, 0);
-    this.createStructure(ms, structureId++, 'pillar', centerX - 150, centerY - 150, 60, 60, 0);
+    this.match.finishRecording().then((recording) => {
+      if (recording && recording.durationTicks > 0) {
+        saveReplay(recording);
+      }
+    });
   }
 
-  private createStructure(
-    ms: MatchState,
-    id: number,
-    type: StructureType,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    rotation: number
-  ): void {
-    const healthMap: Record<StructureType, number> = {
-      wall: 200,
-      crate: 100,
-      pillar: 300,
-      building: 500,
-      barrier: 150,
-    };
+  // Play back a recorded match with a free camera
+  startReplay(recording: MatchRecording): void {
+    this.endLocalMatch();
+    this.leaveNetworkMatch();
 
-    const structure: Structure = {
-      id: `structure_${id}`,
-      type,
-      position: vec2(x, y),
-      width,
-      height,
-      rotation,
-      health: healthMap[type],
-      maxHealth: healthMap[type],
-      isDestructible: type !== 'pillar', // Pillars are indestructible
+    this.replay = new MatchReplay(recording);
+    this.localPlayerId = recording.localPlayerId;
+    this.currentScreen = 'replay';
+
+    const ms = this.replay.getSimulation().state;
+    const focus = (this.localPlayerId && ms.players.get(this.localPlayerId)?.position) || {
+      x: recording.config.mapWidth / 2,
+      y: recording.config.mapHeight / 2,
     };
+    this.camera.position = { ...focus };
+    this.camera.targetPosition = { ...focus };
+  }
 
-    ms.structures.set(structure.id, structure);
+  private handleReplayInteraction(x: number, y: number): void {
+    const replay = this.replay;
+    if (!replay) return;
+
+    const progress = this.replayRenderer.timelineHitTest(x, y);
+    const action = this.replayRenderer.hitTest(x, y);
+
+    switch (action) {
+      case 'replay-exit':
+        this.replay = null;
+        this.currentScreen = 'menu';
+        this.menuState.screen = 'menu';
+        return;
+      case 'replay-pause':
+        replay.togglePause();
+        return;
+      case 'replay-slower':
+        replay.changeSpeed(-1);
+        return;
+      case 'replay-faster':
+        replay.changeSpeed(1);
+        return;
+      case 'replay-export':
+        exportReplay(replay.recording);
+        return;
+    }
+
+    if (progress !== null) {
+      replay.seekToProgress(progress);
+    }
+  }
+
+  private updateReplay(deltaTime: number): void {
+    if (!this.replay) return;
+
+    this.replay.update(deltaTime);
+
+    // Free camera: pan with the move stick / WASD
+    const move = this.inputManager.getInput().moveDirection;
+    const speed = this.REPLAY_CAMERA_SPEED / this.camera.getZoom();
+    const target = this.camera.targetPosition;
+    this.camera.targetPosition = {
+      x: clamp(target.x + move.x * speed * deltaTime, 0, this.replay.recording.config.mapWidth),
+      y: clamp(target.y + move.y * speed * deltaTime, 0, this.replay.recording.config.mapHeight),
+    };
+    this.camera.update(deltaTime);
   }
 
   start(): void {
@@ -681,522 +834,186 @@ export class Game {
     if (!this.running) return;
 
     const currentTime = performance.now();
-    const deltaTime = Math.min((currentTime - this.lastTime) / 1000, 0.1); // Cap at 100ms
+    const frameTime = currentTime - this.lastTime;
+    const deltaTime = Math.min(frameTime / 1000, 0.1); // Cap at 100ms
     this.lastTime = currentTime;
 
+    if (this.stressBullets > 0) {
+      this.logStressFrame(frameTime);
+    }
+
     this.update(deltaTime);
     this.render();
 
     requestAnimationFrame(() => this.gameLoop());
   }
 
+
   private update(deltaTime: number): void {
     // Update queue timer when in queue
     if (this.currentScreen === 'queue') {
       this.menuState.queueTime += deltaTime;
 
       // Simulate finding a match after 3-8 seconds (for demo/testing)
-      if (this.menuState.queueTime > 3 + Math.random() * 5) {
+      if (!MATCH_SERVER_URL && this.menuState.queueTime > 3 + Math.random() * 5) {
         this.initTestMatch();
       }
       return;
     }
 
+    if (this.currentScreen === 'replay') {
+      this.updateReplay(deltaTime);
+      return;
+    }
+
     // Only run game logic during match
     if (this.currentScreen !== 'match') {
       return;
     }
 
-    this.matchState.timeElapsed += deltaTime;
+    const localPlayer = this.getLocalPlayer();
+    if (this.inventoryOverlay.isOpen() && (!localPlayer?.isAlive || localPlayer.isDowned)) {
+      this.setInventoryOpen(false);
+    }
+
+    if (this.network) {
+      // The server runs the match; we send input and predict our own movement
+      if (localPlayer) {
+        this.network.update(this.buildLocalInput(localPlayer, deltaTime), deltaTime);
+      }
+    } else if (this.match) {
+      if (localPlayer) {
+        this.match.setInput(localPlayer.id, this.buildLocalInput(localPlayer, deltaTime));
+      }
+      this.match.update(deltaTime);
+
+      this.autosaveTimer += deltaTime;
+      if (this.autosaveTimer >= AUTOSAVE_INTERVAL) {
+        this.autosaveTimer = 0;
+        this.saveSuspendedMatch();
+      }
+    }
 
-    this.updateLocalPlayer(deltaTime);
-    this.updateAI(deltaTime);
-    this.updateProjectiles(deltaTime);
-    this.updateOrbs(deltaTime);
-    this.updateRiftline(deltaTime);
-    this.updateRespawns(deltaTime);
-    this.checkRelicInteractions();
-    this.checkVictoryCondition();
+    if (localPlayer && this.snapCameraPending) {
+      this.snapCameraPending = false;
+      this.camera.position = { ...localPlayer.position };
+      this.camera.targetPosition = { ...localPlayer.position };
+    }
 
     // Update camera to follow local player
-    const localPlayer = this.localPlayerId ? this.matchState.players.get(this.localPlayerId) : null;
     if (localPlayer && localPlayer.isAlive) {
       this.camera.follow(localPlayer.position);
     }
     this.camera.update(deltaTime);
   }
 
-  private updateLocalPlayer(deltaTime: number): void {
-    const player = this.localPlayerId ? this.matchState.players.get(this.localPlayerId) : null;
-    if (!player || !player.isAlive) return;
-
+  // Read devices into an InputState, resolving mouse aim to a world direction
+  // and bending aim stick input with aim assist
+  private buildLocalInput(player: Player, deltaTime: number): InputState {
     const input = this.inputManager.getInput();
-    const stats = ROLE_STATS[player.role];
 
-    // Movement
-    let speed = stats.moveSpeed;
-    if (player.carryingRelic) {
-      speed *= stats.relicCarrySpeed;
-    }
-
-    if (vec2Length(input.moveDirection) > 0) {
-      const moveDir = vec2Normalize(input.moveDirection);
-      player.velocity = vec2Scale(moveDir, speed);
+    if (this.inputManager.isTouchAiming()) {
+      const ms = this.getMatchState();
+      input.aimDirection = this.aimAssist.apply(input.aimDirection, player, ms, this.structureIndex(ms), deltaTime);
     } else {
-      player.velocity = vec2Scale(player.velocity, 0.85); // Friction
+      this.aimAssist.reset();
     }
 
-    // Calculate new position
-    const newPos = vec2Add(player.position, vec2Scale(player.velocity, deltaTime));
-
-    // Check structure collisions
-    this.resolvePlayerStructureCollisions(newPos, stats.hitboxRadius);
-
-    player.position = newPos;
-
-    // Clamp to map bounds
-    player.position.x = clamp(player.position.x, stats.hitboxRadius, this.config.mapWidth - stats.hitboxRadius);
-    player.position.y = clamp(player.position.y, stats.hitboxRadius, this.config.mapHeight - stats.hitboxRadius);
-
-    // Rotation (aim direction or mouse)
-    if (vec2Length(input.aimDirection) > 0) {
-      player.rotation = vec2Angle(input.aimDirection);
-    } else {
+    const mouseWorld = this.camera.screenToWorld(this.inputManager.getMousePosition());
+    const toMouse = vec2Sub(mouseWorld, player.position);
+    if (vec2Length(input.aimDirection) === 0) {
       // Use mouse position for desktop
-      const mouseWorld = this.camera.screenToWorld(this.inputManager.getMousePosition());
-      const toMouse = vec2Sub(mouseWorld, player.position);
       if (vec2Length(toMouse) > 10) {
-        player.rotation = vec2Angle(toMouse);
-      }
-    }
-
-    // Firing
-    if (input.firing && player.weapon) {
-      this.tryFireWeapon(player);
-    }
-  }
-
-  private resolvePlayerStructureCollisions(position: { x: number; y: number }, radius: number): void {
-    for (const structure of this.matchState.structures.values()) {
-      // Special handling for pillars (circular)
-      if (structure.type === 'pillar') {
-        const dist = vec2Distance(position, structure.position);
-        const minDist = radius + structure.width / 2;
-        if (dist < minDist) {
-          const pushDir = vec2Normalize(vec2Sub(position, structure.position));
-          const pushDist = minDist - dist;
-          position.x += pushDir.x * pushDist;
-          position.y += pushDir.y * pushDist;
-        }
-      } else {
-        // Rectangular structures
-        const push = getCircleRectPushVector(
-          position,
-          radius,
-          structure.position,
-          structure.width,
-          structure.height,
-          structure.rotation
-        );
-        if (push) {
-          position.x += push.x;
-          position.y += push.y;
-        }
-      }
-    }
-  }
-
-  private tryFireWeapon(player: Player): void {
-    if (!player.weapon) return;
-
-    const lastFire = this.lastFireTime.get(player.id) || 0;
-    const fireInterval = 1000 / player.weapon.stats.fireRate;
-
-    if (performance.now() - lastFire >= fireInterval) {
-      this.lastFireTime.set(player.id, performance.now());
-
-      // Create projectile
-      const spread = (player.weapon.stats.spread * Math.PI) / 180;
-      const angle = player.rotation + randomRange(-spread / 2, spread / 2);
-      const direction = vec2FromAngle(angle);
-
-      const projectile = createProjectile(
-        player.id,
-        player.teamId,
-        vec2Add(player.position, vec2Scale(direction, ROLE_STATS[player.role].hitboxRadius + 5)),
-        direction,
-        player.weapon
-      );
-
-      this.projectiles.push(projectile);
-    }
-  }
-
-  private updateAI(deltaTime: number): void {
-    // Simple AI for test enemies
-    for (const player of this.matchState.players.values()) {
-      if (player.id === this.localPlayerId || !player.isAlive) continue;
-
-      // Random movement - change direction more often if stuck
-      if (Math.random() < 0.02) {
-        player.rotation = randomRange(0, Math.PI * 2);
-      }
-
-      const stats = ROLE_STATS[player.role];
-      const speed = stats.moveSpeed * 0.5; // AI moves slower
-
-      player.velocity = vec2FromAngle(player.rotation, speed);
-
-      // Calculate new position
-      const newPos = vec2Add(player.position, vec2Scale(player.velocity, deltaTime));
-
-      // Check structure collisions
-      this.resolvePlayerStructureCollisions(newPos, stats.hitboxRadius);
-
-      player.position = newPos;
-
-      // Clamp to map bounds
-      player.position.x = clamp(player.position.x, stats.hitboxRadius, this.config.mapWidth - stats.hitboxRadius);
-      player.position.y = clamp(player.position.y, stats.hitboxRadius, this.config.mapHeight - stats.hitboxRadius);
-
-      // Look towards local player if in range
-      const localPlayer = this.localPlayerId ? this.matchState.players.get(this.localPlayerId) : null;
-      if (localPlayer && localPlayer.isAlive) {
-        const toPlayer = vec2Sub(localPlayer.position, player.position);
-        const dist = vec2Length(toPlayer);
-        if (dist < 500) { // Detection range
-          player.rotation = vec2Angle(toPlayer);
-
-          // Fire at player if in range
-          if (Math.random() < 0.03 && player.weapon) {
-            const projectile = createProjectile(
-              player.id,
-              player.teamId,
-              vec2Add(player.position, vec2FromAngle(player.rotation, stats.hitboxRadius + 5)),
-              vec2FromAngle(player.rotation),
-              player.weapon
-            );
-            this.projectiles.push(projectile);
-          }
-        }
+        input.aimDirection = vec2Normalize(toMouse);
       }
     }
-  }
-
-  private updateProjectiles(deltaTime: number): void {
-    const toRemove: number[] = [];
 
-    for (let i = 0; i < this.projectiles.length; i++) {
-      const projectile = this.projectiles[i];
-
-      if (!updateProjectile(projectile, deltaTime)) {
-        toRemove.push(i);
-        continue;
-      }
-
-      // Check collision with players
-      let hitSomething = false;
-      for (const player of this.matchState.players.values()) {
-        if (!player.isAlive) continue;
-        if (player.teamId === projectile.teamId) continue; // No friendly fire
-
-        const stats = ROLE_STATS[player.role];
-        if (vec2Distance(projectile.position, player.position) <= stats.hitboxRadius) {
-          this.damagePlayer(player, projectile.damage, projectile.ownerId);
-          toRemove.push(i);
-          hitSomething = true;
-          break;
-        }
-      }
-
-      if (hitSomething) continue;
-
-      // Check collision with structures
-      for (const structure of this.matchState.structures.values()) {
-        let hit = false;
-
-        if (structure.type === 'pillar') {
-          // Circular collision for pillars
-          if (vec2Distance(projectile.position, structure.position) <= structure.width / 2 + 4) {
-            hit = true;
-          }
-        } else {
-          // Rectangle collision for other structures
-          if (pointInRotatedRect(
-            projectile.position,
-            structure.position,
-            structure.width + 8, // Add projectile radius
-            structure.height + 8,
-            structure.rotation
-          )) {
-            hit = true;
-          }
-        }
-
-        if (hit) {
-          // Damage destructible structures
-          if (structure.isDestructible) {
-            structure.health -= projectile.damage;
-            if (structure.health <= 0) {
-              this.matchState.structures.delete(structure.id);
-            }
-          }
-          toRemove.push(i);
-          hitSomething = true;
-          break;
-        }
-      }
-
-      if (hitSomething) continue;
-
-      // Check map bounds
-      if (
-        projectile.position.x < 0 ||
-        projectile.position.x > this.config.mapWidth ||
-        projectile.position.y < 0 ||
-        projectile.position.y > this.config.mapHeight
-      ) {
-        toRemove.push(i);
-      }
+    // Throwables land on the cursor unless a touch drag is aiming them
+    if (input.throwing && !this.inputManager.isTouchThrow()) {
+      input.throwOffset = toMouse;
     }
+    this.throwPreview = input.throwing ? input.throwOffset : null;
 
-    // Remove projectiles (reverse order to maintain indices)
-    for (let i = toRemove.length - 1; i >= 0; i--) {
-      this.projectiles.splice(toRemove[i], 1);
-    }
+    return input;
   }
 
-  private damagePlayer(player: Player, damage: number, attackerId: string): void {
-    // Shield absorbs damage first
-    if (player.shield > 0) {
-      const shieldDamage = Math.min(player.shield, damage);
-      player.shield -= shieldDamage;
-      damage -= shieldDamage;
-    }
-
-    player.health -= damage;
-
-    if (player.health <= 0) {
-      this.eliminatePlayer(player, attackerId);
-    }
-  }
-
-  private eliminatePlayer(player: Player, killerId: string): void {
-    player.isAlive = false;
-    player.health = 0;
-    player.respawnTimer = this.config.baseRespawnTime;
-
-    // Drop orbs
-    const orbs = createOrbsFromElimination(player.position, this.config.orbDropCount);
-    this.orbs.push(...orbs);
-
-    // Drop relic if carrying
-    if (player.carryingRelic) {
-      player.carryingRelic.carriedByPlayerId = null;
-      player.carryingRelic.position = { ...player.position };
-      player.carryingRelic = null;
+  private render(): void {
+    // If on a menu screen, use MenuRenderer
+    if (this.currentScreen === 'replay' && this.replay) {
+      const simulation = this.replay.getSimulation();
+      this.renderMatch(simulation.state, simulation.projectiles, simulation.orbs);
+      this.replayRenderer.render(this.replay);
+      return;
     }
 
-    // Check if team is eliminated
-    const team = this.matchState.teams.get(player.teamId);
-    if (team) {
-      const anyAlive = team.playerIds.some(
-        (pid) => this.matchState.players.get(pid)?.isAlive
-      );
-      if (!anyAlive) {
-        // Team might still respawn - check after respawn timers
-      }
-    }
-  }
-
-  private updateOrbs(deltaTime: number): void {
-    // Remove expired orbs
-    this.orbs = this.orbs.filter((orb) => !isOrbExpired(orb));
-
-    // Check collection by alive players
-    const toRemove: string[] = [];
-
-    for (const orb of this.orbs) {
-      for (const player of this.matchState.players.values()) {
-        if (!player.isAlive) continue;
-
-        if (canCollectOrb(orb, player.position)) {
-          player.orbs++;
-
-          const team = this.matchState.teams.get(player.teamId);
-          if (team) {
-            team.orbs++;
-          }
-
-          toRemove.push(orb.id);
-          break;
-        }
-      }
+    if (this.currentScreen !== 'match' && this.currentScreen !== 'results') {
+      const deltaTime = 1 / 60; // Approximate
+      this.menuRenderer.render(this.menuState, deltaTime);
+      return;
     }
 
-    this.orbs = this.orbs.filter((orb) => !toRemove.includes(orb.id));
-  }
+    const view = this.network?.getRenderView() || this.match?.getRenderView();
+    if (view) {
+      this.renderMatch(view.state, view.projectiles, view.orbs);
 
-  private updateRiftline(deltaTime: number): void {
-    for (const ring of this.matchState.rings) {
-      // Shrink ring
-      if (ring.currentRadius > ring.targetRadius) {
-        ring.currentRadius = Math.max(
-          ring.targetRadius,
-          ring.currentRadius - ring.shrinkRate * deltaTime
-        );
-      }
-
-      // Damage players outside ring
-      for (const player of this.matchState.players.values()) {
-        if (!player.isAlive) continue;
-
-        const insideAnyRing = this.matchState.rings.some((r) =>
-          pointInCircle(player.position, r.center, r.currentRadius)
-        );
-
-        if (!insideAnyRing) {
-          this.damagePlayer(player, ring.damage * deltaTime, 'riftline');
-        }
-      }
-    }
-  }
-
-  private updateRespawns(deltaTime: number): void {
-    for (const player of this.matchState.players.values()) {
-      if (player.isAlive || player.respawnTimer <= 0) continue;
-
-      const team = this.matchState.teams.get(player.teamId);
-      if (!team) continue;
-
-      // Apply orb reduction
-      const reduction = team.orbs * this.config.orbRespawnReduction;
-      const effectiveTimer = player.respawnTimer - reduction;
-
-      player.respawnTimer -= deltaTime;
-
-      // Check respawn
-      if (player.respawnTimer <= 0 || effectiveTimer <= 0) {
-        // Find a living teammate to spawn near
-        const livingTeammate = team.playerIds
-          .map((pid) => this.matchState.players.get(pid))
-          .find((p) => p && p.isAlive && p.id !== player.id);
-
-        if (livingTeammate) {
-          // Respawn near teammate
-          const spawnOffset = vec2FromAngle(randomRange(0, Math.PI * 2), 100);
-          player.position = vec2Add(livingTeammate.position, spawnOffset);
-          player.isAlive = true;
-          player.health = ROLE_STATS[player.role].maxHealth;
-          player.shield = ROLE_STATS[player.role].maxShield;
-          player.respawnTimer = 0;
-        } else {
-          // No living teammates - team eliminated
-          team.isEliminated = true;
-        }
+      // Backpack on top of everything else
+      const localPlayer = this.localPlayerId ? view.state.players.get(this.localPlayerId) : undefined;
+      if (localPlayer && this.inventoryOverlay.isOpen()) {
+        this.inventoryOverlay.render(localPlayer, view.state.loot);
       }
+    } else {
+      this.renderMatch(this.idleState, [], []);
     }
   }
 
-  private checkRelicInteractions(): void {
-    const localPlayer = this.localPlayerId ? this.matchState.players.get(this.localPlayerId) : null;
-    if (!localPlayer || !localPlayer.isAlive) return;
-
-    const input = this.inputManager.getInput();
-
-    // Pickup relic
-    if (!localPlayer.carryingRelic) {
-      for (const relic of this.matchState.relics.values()) {
-        if (relic.carriedByPlayerId || relic.isDelivered) continue;
-
-        if (vec2Distance(localPlayer.position, relic.position) < 50) {
-          relic.carriedByPlayerId = localPlayer.id;
-          localPlayer.carryingRelic = relic;
-          break;
-        }
-      }
-    }
-
-    // Deliver relic
-    if (localPlayer.carryingRelic) {
-      const relic = localPlayer.carryingRelic;
-      const targetSite = this.matchState.deliverySites.get(relic.targetSiteId);
+  // What the local team can see; replays show everything
+  private localVision(ms: MatchState): TeamVision | null {
+    const player = this.localPlayerId ? ms.players.get(this.localPlayerId) : undefined;
+    if (!player) return null;
 
-      if (targetSite && vec2Distance(localPlayer.position, targetSite.position) < targetSite.radius) {
-        relic.isDelivered = true;
-        relic.carriedByPlayerId = null;
-        localPlayer.carryingRelic = null;
-
-        const team = this.matchState.teams.get(localPlayer.teamId);
-        if (team) {
-          team.relicsDelivered++;
-        }
-      }
-    }
+    return computeTeamVision(ms, player.teamId, this.structureIndex(ms));
   }
 
-  private checkVictoryCondition(): void {
-    const deliveredCount = Array.from(this.matchState.relics.values()).filter(
-      (r) => r.isDelivered
-    ).length;
-
-    // All relics delivered -> convergence phase
-    if (
-      deliveredCount >= this.config.relicCount &&
-      this.matchState.phase !== 'convergence' &&
-      this.matchState.phase !== 'ended'
-    ) {
-      this.matchState.phase = 'convergence';
-      this.matchState.vaultPosition = vec2(
-        randomRange(500, this.config.mapWidth - 500),
-        randomRange(500, this.config.mapHeight - 500)
-      );
-
-      // Update rings to converge on vault
-      for (const ring of this.matchState.rings) {
-        ring.center = this.matchState.vaultPosition;
-        ring.targetRadius = this.matchState.vaultRadius;
-        ring.shrinkRate = 30;
-      }
-    }
-
-    // Check for last team standing
-    const aliveTeams = Array.from(this.matchState.teams.values()).filter(
-      (t) => !t.isEliminated
-    );
-
-    if (aliveTeams.length <= 1 && this.matchState.phase !== 'ended') {
-      this.matchState.phase = 'ended';
-      // Winner logic here
+  // Rebuilt only when the match's structures are replaced
+  private structureIndex(ms: MatchState): SpatialHash<Structure> {
+    if (!this.visionStructures || this.visionStructureSource !== ms.structures) {
+      this.visionStructures = createStructureIndex(ms.structures.values());
+      this.visionStructureSource = ms.structures;
     }
+    return this.visionStructures;
   }
 
-  private render(): void {
-    // If on a menu screen, use MenuRenderer
-    if (this.currentScreen !== 'match' && this.currentScreen !== 'results') {
-      const deltaTime = 1 / 60; // Approximate
-      this.menuRenderer.render(this.menuState, deltaTime);
-      return;
-    }
-
+  private renderMatch(ms: MatchState, projectiles: Projectile[], orbs: Orb[]): void {
     this.renderer.render(
-      this.matchState.players,
-      this.matchState.teams,
-      this.matchState.relics,
-      this.matchState.deliverySites,
-      this.matchState.structures,
-      this.matchState.rings,
-      this.matchState.vaultPosition,
-      this.matchState.vaultRadius,
+      ms.players,
+      ms.teams,
+      ms.relics,
+      ms.deliverySites,
+      ms.structures,
+      ms.loot,
+      ms.grenades,
+      ms.smokes,
+      ms.healingFields,
+      this.currentScreen === 'replay' ? null : this.localVision(ms),
+      ms.rings,
+      ms.vaultPosition,
+      ms.vaultRadius,
       this.localPlayerId,
-      this.matchState.phase
+      ms.phase,
+      encodeSeed(ms.seed),
+      this.killFeed.recent(ms.timeElapsed),
+      this.killFeed.getLocalDeath()
     );
 
     // Render projectiles
-    this.renderProjectiles();
+    this.renderProjectiles(projectiles);
 
     // Render orbs
-    this.renderOrbs();
+    this.renderOrbs(orbs);
+
+    this.renderExplosions(ms.timeElapsed);
+    this.renderScanPulses(ms.timeElapsed);
+    this.renderThrowPreview(ms);
   }
 
   private renderLandingPage(): void {
@@ -1307,7 +1124,7 @@ export class Game {
     ctx.fillText('Controls: WASD to move, Mouse to aim & click to shoot', width / 2, height * 0.9 + 20);
   }
 
-  private renderProjectiles(): void {
+  private renderProjectiles(projectiles: Projectile[]): void {
     const ctx = this.canvas.getContext('2d')!;
     const dpr = window.devicePixelRatio || 1;
 
@@ -1317,7 +1134,7 @@ export class Game {
     this.camera.applyTransform(ctx);
 
     ctx.fillStyle = '#ffff00';
-    for (const projectile of this.projectiles) {
+    for (const projectile of projectiles) {
       ctx.beginPath();
       ctx.arc(projectile.position.x, projectile.position.y, 4, 0, Math.PI * 2);
       ctx.fill();
@@ -1326,7 +1143,7 @@ export class Game {
     ctx.restore();
   }
 
-  private renderOrbs(): void {
+  private renderOrbs(orbs: Orb[]): void {
     const ctx = this.canvas.getContext('2d')!;
     const dpr = window.devicePixelRatio || 1;
 
@@ -1335,7 +1152,7 @@ export class Game {
     ctx.scale(dpr, dpr);
     this.camera.applyTransform(ctx);
 
-    for (const orb of this.orbs) {
+    for (const orb of orbs) {
       // Glow
       const gradient = ctx.createRadialGradient(
         orb.position.x,
@@ -1362,12 +1179,139 @@ export class Game {
     ctx.restore();
   }
 
+  // Expanding rings where grenades went off, fading over EXPLOSION_FLASH seconds
+  private renderExplosions(matchTime: number): void {
+    // Events can land a little ahead of the state being drawn
+    this.explosions = this.explosions.filter((event) => Math.abs(matchTime - event.timestamp) < EXPLOSION_FLASH);
+    if (this.explosions.length === 0) return;
+
+    const ctx = this.canvas.getContext('2d')!;
+    const dpr = window.devicePixelRatio || 1;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(dpr, dpr);
+    this.camera.applyTransform(ctx);
+
+    for (const event of this.explosions) {
+      if (!event.position) continue;
+      const t = clamp((matchTime - event.timestamp) / EXPLOSION_FLASH, 0, 1);
+      ctx.globalAlpha = 1 - t;
+      ctx.fillStyle = event.throwableType === 'emp' ? 'rgba(0, 180, 216, 0.35)' : 'rgba(255, 140, 60, 0.35)';
+      ctx.strokeStyle = event.throwableType === 'emp' ? '#00b4d8' : '#ff8c3c';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(event.position.x, event.position.y, event.radius * (0.4 + 0.6 * t), 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
+  // A ring sweeping out to the scan's range, fading as it goes
+  private renderScanPulses(matchTime: number): void {
+    this.scanPulses = this.scanPulses.filter((event) => Math.abs(matchTime - event.timestamp) < SCAN_PULSE_TIME);
+    if (this.scanPulses.length === 0) return;
+
+    const ctx = this.canvas.getContext('2d')!;
+    const dpr = window.devicePixelRatio || 1;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(dpr, dpr);
+    this.camera.applyTransform(ctx);
+
+    for (const event of this.scanPulses) {
+      if (!event.position) continue;
+      const t = clamp((matchTime - event.timestamp) / SCAN_PULSE_TIME, 0, 1);
+      ctx.globalAlpha = 1 - t;
+      ctx.strokeStyle = '#c77dff';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(event.position.x, event.position.y, event.radius * t, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
+  // Dashed line and landing ring for the throwable being aimed
+  private renderThrowPreview(ms: MatchState): void {
+    const player = this.localPlayerId ? ms.players.get(this.localPlayerId) : null;
+    if (!this.throwPreview || !player || !player.isAlive || player.isDowned) return;
+
+    const length = vec2Length(this.throwPreview);
+    const reach = Math.min(length, MAX_THROW_RANGE);
+    const target = length > 0 ? vec2Add(player.position, vec2Scale(this.throwPreview, reach / length)) : player.position;
+
+    const ctx = this.canvas.getContext('2d')!;
+    const dpr = window.devicePixelRatio || 1;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(dpr, dpr);
+    this.camera.applyTransform(ctx);
+
+    ctx.strokeStyle = 'rgba(255, 140, 60, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.moveTo(player.position.x, player.position.y);
+    ctx.lineTo(target.x, target.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, 16, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.restore();
+  }
+
   // Public API
+  // Server state when networked, otherwise the local match's latest state
   getMatchState(): MatchState {
-    return this.matchState;
+    return this.network?.getState() || this.match?.getState() || this.idleState;
+  }
+
+  // Only available while the simulation runs on the main thread
+  getSimulation(): MatchSimulation | null {
+    return this.match?.getSimulation() ?? null;
+  }
+
+  // Subscribe to match events; returns an unsubscribe function
+  onMatchEvent<T extends MatchEventType>(type: T, handler: MatchEventHandler<T>): () => void {
+    return this.events.on(type, handler);
+  }
+
+  onAnyMatchEvent(handler: (event: MatchEvent) => void): () => void {
+    return this.events.onAny(handler);
+  }
+
+  // Tune remote entity smoothing, e.g. game.setInterpolation({ delay: 0.15 }) from the console
+  setInterpolation(settings: Partial<InterpolationSettings>): void {
+    this.interpolation = { ...this.interpolation, ...settings };
+    storage.set(INTERPOLATION_KEY, this.interpolation);
+    this.network?.configureInterpolation(this.interpolation);
+  }
+
+  getInterpolation(): InterpolationSettings {
+    return { ...this.interpolation };
+  }
+
+  // Tune touch aim assist, e.g. game.setAimAssist({ strength: 0.3 }) from the console
+  setAimAssist(settings: Partial<AimAssistSettings>): void {
+    this.aimAssist.configure(settings);
+    this.menuState.aimAssist = this.aimAssist.getSettings();
+    storage.set(AIM_ASSIST_KEY, this.menuState.aimAssist);
+  }
+
+  getAimAssist(): AimAssistSettings {
+    return this.aimAssist.getSettings();
   }
 
   getLocalPlayer(): Player | null {
-    return this.localPlayerId ? this.matchState.players.get(this.localPlayerId) || null : null;
+    return this.localPlayerId ? this.getMatchState().players.get(this.localPlayerId) || null : null;
   }
 }
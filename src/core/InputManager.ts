@@ -1,5 +1,6 @@
-import type { Vector2, InputState } from '../types';
-import { vec2, vec2Normalize, vec2Sub, vec2Length } from '../utils/math';
+import type { Vector2, InputState, InventoryCommand, ThrowableType } from '../types';
+import { vec2, vec2Normalize, vec2Sub, vec2Length, vec2Scale } from '../utils/math';
+import { MAX_THROW_RANGE, THROWABLE_TYPES } from '../entities/Throwable';
 
 interface TouchState {
   id: number;
@@ -8,6 +9,14 @@ interface TouchState {
   startTime: number;
 }
 
+// Takes over mouse and touch input from the sticks while an overlay is open.
+// Positions are in logical (CSS) pixels.
+export interface PointerCapture {
+  pointerDown(position: Vector2): void;
+  pointerMove(position: Vector2): void;
+  pointerUp(position: Vector2): void;
+}
+
 export class InputManager {
   private canvas: HTMLCanvasElement;
   private inputState: InputState = {
@@ -17,7 +26,14 @@ export class InputManager {
     interacting: false,
     healing: false,
     reloading: false,
+    throwing: null,
+    throwOffset: vec2(),
+    throwCancelled: false,
+    usingAbility: false,
+    inventoryAction: null,
   };
+  private inventoryActionSeq: number = 0;
+  private selectedThrowable: ThrowableType = 'frag';
 
   // Touch tracking
   private touches: Map<number, TouchState> = new Map();
@@ -38,6 +54,20 @@ export class InputManager {
   // Screen regions (percentages)
   private moveRegionWidth: number = 0.4; // Left 40% for movement
 
+  // Reload, heal and interact buttons, shown once the player has touched the screen
+  private touchUsed: boolean = false;
+  private reloadTouch: number | null = null;
+  private healTouch: number | null = null;
+  private interactTouch: number | null = null;
+  private throwTouch: number | null = null; // dragged off the throw button to aim
+  private abilityTouch: number | null = null;
+  private reloadButtonRadius: number = 30;
+  private onToggleInventoryCallback: (() => void) | null = null;
+
+  // Overlay that owns the pointer, if any
+  private capture: PointerCapture | null = null;
+  private captureTouch: number | null = null;
+
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     this.setupEventListeners();
@@ -74,6 +104,50 @@ export class InputManager {
       };
 
       this.touches.set(touch.identifier, touchState);
+      this.touchUsed = true;
+
+      if (this.hitsBagButton(pos)) {
+        if (this.onToggleInventoryCallback) this.onToggleInventoryCallback();
+        continue;
+      }
+
+      if (this.capture) {
+        if (this.captureTouch === null) {
+          this.captureTouch = touch.identifier;
+          this.capture.pointerDown(pos);
+        }
+        continue;
+      }
+
+      if (this.reloadTouch === null && this.hitsReloadButton(pos)) {
+        this.reloadTouch = touch.identifier;
+        this.inputState.reloading = true;
+        continue;
+      }
+
+      if (this.healTouch === null && this.hitsHealButton(pos)) {
+        this.healTouch = touch.identifier;
+        this.inputState.healing = true;
+        continue;
+      }
+
+      if (this.interactTouch === null && this.hitsInteractButton(pos)) {
+        this.interactTouch = touch.identifier;
+        this.inputState.interacting = true;
+        continue;
+      }
+
+      if (this.abilityTouch === null && this.hitsAbilityButton(pos)) {
+        this.abilityTouch = touch.identifier;
+        this.inputState.usingAbility = true;
+        continue;
+      }
+
+      // Aiming starts once the drag leaves the deadzone (see updateThrowDrag)
+      if (this.throwTouch === null && this.hitsThrowButton(pos)) {
+        this.throwTouch = touch.identifier;
+        continue;
+      }
 
       // Determine if this is a move or aim touch
       const dpr = window.devicePixelRatio || 1;
@@ -110,11 +184,15 @@ export class InputManager {
       if (touchState) {
         touchState.currentPos = this.getTouchPosition(touch);
       }
+      if (this.capture && touch.identifier === this.captureTouch) {
+        this.capture.pointerMove(this.getTouchPosition(touch));
+      }
     }
 
     // Update virtual joysticks
     this.updateMoveStick();
     this.updateAimStick();
+    this.updateThrowDrag();
 
     // Check for pinch zoom
     if (this.touches.size === 2) {
@@ -148,6 +226,36 @@ export class InputManager {
         this.aimStickCenter = null;
         this.inputState.firing = false;
       }
+      if (touch.identifier === this.reloadTouch) {
+        this.reloadTouch = null;
+        this.inputState.reloading = false;
+      }
+      if (touch.identifier === this.healTouch) {
+        this.healTouch = null;
+        this.inputState.healing = false;
+      }
+      if (touch.identifier === this.interactTouch) {
+        this.interactTouch = null;
+        this.inputState.interacting = false;
+      }
+      if (touch.identifier === this.abilityTouch) {
+        this.abilityTouch = null;
+        this.inputState.usingAbility = false;
+      }
+      if (touch.identifier === this.throwTouch) {
+        // A tap that never started aiming switches throwables; letting go
+        // of a drag throws
+        this.throwTouch = null;
+        if (this.inputState.throwing === null) {
+          this.cycleThrowable();
+        } else {
+          this.inputState.throwing = null;
+        }
+      }
+      if (touch.identifier === this.captureTouch) {
+        this.captureTouch = null;
+        if (this.capture) this.capture.pointerUp(this.getTouchPosition(touch));
+      }
 
       this.touches.delete(touch.identifier);
     }
@@ -156,14 +264,18 @@ export class InputManager {
   }
 
   private getTouchPosition(touch: Touch): Vector2 {
+    return this.getLogicalPosition(touch.clientX, touch.clientY);
+  }
+
+  private getLogicalPosition(clientX: number, clientY: number): Vector2 {
     const rect = this.canvas.getBoundingClientRect();
     const dpr = window.devicePixelRatio || 1;
     // Use logical CSS dimensions, not raw canvas dimensions
     const logicalWidth = this.canvas.width / dpr;
     const logicalHeight = this.canvas.height / dpr;
     return {
-      x: (touch.clientX - rect.left) * (logicalWidth / rect.width),
-      y: (touch.clientY - rect.top) * (logicalHeight / rect.height),
+      x: (clientX - rect.left) * (logicalWidth / rect.width),
+      y: (clientY - rect.top) * (logicalHeight / rect.height),
     };
   }
 
@@ -205,6 +317,25 @@ export class InputManager {
     }
   }
 
+  // The throw button works like a stick: drag direction and length (up to
+  // the stick radius) pick the landing point, as a share of throwing range
+  private updateThrowDrag(): void {
+    if (this.throwTouch === null) return;
+
+    const button = this.getThrowButton();
+    const touchState = this.touches.get(this.throwTouch);
+    if (!button || !touchState) return;
+
+    const delta = vec2Sub(touchState.currentPos, button.center);
+    const distance = vec2Length(delta);
+    if (this.inputState.throwing === null && distance < this.stickDeadzone) return;
+
+    const reach = Math.min(distance, this.stickRadius) / this.stickRadius;
+    this.inputState.throwing = this.selectedThrowable;
+    this.inputState.throwOffset = vec2Scale(vec2Normalize(delta), reach * MAX_THROW_RANGE);
+    this.inputState.throwCancelled = false;
+  }
+
   private updatePinchDistance(): void {
     if (this.touches.size !== 2) {
       this.lastPinchDistance = 0;
@@ -253,12 +384,24 @@ export class InputManager {
   private keysDown: Set<string> = new Set();
 
   private handleKeyDown(e: KeyboardEvent): void {
+    if (e.code === 'Tab' || e.code === 'KeyI') {
+      e.preventDefault();
+      if (!e.repeat && this.onToggleInventoryCallback) this.onToggleInventoryCallback();
+      return;
+    }
+
     this.keysDown.add(e.code);
     this.updateKeyboardInput();
 
     if (e.code === 'KeyE') this.inputState.interacting = true;
     if (e.code === 'KeyH') this.inputState.healing = true;
     if (e.code === 'KeyR') this.inputState.reloading = true;
+    if (e.code === 'KeyG') {
+      this.inputState.throwing = this.selectedThrowable;
+      this.inputState.throwCancelled = false;
+    }
+    if (e.code === 'KeyQ') this.inputState.usingAbility = true;
+    if (e.code === 'KeyT' && !e.repeat) this.cycleThrowable();
   }
 
   private handleKeyUp(e: KeyboardEvent): void {
@@ -268,6 +411,8 @@ export class InputManager {
     if (e.code === 'KeyE') this.inputState.interacting = false;
     if (e.code === 'KeyH') this.inputState.healing = false;
     if (e.code === 'KeyR') this.inputState.reloading = false;
+    if (e.code === 'KeyG') this.inputState.throwing = null;
+    if (e.code === 'KeyQ') this.inputState.usingAbility = false;
   }
 
   private updateKeyboardInput(): void {
@@ -284,16 +429,28 @@ export class InputManager {
   private mousePosition: Vector2 = vec2();
 
   private handleMouseDown(e: MouseEvent): void {
+    if (this.capture) {
+      this.capture.pointerDown(this.getLogicalPosition(e.clientX, e.clientY));
+      return;
+    }
     this.mouseDown = true;
     this.inputState.firing = true;
     this.updateMouseAim(e);
   }
 
   private handleMouseMove(e: MouseEvent): void {
+    if (this.capture) {
+      this.capture.pointerMove(this.getLogicalPosition(e.clientX, e.clientY));
+      return;
+    }
     this.updateMouseAim(e);
   }
 
-  private handleMouseUp(): void {
+  private handleMouseUp(e: MouseEvent): void {
+    if (this.capture) {
+      this.capture.pointerUp(this.getLogicalPosition(e.clientX, e.clientY));
+      return;
+    }
     this.mouseDown = false;
     this.inputState.firing = false;
   }
@@ -327,6 +484,144 @@ export class InputManager {
     return this.stickRadius;
   }
 
+  // Bottom right, above the ammo readout; null until the screen is touched
+  getReloadButton(): { center: Vector2; radius: number } | null {
+    if (!this.touchUsed) return null;
+
+    const dpr = window.devicePixelRatio || 1;
+    const logicalWidth = this.canvas.width / dpr;
+    const logicalHeight = this.canvas.height / dpr;
+    return {
+      center: { x: logicalWidth - 60, y: logicalHeight - 150 },
+      radius: this.reloadButtonRadius,
+    };
+  }
+
+  hitsReloadButton(position: Vector2): boolean {
+    const button = this.getReloadButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // Above the reload button; opens and closes the backpack
+  getBagButton(): { center: Vector2; radius: number } | null {
+    const reload = this.getReloadButton();
+    if (!reload) return null;
+    return { center: { x: reload.center.x, y: reload.center.y - reload.radius * 2 - 10 }, radius: reload.radius };
+  }
+
+  hitsBagButton(position: Vector2): boolean {
+    const button = this.getBagButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // Left of the reload button
+  getHealButton(): { center: Vector2; radius: number } | null {
+    const reload = this.getReloadButton();
+    if (!reload) return null;
+    return { center: { x: reload.center.x - reload.radius * 2 - 10, y: reload.center.y }, radius: reload.radius };
+  }
+
+  hitsHealButton(position: Vector2): boolean {
+    const button = this.getHealButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // Left of the heal button; picks up loot and revives teammates
+  getInteractButton(): { center: Vector2; radius: number } | null {
+    const heal = this.getHealButton();
+    if (!heal) return null;
+    return { center: { x: heal.center.x - heal.radius * 2 - 10, y: heal.center.y }, radius: heal.radius };
+  }
+
+  hitsInteractButton(position: Vector2): boolean {
+    const button = this.getInteractButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // Above the heal button; drag to aim a throwable, tap to switch
+  getThrowButton(): { center: Vector2; radius: number } | null {
+    const heal = this.getHealButton();
+    if (!heal) return null;
+    return { center: { x: heal.center.x, y: heal.center.y - heal.radius * 2 - 10 }, radius: heal.radius };
+  }
+
+  hitsThrowButton(position: Vector2): boolean {
+    const button = this.getThrowButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // Above the interact button, left of the throw button; the role ability
+  getAbilityButton(): { center: Vector2; radius: number } | null {
+    const interact = this.getInteractButton();
+    if (!interact) return null;
+    return { center: { x: interact.center.x, y: interact.center.y - interact.radius * 2 - 10 }, radius: interact.radius };
+  }
+
+  hitsAbilityButton(position: Vector2): boolean {
+    const button = this.getAbilityButton();
+    return button !== null && vec2Length(vec2Sub(position, button.center)) <= button.radius;
+  }
+
+  // True while the aim stick (not the mouse) sets the aim direction
+  isTouchAiming(): boolean {
+    return this.aimTouch !== null;
+  }
+
+  // True while a touch drag (not the mouse) sets the throw offset
+  isTouchThrow(): boolean {
+    return this.throwTouch !== null;
+  }
+
+  getSelectedThrowable(): ThrowableType {
+    return this.selectedThrowable;
+  }
+
+  private cycleThrowable(): void {
+    const index = THROWABLE_TYPES.indexOf(this.selectedThrowable);
+    this.selectedThrowable = THROWABLE_TYPES[(index + 1) % THROWABLE_TYPES.length];
+  }
+
+  // Route the pointer to an overlay (null gives it back to the sticks).
+  // Firing, aiming, the held buttons and the touch sticks are released so
+  // nothing stays held, and a throwable being aimed is put away unthrown.
+  setPointerCapture(capture: PointerCapture | null): void {
+    this.capture = capture;
+    this.captureTouch = null;
+
+    this.mouseDown = false;
+    this.inputState.firing = false;
+    this.inputState.reloading = false;
+    this.reloadTouch = null;
+    this.inputState.healing = false;
+    this.healTouch = null;
+    this.inputState.interacting = false;
+    this.interactTouch = null;
+    this.throwTouch = null;
+    if (this.inputState.throwing !== null) {
+      this.inputState.throwing = null;
+      this.inputState.throwCancelled = true;
+    }
+    this.inputState.usingAbility = false;
+    this.abilityTouch = null;
+    this.aimTouch = null;
+    this.aimStickCenter = null;
+    if (this.moveTouch !== null) {
+      this.moveTouch = null;
+      this.moveStickCenter = null;
+      this.inputState.moveDirection = vec2();
+    }
+  }
+
+  // Held in the input until the next command replaces it; the seq tells the
+  // simulation it is new
+  sendInventoryAction(command: InventoryCommand): void {
+    this.inputState.inventoryAction = { ...command, seq: ++this.inventoryActionSeq };
+  }
+
+  onToggleInventory(callback: () => void): void {
+    this.onToggleInventoryCallback = callback;
+  }
+
   onZoom(callback: (delta: number) => void): void {
     this.onZoomCallback = callback;
   }
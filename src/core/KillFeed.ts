@@ -0,0 +1,38 @@
+import type { PlayerEliminatedEvent } from '../types';
+import type { MatchEventBus } from './MatchEvents';
+
+const KILL_FEED_DURATION = 6; // seconds of match time an elimination stays listed
+const KILL_FEED_SIZE = 5;
+
+// Recent eliminations for the HUD, and the one that last took out the local
+// player for the "killed by" panel. Fed by match events, so it works the same
+// for practice (main thread or worker) and network matches.
+export class KillFeed {
+  private entries: PlayerEliminatedEvent[] = [];
+  private localDeath: PlayerEliminatedEvent | null = null;
+  private localPlayerId: string | null = null;
+
+  constructor(events: MatchEventBus) {
+    events.on('PlayerEliminated', (event) => {
+      this.entries.push(event);
+      if (this.entries.length > KILL_FEED_SIZE) this.entries.shift();
+      if (event.victimId === this.localPlayerId) this.localDeath = event;
+    });
+  }
+
+  // Forget the previous match
+  reset(localPlayerId: string | null): void {
+    this.entries = [];
+    this.localDeath = null;
+    this.localPlayerId = localPlayerId;
+  }
+
+  // Oldest first
+  recent(matchTime: number): PlayerEliminatedEvent[] {
+    return this.entries.filter((event) => matchTime - event.timestamp < KILL_FEED_DURATION);
+  }
+
+  getLocalDeath(): PlayerEliminatedEvent | null {
+    return this.localDeath;
+  }
+}
@@ -0,0 +1,256 @@
+import type { InputState, MatchState } from '../types';
+import { MatchSimulation, SIM_TICK_RATE } from './MatchSimulation';
+import { MatchEventBus } from './MatchEvents';
+import type { MatchRecording } from './MatchRecorder';
+import { applyMatchPatch } from './MatchPatch';
+import {
+  PracticeMatch,
+  type PracticeMatchSetup,
+  type SavedPracticeState,
+  type WorkerRequest,
+  type WorkerReply,
+} from './PracticeMatch';
+import { SnapshotInterpolator, type RenderView } from '../net/SnapshotInterpolator';
+
+// A single-player match running on this device, either in a Web Worker or,
+// where workers are unavailable, on the main thread
+export interface LocalMatch {
+  readonly mode: 'worker' | 'main';
+  setInput(playerId: string, input: InputState): void;
+  // Once per rendered frame. Main-thread mode advances the simulation here;
+  // the worker ticks on its own and is asked for the frame's state.
+  update(deltaTime: number): void;
+  getState(): MatchState | null;
+  getRenderView(): RenderView | null;
+  getSimulation(): MatchSimulation | null;
+  // Keep this many harmless bullets in flight (0 to stop)
+  setStressBullets(bullets: number): void;
+  // Stop the match clock, e.g. while the page is hidden
+  pause(): void;
+  resume(): void;
+  // Resolves null once the match is over or gone
+  save(): Promise<SavedPracticeState | null>;
+  // Resolves null if the recording was already finished
+  finishRecording(): Promise<MatchRecording | null>;
+  dispose(): void;
+}
+
+// Fallback: simulate between render frames, as before workers
+export class MainThreadMatch implements LocalMatch {
+  readonly mode = 'main';
+  private match: PracticeMatch;
+  private paused: boolean = false;
+
+  constructor(setup: PracticeMatchSetup, events: MatchEventBus) {
+    this.match = new PracticeMatch(setup, events);
+  }
+
+  setInput(playerId: string, input: InputState): void {
+    this.match.simulation.setInput(playerId, input);
+  }
+
+  update(deltaTime: number): void {
+    if (this.paused) return;
+    this.match.advance(deltaTime);
+  }
+
+  getState(): MatchState {
+    return this.match.simulation.state;
+  }
+
+  getRenderView(): RenderView {
+    const { simulation } = this.match;
+    return { state: simulation.state, projectiles: simulation.projectiles, orbs: simulation.orbs };
+  }
+
+  getSimulation(): MatchSimulation {
+    return this.match.simulation;
+  }
+
+  setStressBullets(bullets: number): void {
+    this.match.setStressBullets(bullets);
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  save(): Promise<SavedPracticeState | null> {
+    return Promise.resolve(this.match.save());
+  }
+
+  finishRecording(): Promise<MatchRecording | null> {
+    return Promise.resolve(this.match.finishRecording());
+  }
+
+  dispose(): void {
+    // Nothing to stop: the simulation only runs inside update()
+  }
+}
+
+// Worker states arrive on the worker's clock, not in step with frames;
+// draw remote entities one tick behind so they move evenly
+const WORKER_RENDER_DELAY = 1 / SIM_TICK_RATE;
+
+// Runs the simulation in a Web Worker so slow frames, menus and touch handling
+// never stretch or stall simulation ticks. Input goes in as InputStates;
+// patches of the state (one per frame at most) and match events come back.
+export class WorkerMatch implements LocalMatch {
+  readonly mode = 'worker';
+  private worker: Worker;
+  private events: MatchEventBus;
+  private localPlayerId: string;
+  private state: MatchState | null = null;
+  private interpolator = new SnapshotInterpolator({ delay: WORKER_RENDER_DELAY, maxExtrapolation: 0.05 });
+  private lastInputs: Map<string, string> = new Map();
+  private frameRequested: boolean = true; // the worker sends the first state unasked
+  private pendingRecordings: ((recording: MatchRecording | null) => void)[] = [];
+  private pendingSaves: ((saved: SavedPracticeState | null) => void)[] = [];
+  private disposed: boolean = false;
+  private onFailure: (() => void) | null = null;
+
+  constructor(setup: PracticeMatchSetup, events: MatchEventBus) {
+    this.events = events;
+    this.localPlayerId = setup.localPlayerId;
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerReply>) => this.handleReply(event.data);
+    this.worker.onerror = (event) => {
+      console.error('Simulation worker failed:', event.message);
+      this.terminate();
+      if (this.onFailure) this.onFailure();
+    };
+    this.post({ type: 'start', setup });
+  }
+
+  // Called if the worker dies, so the owner can fall back to the main thread
+  setOnFailure(callback: () => void): void {
+    this.onFailure = callback;
+  }
+
+  private handleReply(reply: WorkerReply): void {
+    switch (reply.type) {
+      case 'patch': {
+        const { patch } = reply;
+        this.frameRequested = false;
+        this.state = applyMatchPatch(this.state, patch);
+        this.interpolator.push(
+          patch.tick / SIM_TICK_RATE,
+          performance.now() / 1000,
+          this.state,
+          patch.projectiles,
+          patch.orbs
+        );
+        break;
+      }
+      case 'event':
+        this.events.emit(reply.event);
+        break;
+      case 'saved': {
+        const resolve = this.pendingSaves.shift();
+        if (resolve) resolve(reply.saved);
+        break;
+      }
+      case 'recording': {
+        const resolve = this.pendingRecordings.shift();
+        if (resolve) resolve(reply.recording);
+        if (this.disposed && this.pendingRecordings.length === 0) {
+          this.terminate();
+        }
+        break;
+      }
+    }
+  }
+
+  private post(request: WorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  setInput(playerId: string, input: InputState): void {
+    // The worker holds inputs until replaced, so only send changes
+    const key = JSON.stringify(input);
+    if (this.lastInputs.get(playerId) === key) return;
+    this.lastInputs.set(playerId, key);
+    this.post({ type: 'input', playerId, input });
+  }
+
+  // Ticks happen in the worker; ask for a new state unless one is on its way
+  update(): void {
+    if (this.disposed || this.frameRequested) return;
+    this.frameRequested = true;
+    this.post({ type: 'frame' });
+  }
+
+  getState(): MatchState | null {
+    return this.state;
+  }
+
+  getRenderView(): RenderView | null {
+    return this.interpolator.sample(performance.now() / 1000, this.localPlayerId);
+  }
+
+  getSimulation(): null {
+    return null;
+  }
+
+  setStressBullets(bullets: number): void {
+    this.post({ type: 'stress', bullets });
+  }
+
+  pause(): void {
+    if (!this.disposed) this.post({ type: 'pause' });
+  }
+
+  resume(): void {
+    if (!this.disposed) this.post({ type: 'resume' });
+  }
+
+  save(): Promise<SavedPracticeState | null> {
+    if (this.disposed) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      this.pendingSaves.push(resolve);
+      this.post({ type: 'save' });
+    });
+  }
+
+  finishRecording(): Promise<MatchRecording | null> {
+    if (this.disposed) return Promise.resolve(null);
+    return new Promise((resolve) => {
+      this.pendingRecordings.push(resolve);
+      this.post({ type: 'finish' });
+    });
+  }
+
+  // Waits for any recording still on its way before stopping the worker
+  dispose(): void {
+    this.disposed = true;
+    if (this.pendingRecordings.length === 0) {
+      this.terminate();
+    }
+  }
+
+  private terminate(): void {
+    this.worker.terminate();
+    for (const resolve of this.pendingRecordings) resolve(null);
+    for (const resolve of this.pendingSaves) resolve(null);
+    this.pendingRecordings = [];
+    this.pendingSaves = [];
+    this.disposed = true;
+  }
+}
+
+// Prefer a worker; fall back to the main thread where workers are missing
+// or fail to start
+export function createLocalMatch(setup: PracticeMatchSetup, events: MatchEventBus): LocalMatch {
+  if (typeof Worker !== 'undefined') {
+    try {
+      return new WorkerMatch(setup, events);
+    } catch (error) {
+      console.warn('Simulation worker unavailable, running on the main thread:', error);
+    }
+  }
+  return new MainThreadMatch(setup, events);
+}
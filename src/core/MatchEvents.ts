@@ -0,0 +1,48 @@
+import type { MatchEvent, MatchEventType } from '../types';
+
+export type MatchEventOf<T extends MatchEventType> = Extract<MatchEvent, { type: T }>;
+export type MatchEventHandler<T extends MatchEventType> = (event: MatchEventOf<T>) => void;
+
+// Typed pub/sub for match events. Subscribing returns an unsubscribe function.
+export class MatchEventBus {
+  private handlers: Map<MatchEventType, Set<(event: MatchEvent) => void>> = new Map();
+  private anyHandlers: Set<(event: MatchEvent) => void> = new Set();
+
+  on<T extends MatchEventType>(type: T, handler: MatchEventHandler<T>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    const wrapped = handler as (event: MatchEvent) => void;
+    set.add(wrapped);
+    return () => set!.delete(wrapped);
+  }
+
+  onAny(handler: (event: MatchEvent) => void): () => void {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  emit(event: MatchEvent): void {
+    const set = this.handlers.get(event.type);
+    if (set) {
+      for (const handler of set) this.dispatch(handler, event);
+    }
+    for (const handler of this.anyHandlers) this.dispatch(handler, event);
+  }
+
+  clear(): void {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+  }
+
+  // A broken subscriber must never stall the simulation
+  private dispatch(handler: (event: MatchEvent) => void, event: MatchEvent): void {
+    try {
+      handler(event);
+    } catch (e) {
+      console.error(`Match event handler failed for ${event.type}:`, e);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import type {
+  DeliverySite,
+  Grenade,
+  HealingField,
+  LootDrop,
+  MatchState,
+  Player,
+  Relic,
+  SmokeCloud,
+  Structure,
+  Team,
+} from '../types';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import type { SerializedMatchState, SerializedPlayer } from './MatchSerializer';
+
+// How the simulation worker keeps the main thread's copy of a practice match
+// up to date: each patch carries only the entities that changed since the
+// last one. Entities and maps that did not change are kept as they were, so
+// a match's structures (and the spatial index built from them) survive from
+// one frame to the next.
+
+interface CollectionPatch<T> {
+  changed: T[];
+  removed: string[]; // ids
+}
+
+export interface MatchPatch {
+  tick: number;
+  globals: Pick<
+    SerializedMatchState,
+    'id' | 'seed' | 'phase' | 'timeElapsed' | 'rings' | 'vaultPosition' | 'vaultRadius'
+  >;
+  teams: CollectionPatch<Team>;
+  players: CollectionPatch<SerializedPlayer>;
+  relics: CollectionPatch<Relic>;
+  deliverySites: CollectionPatch<DeliverySite>;
+  structures: CollectionPatch<Structure>;
+  loot: CollectionPatch<LootDrop>;
+  grenades: CollectionPatch<Grenade>;
+  smokes: CollectionPatch<SmokeCloud>;
+  healingFields: CollectionPatch<HealingField>;
+  // Nearly all of these move every tick, so they are always sent whole
+  projectiles: Projectile[];
+  orbs: Orb[];
+}
+
+type Collection = Exclude<keyof MatchPatch, 'tick' | 'globals' | 'projectiles' | 'orbs'>;
+
+// Worker side. Patches are posted, and posting copies them, so they may hold
+// the simulation's own objects.
+export class MatchPatcher {
+  // Collection -> id -> what was last sent, as JSON
+  private sent: Map<Collection, Map<string, string>> = new Map();
+  // Structures only ever change through damage, so their health stands in for JSON
+  private sentStructureHealth: Map<string, number> = new Map();
+
+  createPatch(tick: number, ms: MatchState, projectiles: Projectile[], orbs: Orb[]): MatchPatch {
+    const players = Array.from(ms.players.values(), ({ carryingRelic, ...rest }): SerializedPlayer => ({
+      ...rest,
+      carryingRelicId: carryingRelic ? carryingRelic.id : null,
+    }));
+
+    return {
+      tick,
+      globals: {
+        id: ms.id,
+        seed: ms.seed,
+        phase: ms.phase,
+        timeElapsed: ms.timeElapsed,
+        rings: ms.rings,
+        vaultPosition: ms.vaultPosition,
+        vaultRadius: ms.vaultRadius,
+      },
+      teams: this.diff('teams', ms.teams.values()),
+      players: this.diff('players', players),
+      relics: this.diff('relics', ms.relics.values()),
+      deliverySites: this.diff('deliverySites', ms.deliverySites.values()),
+      structures: this.diffStructures(ms.structures),
+      loot: this.diff('loot', ms.loot.values()),
+      grenades: this.diff('grenades', ms.grenades.values()),
+      smokes: this.diff('smokes', ms.smokes.values()),
+      healingFields: this.diff('healingFields', ms.healingFields.values()),
+      projectiles,
+      orbs,
+    };
+  }
+
+  private diff<T extends { id: string }>(collection: Collection, entities: Iterable<T>): CollectionPatch<T> {
+    const previous = this.sent.get(collection) ?? new Map<string, string>();
+    const current = new Map<string, string>();
+    const changed: T[] = [];
+
+    for (const entity of entities) {
+      const json = JSON.stringify(entity);
+      current.set(entity.id, json);
+      if (previous.get(entity.id) !== json) changed.push(entity);
+    }
+
+    this.sent.set(collection, current);
+    return { changed, removed: removedIds(previous, current) };
+  }
+
+  private diffStructures(structures: Map<string, Structure>): CollectionPatch<Structure> {
+    const previous = this.sentStructureHealth;
+    const current = new Map<string, number>();
+    const changed: Structure[] = [];
+
+    for (const structure of structures.values()) {
+      current.set(structure.id, structure.health);
+      if (previous.get(structure.id) !== structure.health) changed.push(structure);
+    }
+
+    this.sentStructureHealth = current;
+    return { changed, removed: removedIds(previous, current) };
+  }
+}
+
+function removedIds(previous: Map<string, unknown>, current: Map<string, unknown>): string[] {
+  const removed: string[] = [];
+  for (const id of previous.keys()) {
+    if (!current.has(id)) removed.push(id);
+  }
+  return removed;
+}
+
+// Main-thread side: a new MatchState for the patch, leaving `previous` as it
+// was (the interpolator still holds it)
+export function applyMatchPatch(previous: MatchState | null, patch: MatchPatch): MatchState {
+  const relics = applyCollection(previous?.relics, patch.relics, (relic) => relic);
+
+  let players = applyCollection(previous?.players, patch.players, ({ carryingRelicId, ...rest }): Player => ({
+    ...rest,
+    carryingRelic: carryingRelicId ? relics.get(carryingRelicId) || null : null,
+  }));
+  // A carrier that did not change may still point at a relic that did
+  for (const [id, player] of players) {
+    const relic = player.carryingRelic ? relics.get(player.carryingRelic.id) || null : null;
+    if (relic === player.carryingRelic) continue;
+    if (players === previous?.players) players = new Map(players);
+    players.set(id, { ...player, carryingRelic: relic });
+  }
+
+  return {
+    ...patch.globals,
+    teams: applyCollection(previous?.teams, patch.teams, (team) => team),
+    players,
+    relics,
+    deliverySites: applyCollection(previous?.deliverySites, patch.deliverySites, (site) => site),
+    structures: applyCollection(previous?.structures, patch.structures, (structure) => structure),
+    loot: applyCollection(previous?.loot, patch.loot, (drop) => drop),
+    grenades: applyCollection(previous?.grenades, patch.grenades, (grenade) => grenade),
+    smokes: applyCollection(previous?.smokes, patch.smokes, (smoke) => smoke),
+    healingFields: applyCollection(previous?.healingFields, patch.healingFields, (field) => field),
+  };
+}
+
+function applyCollection<S extends { id: string }, T>(
+  previous: Map<string, T> | undefined,
+  patch: CollectionPatch<S>,
+  build: (entity: S) => T
+): Map<string, T> {
+  if (previous && patch.changed.length === 0 && patch.removed.length === 0) return previous;
+
+  const next = new Map(previous);
+  for (const id of patch.removed) next.delete(id);
+  for (const entity of patch.changed) next.set(entity.id, build(entity));
+  return next;
+}
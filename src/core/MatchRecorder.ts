@@ -0,0 +1,76 @@
+import type { GameConfig, InputState } from '../types';
+import { MatchSimulation } from './MatchSimulation';
+import { serializeMatchState, type SerializedMatchState } from './MatchSerializer';
+
+export const RECORDING_VERSION = 9;
+
+export interface RecordedInput {
+  tick: number; // applied before the step that follows this tick
+  playerId: string;
+  input: InputState;
+}
+
+export interface MatchRecording {
+  version: number;
+  id: string;
+  recordedAt: number; // epoch ms
+  seed: number;
+  config: GameConfig;
+  tickRate: number;
+  localPlayerId: string | null;
+  durationTicks: number;
+  initialState: SerializedMatchState;
+  inputs: RecordedInput[];
+}
+
+// Captures everything needed to re-run a match: the starting state plus each
+// player's input whenever it changes (inputs hold until replaced).
+export class MatchRecorder {
+  private simulation: MatchSimulation;
+  private recording: MatchRecording;
+  private lastInputs: Map<string, string> = new Map();
+  private unsubscribe: (() => void) | null;
+
+  constructor(simulation: MatchSimulation, localPlayerId: string | null) {
+    this.simulation = simulation;
+    this.recording = {
+      version: RECORDING_VERSION,
+      id: `${simulation.state.id}_${simulation.getTick()}`,
+      recordedAt: Date.now(),
+      seed: simulation.state.seed,
+      config: { ...simulation.config },
+      tickRate: simulation.tickRate,
+      localPlayerId,
+      durationTicks: 0,
+      initialState: serializeMatchState(simulation.state),
+      inputs: [],
+    };
+
+    this.unsubscribe = simulation.onInput((tick, playerId, input) => {
+      this.record(tick, playerId, input);
+    });
+  }
+
+  private record(tick: number, playerId: string, input: InputState): void {
+    // Skip unchanged inputs to keep recordings small
+    const key = JSON.stringify(input);
+    if (this.lastInputs.get(playerId) === key) return;
+    this.lastInputs.set(playerId, key);
+
+    this.recording.inputs.push({ tick, playerId, input: JSON.parse(key) as InputState });
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  // Stop listening and return the finished recording
+  finish(): MatchRecording {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+      this.recording.durationTicks = this.simulation.getTick();
+    }
+    return this.recording;
+  }
+}
@@ -0,0 +1,174 @@
+import type { InputState } from '../types';
+import { MatchSimulation, type SimulationCheckpoint } from './MatchSimulation';
+import { MatchEventBus } from './MatchEvents';
+import { deserializeMatchState, serializeMatchState, type SerializedMatchState } from './MatchSerializer';
+import type { MatchRecording, RecordedInput } from './MatchRecorder';
+import { clamp } from '../utils/math';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const KEYFRAME_INTERVAL_SECONDS = 10; // of match time
+
+// Everything needed to pick the replay up again at `checkpoint.tick`. Inputs
+// hold until replaced, so the ones in effect are saved too.
+interface ReplayKeyframe {
+  state: SerializedMatchState;
+  checkpoint: SimulationCheckpoint;
+  inputs: [string, InputState][];
+}
+
+// Re-runs a recording through a fresh simulation. Seeking backwards restores
+// the nearest earlier keyframe, saved as playback first passes it, and
+// fast-forwards from there. That is exact because the simulation is
+// deterministic for a given seed and input stream.
+export class MatchReplay {
+  readonly recording: MatchRecording;
+  readonly events: MatchEventBus = new MatchEventBus();
+
+  private simulation: MatchSimulation;
+  private inputsByTick: Map<number, RecordedInput[]> = new Map();
+  private keyframes: ReplayKeyframe[] = []; // by tick, ascending
+  private keyframeInterval: number; // ticks
+  private accumulator: number = 0;
+  private paused: boolean = false;
+  private speedIndex: number = REPLAY_SPEEDS.indexOf(1);
+
+  constructor(recording: MatchRecording) {
+    this.recording = recording;
+    this.keyframeInterval = Math.round(KEYFRAME_INTERVAL_SECONDS * recording.tickRate);
+
+    for (const entry of recording.inputs) {
+      const list = this.inputsByTick.get(entry.tick);
+      if (list) {
+        list.push(entry);
+      } else {
+        this.inputsByTick.set(entry.tick, [entry]);
+      }
+    }
+
+    this.simulation = this.createSimulation();
+  }
+
+  private createSimulation(): MatchSimulation {
+    return new MatchSimulation(
+      deserializeMatchState(this.recording.initialState),
+      this.recording.config,
+      this.events,
+      this.recording.tickRate
+    );
+  }
+
+  getSimulation(): MatchSimulation {
+    return this.simulation;
+  }
+
+  getTick(): number {
+    return this.simulation.getTick();
+  }
+
+  getDurationTicks(): number {
+    return this.recording.durationTicks;
+  }
+
+  getProgress(): number {
+    if (this.recording.durationTicks === 0) return 1;
+    return this.getTick() / this.recording.durationTicks;
+  }
+
+  isFinished(): boolean {
+    return this.getTick() >= this.recording.durationTicks;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    // Restart from the beginning when play is pressed at the end
+    if (!this.paused && this.isFinished()) {
+      this.seek(0);
+    }
+  }
+
+  getSpeed(): number {
+    return REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  changeSpeed(direction: 1 | -1): void {
+    this.speedIndex = clamp(this.speedIndex + direction, 0, REPLAY_SPEEDS.length - 1);
+  }
+
+  update(deltaTime: number): void {
+    if (this.paused || this.isFinished()) return;
+
+    this.accumulator += deltaTime * this.getSpeed();
+    while (this.accumulator >= this.simulation.fixedDeltaTime && !this.isFinished()) {
+      this.stepOnce();
+      this.accumulator -= this.simulation.fixedDeltaTime;
+    }
+  }
+
+  seek(targetTick: number): void {
+    const tick = Math.round(clamp(targetTick, 0, this.recording.durationTicks));
+
+    if (tick < this.getTick()) {
+      this.simulation = this.restoreKeyframe(tick);
+    }
+    while (this.getTick() < tick) {
+      this.stepOnce();
+    }
+    this.accumulator = 0;
+  }
+
+  seekToProgress(progress: number): void {
+    this.seek(progress * this.recording.durationTicks);
+  }
+
+  private stepOnce(): void {
+    const entries = this.inputsByTick.get(this.getTick());
+    if (entries) {
+      for (const entry of entries) {
+        this.simulation.setInput(entry.playerId, entry.input);
+      }
+    }
+    this.simulation.step();
+
+    const tick = this.getTick();
+    const last = this.keyframes[this.keyframes.length - 1];
+    if (tick % this.keyframeInterval === 0 && (!last || tick > last.checkpoint.tick)) {
+      this.keyframes.push(this.createKeyframe());
+    }
+  }
+
+  private createKeyframe(): ReplayKeyframe {
+    const simulation = this.simulation;
+    return {
+      state: serializeMatchState(simulation.state),
+      checkpoint: simulation.createCheckpoint(),
+      inputs: Array.from(simulation.state.players.keys(), (id) => [id, simulation.getInput(id)]),
+    };
+  }
+
+  // A simulation at the last keyframe at or before `tick`, or at the start
+  private restoreKeyframe(tick: number): MatchSimulation {
+    let keyframe: ReplayKeyframe | null = null;
+    for (const candidate of this.keyframes) {
+      if (candidate.checkpoint.tick > tick) break;
+      keyframe = candidate;
+    }
+    if (!keyframe) return this.createSimulation();
+
+    const simulation = new MatchSimulation(
+      deserializeMatchState(keyframe.state),
+      this.recording.config,
+      this.events,
+      this.recording.tickRate
+    );
+    simulation.restoreCheckpoint(keyframe.checkpoint);
+    for (const [playerId, input] of keyframe.inputs) {
+      simulation.setInput(playerId, input);
+    }
+    return simulation;
+  }
+}
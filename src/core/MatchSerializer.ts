@@ -0,0 +1,102 @@
+import type {
+  Vector2,
+  Player,
+  Team,
+  Relic,
+  DeliverySite,
+  RiftlineRing,
+  MatchState,
+  MatchPhase,
+  Structure,
+  LootDrop,
+  Grenade,
+  SmokeCloud,
+  HealingField,
+} from '../types';
+
+// Plain-JSON form of MatchState: Maps become arrays and the carried relic
+// object reference becomes an id that is re-linked on load.
+export interface SerializedPlayer extends Omit<Player, 'carryingRelic'> {
+  carryingRelicId: string | null;
+}
+
+export interface SerializedMatchState {
+  id: string;
+  seed: number;
+  phase: MatchPhase;
+  timeElapsed: number;
+  teams: Team[];
+  players: SerializedPlayer[];
+  relics: Relic[];
+  deliverySites: DeliverySite[];
+  structures: Structure[];
+  loot: LootDrop[];
+  grenades: Grenade[];
+  smokes: SmokeCloud[];
+  healingFields: HealingField[];
+  rings: RiftlineRing[];
+  vaultPosition: Vector2 | null;
+  vaultRadius: number;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+export function serializeMatchState(ms: MatchState): SerializedMatchState {
+  const players: SerializedPlayer[] = Array.from(ms.players.values()).map((player) => {
+    const { carryingRelic, ...rest } = player;
+    return { ...clone(rest), carryingRelicId: carryingRelic ? carryingRelic.id : null };
+  });
+
+  return {
+    id: ms.id,
+    seed: ms.seed,
+    phase: ms.phase,
+    timeElapsed: ms.timeElapsed,
+    teams: clone(Array.from(ms.teams.values())),
+    players,
+    relics: clone(Array.from(ms.relics.values())),
+    deliverySites: clone(Array.from(ms.deliverySites.values())),
+    structures: clone(Array.from(ms.structures.values())),
+    loot: clone(Array.from(ms.loot.values())),
+    grenades: clone(Array.from(ms.grenades.values())),
+    smokes: clone(Array.from(ms.smokes.values())),
+    healingFields: clone(Array.from(ms.healingFields.values())),
+    rings: clone(ms.rings),
+    vaultPosition: ms.vaultPosition ? { ...ms.vaultPosition } : null,
+    vaultRadius: ms.vaultRadius,
+  };
+}
+
+export function deserializeMatchState(data: SerializedMatchState): MatchState {
+  const copy = clone(data);
+  const relics = new Map(copy.relics.map((relic) => [relic.id, relic] as const));
+
+  const players = new Map<string, Player>();
+  for (const { carryingRelicId, ...rest } of copy.players) {
+    players.set(rest.id, {
+      ...rest,
+      carryingRelic: carryingRelicId ? relics.get(carryingRelicId) || null : null,
+    });
+  }
+
+  return {
+    id: copy.id,
+    seed: copy.seed,
+    phase: copy.phase,
+    timeElapsed: copy.timeElapsed,
+    teams: new Map(copy.teams.map((team) => [team.id, team] as const)),
+    players,
+    relics,
+    deliverySites: new Map(copy.deliverySites.map((site) => [site.id, site] as const)),
+    structures: new Map(copy.structures.map((structure) => [structure.id, structure] as const)),
+    loot: new Map(copy.loot.map((drop) => [drop.id, drop] as const)),
+    grenades: new Map(copy.grenades.map((grenade) => [grenade.id, grenade] as const)),
+    smokes: new Map(copy.smokes.map((smoke) => [smoke.id, smoke] as const)),
+    healingFields: new Map(copy.healingFields.map((field) => [field.id, field] as const)),
+    rings: copy.rings,
+    vaultPosition: copy.vaultPosition,
+    vaultRadius: copy.vaultRadius,
+  };
+}
@@ -0,0 +1,456 @@
+import type {
+  Player,
+  Team,
+  Relic,
+  DeliverySite,
+  MatchState,
+  Role,
+  GameConfig,
+  Structure,
+  StructureType,
+  InventoryItem,
+} from '../types';
+import { ROLE_STATS, isRole } from '../types';
+import { vec2 } from '../utils/math';
+import { Rng, deriveSeed } from '../utils/rng';
+import { WEAPON_CATALOG, createLoadoutWeapon, createWeapon, rollRarity, type WeaponId } from '../entities/Weapon';
+import {
+  AMMO_STACK_SIZE,
+  createAmmoItem,
+  createConsumableItem,
+  createThrowableItem,
+  createWeaponItem,
+  startingLoadout,
+} from '../entities/Inventory';
+import { abilityReady } from '../entities/Ability';
+import { resolveCircleStructureCollisions } from '../utils/collision';
+
+// Loadout and loot rolls get their own streams so they never shift the map layout
+const LOADOUT_RNG_STREAM = 2;
+const LOOT_RNG_STREAM = 3;
+
+const LOOT_COUNT = 40;
+
+export const LOCAL_TEAM_ID = 'team_local';
+export const LOCAL_PLAYER_ID = 'player_local';
+
+export function createEmptyMatchState(seed: number = 0): MatchState {
+  return {
+    id: `match_${Date.now()}`,
+    seed,
+    phase: 'waiting',
+    timeElapsed: 0,
+    teams: new Map(),
+    players: new Map(),
+    relics: new Map(),
+    deliverySites: new Map(),
+    structures: new Map(),
+    loot: new Map(),
+    grenades: new Map(),
+    smokes: new Map(),
+    healingFields: new Map(),
+    rings: [],
+    vaultPosition: null,
+    vaultRadius: 150,
+  };
+}
+
+// Build a single-player practice match: one local player against bot squads.
+// The same seed and config always produce the same layout.
+export function createPracticeMatch(config: GameConfig, localRole: Role, seed: number): MatchState {
+  const ms = createEmptyMatchState(seed);
+  const rng = new Rng(seed);
+  ms.phase = 'open';
+
+  // Get role stats with fallback
+  const role = ROLE_STATS[localRole] ? localRole : 'skirmisher';
+  const roleStats = ROLE_STATS[role];
+  const spawnX = config.mapWidth / 2;
+  const spawnY = config.mapHeight / 2;
+
+  const team: Team = {
+    id: LOCAL_TEAM_ID,
+    name: 'Local Team',
+    color: '#44ff44',
+    playerIds: [LOCAL_PLAYER_ID],
+    orbs: 0,
+    isEliminated: false,
+    relicsDelivered: 0,
+  };
+  ms.teams.set(team.id, team);
+
+  const weapon = createLoadoutWeapon(role);
+  const player: Player = {
+    id: LOCAL_PLAYER_ID,
+    name: 'Player',
+    teamId: team.id,
+    role,
+    isBot: false,
+    position: vec2(spawnX, spawnY),
+    velocity: vec2(),
+    rotation: -Math.PI / 2, // Face up initially
+    health: roleStats.maxHealth,
+    shield: roleStats.maxShield,
+    isAlive: true,
+    respawnTimer: 0,
+    isDowned: false,
+    bleedOutTimer: 0,
+    reviveProgress: 0,
+    ...abilityReady(),
+    ...startingLoadout(weapon, itemIds(LOCAL_PLAYER_ID)),
+    orbs: 0,
+    carryingRelic: null,
+  };
+  ms.players.set(player.id, player);
+
+  // Create initial riftline ring FIRST (before enemies spawn)
+  // Make ring very large initially to ensure all spawns are safe
+  ms.rings.push({
+    id: 'ring_main',
+    center: vec2(spawnX, spawnY),
+    currentRadius: Math.max(config.mapWidth, config.mapHeight), // Full map size
+    targetRadius: 800,
+    shrinkRate: 5, // Slower shrink rate
+    damage: 5, // damage per second
+  });
+
+  // Add some enemy teams for testing
+  spawnTestEnemies(ms, config, rng, new Rng(deriveSeed(seed, LOADOUT_RNG_STREAM)), 3);
+
+  // Create relics and delivery sites
+  spawnRelicsAndSites(ms, config, rng);
+
+  // Create structures for cover (avoid player spawn area)
+  spawnStructures(ms, config, rng, spawnX, spawnY);
+
+  // Make sure player isn't stuck inside a structure
+  resolveCircleStructureCollisions(ms.structures.values(), player.position, roleStats.hitboxRadius);
+
+  spawnLoot(ms, config, new Rng(deriveSeed(seed, LOOT_RNG_STREAM)));
+
+  return ms;
+}
+
+// Build the shared layout for a networked match. Players are added as they
+// connect, and the match stays in 'waiting' until the server starts it.
+export function createNetworkMatch(config: GameConfig, seed: number, matchId: string): MatchState {
+  const ms = createEmptyMatchState(seed);
+  const rng = new Rng(seed);
+  ms.id = matchId;
+
+  const centerX = config.mapWidth / 2;
+  const centerY = config.mapHeight / 2;
+
+  ms.rings.push({
+    id: 'ring_main',
+    center: vec2(centerX, centerY),
+    currentRadius: Math.max(config.mapWidth, config.mapHeight),
+    targetRadius: 800,
+    shrinkRate: 5,
+    damage: 5,
+  });
+
+  spawnRelicsAndSites(ms, config, rng);
+  spawnStructures(ms, config, rng, centerX, centerY);
+  spawnLoot(ms, config, new Rng(deriveSeed(seed, LOOT_RNG_STREAM)));
+
+  return ms;
+}
+
+export interface NetworkPlayerInfo {
+  id: string;
+  name: string;
+  role: Role;
+  teamId: string;
+  teamSlot: number; // 0 .. teamsCount - 1, picks the spawn point
+}
+
+const TEAM_COLORS = [
+  '#44ff44', '#ff4444', '#4488ff', '#ffcc00', '#ff44ff',
+  '#00f7ff', '#ff8800', '#aa66ff', '#88ff88', '#ff8888',
+];
+
+// Add a connected player to a networked match, creating their team on first join.
+// Teams spawn spread around the map centre; squadmates spawn side by side.
+export function addNetworkPlayer(ms: MatchState, config: GameConfig, info: NetworkPlayerInfo): Player {
+  let team = ms.teams.get(info.teamId);
+  if (!team) {
+    team = {
+      id: info.teamId,
+      name: `Team ${info.teamSlot + 1}`,
+      color: TEAM_COLORS[info.teamSlot % TEAM_COLORS.length],
+      playerIds: [],
+      orbs: 0,
+      isEliminated: false,
+      relicsDelivered: 0,
+    };
+    ms.teams.set(team.id, team);
+  }
+
+  const role = isRole(info.role) ? info.role : 'skirmisher';
+  const roleStats = ROLE_STATS[role];
+
+  const angle = (info.teamSlot / Math.max(1, config.teamsCount)) * Math.PI * 2;
+  const spawnRadius = Math.min(config.mapWidth, config.mapHeight) * 0.35;
+  const squadOffset = (team.playerIds.length - (config.playersPerTeam - 1) / 2) * 60;
+  const position = vec2(
+    config.mapWidth / 2 + Math.cos(angle) * spawnRadius - Math.sin(angle) * squadOffset,
+    config.mapHeight / 2 + Math.sin(angle) * spawnRadius + Math.cos(angle) * squadOffset
+  );
+  resolveCircleStructureCollisions(ms.structures.values(), position, roleStats.hitboxRadius);
+
+  const weapon = createLoadoutWeapon(role);
+  const player: Player = {
+    id: info.id,
+    name: info.name,
+    teamId: team.id,
+    role,
+    isBot: false,
+    position,
+    velocity: vec2(),
+    rotation: angle + Math.PI, // Face the centre
+    health: roleStats.maxHealth,
+    shield: roleStats.maxShield,
+    isAlive: true,
+    respawnTimer: 0,
+    isDowned: false,
+    bleedOutTimer: 0,
+    reviveProgress: 0,
+    ...abilityReady(),
+    ...startingLoadout(weapon, itemIds(info.id)),
+    orbs: 0,
+    carryingRelic: null,
+  };
+
+  team.playerIds.push(player.id);
+  ms.players.set(player.id, player);
+  return player;
+}
+
+function spawnTestEnemies(ms: MatchState, config: GameConfig, rng: Rng, loadoutRng: Rng, count: number): void {
+  const roles: Role[] = ['vanguard', 'skirmisher', 'sentinel', 'catalyst'];
+
+  for (let i = 0; i < count; i++) {
+    const teamId = `team_enemy_${i}`;
+    const team: Team = {
+      id: teamId,
+      name: `Enemy ${i + 1}`,
+      color: '#ff4444',
+      playerIds: [],
+      orbs: 0,
+      isEliminated: false,
+      relicsDelivered: 0,
+    };
+
+    // Add 3 players per team
+    for (let j = 0; j < 3; j++) {
+      const playerId = `player_enemy_${i}_${j}`;
+      const role = rng.pick(roles);
+
+      const weapon = createLoadoutWeapon(role, rollRarity(loadoutRng));
+      const player: Player = {
+        id: playerId,
+        name: `Enemy ${i + 1}-${j + 1}`,
+        teamId,
+        role,
+        isBot: true,
+        position: vec2(
+          rng.range(200, config.mapWidth - 200),
+          rng.range(200, config.mapHeight - 200)
+        ),
+        velocity: vec2(),
+        rotation: rng.range(0, Math.PI * 2),
+        health: ROLE_STATS[role].maxHealth,
+        shield: ROLE_STATS[role].maxShield,
+        isAlive: true,
+        respawnTimer: 0,
+        isDowned: false,
+        bleedOutTimer: 0,
+        reviveProgress: 0,
+        ...abilityReady(),
+        ...startingLoadout(weapon, itemIds(playerId)),
+        orbs: 0,
+        carryingRelic: null,
+      };
+
+      team.playerIds.push(playerId);
+      ms.players.set(playerId, player);
+    }
+
+    ms.teams.set(teamId, team);
+  }
+}
+
+// Ids for a player's starting items; the simulation names later ones
+function itemIds(playerId: string): () => string {
+  let next = 0;
+  return () => `${playerId}_item_${next++}`;
+}
+
+// Weapons, ammo, consumables and throwables scattered across the map, a
+// quarter of each
+function spawnLoot(ms: MatchState, config: GameConfig, rng: Rng): void {
+  const weaponIds = Object.keys(WEAPON_CATALOG) as WeaponId[];
+
+  for (let i = 0; i < LOOT_COUNT; i++) {
+    const id = `loot_${i}`;
+    const weapon = createWeapon(rng.pick(weaponIds), rollRarity(rng));
+    let item: InventoryItem;
+    const roll = rng.next();
+    if (i % 4 === 0) {
+      item = createWeaponItem(`${id}_item`, weapon, weapon.stats.magazineSize);
+    } else if (i % 4 === 1) {
+      item = createAmmoItem(`${id}_item`, weapon.ammoType, AMMO_STACK_SIZE[weapon.ammoType]);
+    } else if (i % 4 === 2) {
+      item = roll < 0.5
+        ? createConsumableItem(`${id}_item`, 'medkit', 1)
+        : createConsumableItem(`${id}_item`, 'shield_cell', 2);
+    } else if (roll < 0.5) {
+      item = createThrowableItem(`${id}_item`, 'frag', 2);
+    } else {
+      item = createThrowableItem(`${id}_item`, roll < 0.75 ? 'smoke' : 'emp', 1);
+    }
+
+    const position = vec2(rng.range(100, config.mapWidth - 100), rng.range(100, config.mapHeight - 100));
+    resolveCircleStructureCollisions(ms.structures.values(), position, 20);
+
+    ms.loot.set(id, { id, position, item });
+  }
+}
+
+function spawnRelicsAndSites(ms: MatchState, config: GameConfig, rng: Rng): void {
+  for (let i = 0; i < config.relicCount; i++) {
+    const relicId = `relic_${i}`;
+    const siteId = `site_${i}`;
+
+    // Relic position
+    const relicPos = vec2(
+      rng.range(300, config.mapWidth - 300),
+      rng.range(300, config.mapHeight - 300)
+    );
+
+    // Site position (different from relic)
+    const sitePos = vec2(
+      rng.range(300, config.mapWidth - 300),
+      rng.range(300, config.mapHeight - 300)
+    );
+
+    const relic: Relic = {
+      id: relicId,
+      position: relicPos,
+      targetSiteId: siteId,
+      carriedByPlayerId: null,
+      isDelivered: false,
+    };
+
+    const site: DeliverySite = {
+      id: siteId,
+      position: sitePos,
+      radius: 60,
+      acceptsRelicId: relicId,
+    };
+
+    ms.relics.set(relicId, relic);
+    ms.deliverySites.set(siteId, site);
+  }
+}
+
+function spawnStructures(
+  ms: MatchState,
+  config: GameConfig,
+  rng: Rng,
+  playerSpawnX: number,
+  playerSpawnY: number
+): void {
+  const spawnSafeRadius = 150; // Keep structures away from player spawn
+
+  // Create a grid-based layout for cover throughout the map
+  const gridSize = 400; // Distance between structure clusters
+  const margin = 200; // Keep structures away from map edges
+
+  let structureId = 0;
+
+  // Spawn structure clusters in a grid pattern
+  for (let x = margin; x < config.mapWidth - margin; x += gridSize) {
+    for (let y = margin; y < config.mapHeight - margin; y += gridSize) {
+      // Random offset within the grid cell
+      const offsetX = rng.range(-100, 100);
+      const offsetY = rng.range(-100, 100);
+      const centerX = x + offsetX;
+      const centerY = y + offsetY;
+
+      // Skip if too close to player spawn
+      const distToSpawn = Math.sqrt(
+        Math.pow(centerX - playerSpawnX, 2) + Math.pow(centerY - playerSpawnY, 2)
+      );
+      if (distToSpawn < spawnSafeRadius) continue;
+
+      // Randomly decide what type of structure cluster to place
+      const clusterType = rng.int(0, 4);
+
+      switch (clusterType) {
+        case 0: // L-shaped wall cover
+          createStructure(ms, structureId++, 'wall', centerX, centerY, 120, 20, 0);
+          createStructure(ms, structureId++, 'wall', centerX + 50, centerY + 50, 80, 20, Math.PI / 2);
+          break;
+        case 1: // Crate cluster
+          createStructure(ms, structureId++, 'crate', centerX, centerY, 40, 40, 0);
+          createStructure(ms, structureId++, 'crate', centerX + 50, centerY, 40, 40, rng.range(0, Math.PI / 4));
+          createStructure(ms, structureId++, 'crate', centerX + 25, centerY + 45, 40, 40, rng.range(0, Math.PI / 4));
+          break;
+        case 2: // Single pillar
+          createStructure(ms, structureId++, 'pillar', centerX, centerY, 50, 50, 0);
+          break;
+        case 3: // Small building
+          createStructure(ms, structureId++, 'building', centerX, centerY, 100, 80, rng.range(0, Math.PI / 2));
+          break;
+        case 4: // Barrier line
+          createStructure(ms, structureId++, 'barrier', centerX, centerY, 150, 15, rng.range(0, Math.PI));
+          break;
+      }
+    }
+  }
+
+  // Add some larger structures near the center for interesting combat
+  const centerX = config.mapWidth / 2;
+  const centerY = config.mapHeight / 2;
+
+  // Central structure - keep some space around player spawn
+  createStructure(ms, structureId++, 'building', centerX + 200, centerY - 200, 120, 100, 0);
+  createStructure(ms, structureId++, 'building', centerX - 200, centerY + 200, 120, 100, 0);
+  createStructure(ms, structureId++, 'pillar', centerX + 150, centerY + 150, 60, 60, 0);
+  createStructure(ms, structureId++, 'pillar', centerX - 150, centerY - 150, 60, 60, 0);
+}
+
+function createStructure(
+  ms: MatchState,
+  id: number,
+  type: StructureType,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rotation: number
+): void {
+  const healthMap: Record<StructureType, number> = {
+    wall: 200,
+    crate: 100,
+    pillar: 300,
+    building: 500,
+    barrier: 150,
+  };
+
+  const structure: Structure = {
+    id: `structure_${id}`,
+    type,
+    position: vec2(x, y),
+    width,
+    height,
+    rotation,
+    health: healthMap[type],
+    maxHealth: healthMap[type],
+    isDestructible: type !== 'pillar', // Pillars are indestructible
+  };
+
+  ms.structures.set(structure.id, structure);
+}
@@ -0,0 +1,1580 @@
+import type {
+  Player,
+  ConsumableType,
+  MatchState,
+  MatchPhase,
+  GameConfig,
+  InputState,
+  InventoryAction,
+  InventoryItem,
+  InventorySlot,
+  Vector2,
+  Structure,
+  Relic,
+  LootDrop,
+  Grenade,
+  ThrowableType,
+} from '../types';
+import { ROLE_STATS } from '../types';
+import { Projectile, allocateProjectile, initProjectile, updateProjectile } from '../entities/Projectile';
+import { applyMovementInput, movePlayer, REVIVE_RADIUS } from '../entities/Player';
+import { Orb, allocateOrb, initOrb, isOrbExpired, canCollectOrb, ORB_COLLECT_RADIUS } from '../entities/Orb';
+import { createLoadoutWeapon, createWeapon } from '../entities/Weapon';
+import {
+  LOOT_PICKUP_RADIUS,
+  addItem,
+  countAmmo,
+  countConsumables,
+  createRelicItem,
+  createWeaponItem,
+  moveItem,
+  removeItem,
+  startingLoadout,
+  takeAmmo,
+  takeConsumable,
+  takeThrowable,
+} from '../entities/Inventory';
+import { CONSUMABLE_CATALOG } from '../entities/Consumable';
+import { THROWABLE_CATALOG, blastFalloff, createGrenade, updateGrenade } from '../entities/Throwable';
+import {
+  ROLE_ABILITIES,
+  BARRIER_DURATION,
+  DASH_SPEED,
+  DASH_DURATION,
+  SCAN_REVEAL_TIME,
+  SPOTTER_REVEAL_TIME,
+  HEALING_FIELD_RADIUS,
+  HEALING_FIELD_DURATION,
+  HEALING_FIELD_RATE,
+  FORTIFIED_BLAST_DAMAGE,
+  abilityReady,
+  createBarrier,
+  healChannelTime,
+} from '../entities/Ability';
+import { MatchEventBus } from './MatchEvents';
+import { PlayerHistory, MAX_REWIND_SECONDS } from './PlayerHistory';
+import {
+  vec2,
+  vec2Add,
+  vec2Sub,
+  vec2Distance,
+  vec2Angle,
+  vec2FromAngle,
+  vec2Length,
+  vec2Normalize,
+  vec2Scale,
+  pointInCircle,
+  segmentCircleIntersection,
+  clamp,
+} from '../utils/math';
+import { Rng, deriveSeed } from '../utils/rng';
+import { SpatialHash } from '../utils/spatialHash';
+import { Pool } from '../utils/pool';
+import { createStructureIndex, structureBoundingRadius, sweepStructure } from '../utils/collision';
+import { canSee, visibleEnemyIds } from '../utils/visibility';
+
+export const SIM_TICK_RATE = 60; // ticks per second
+
+// Keeps simulation rolls independent of how many rolls map generation used
+const SIM_RNG_STREAM = 1;
+
+// Never run more than this many ticks in one advance() call
+const MAX_TICKS_PER_ADVANCE = 10;
+
+const RELIC_PICKUP_RADIUS = 50;
+const LOOT_SCATTER_RADIUS = 40; // around a player whose backpack spills on death
+
+// Downed players get a fresh health pool that enemies must shoot through to
+// finish them; a revive stands them up with a little health
+const DOWNED_HEALTH = 100;
+const REVIVED_HEALTH = 30;
+
+// Hits this recent (seconds) earn an assist on the elimination
+const ASSIST_WINDOW = 10;
+
+// Projectile hit margin around structures
+const PROJECTILE_RADIUS = 4;
+
+// Starting pool sizes; pools grow if a match needs more
+const PROJECTILE_POOL_SIZE = 512;
+const ORB_POOL_SIZE = 128;
+
+const STRESS_WEAPON = createWeapon('standard_rifle');
+
+// Per-player trigger bookkeeping for fire modes
+export interface TriggerState {
+  held: boolean; // firing input on the previous tick
+  lastFireTime: number;
+  burstRemaining: number;
+}
+
+// One attacker's damage on a player during that player's current life
+export interface DamageRecord {
+  attackerId: string;
+  amount: number;
+  weaponId: string | null; // last weapon they hit with
+  lastHitAt: number; // match time
+}
+
+// Throwable a player was aiming on the previous tick, and where
+export interface HeldThrow {
+  type: ThrowableType;
+  offset: Vector2;
+}
+
+// What a simulation carries beyond its MatchState, so a suspended match can
+// pick up exactly where it stopped
+export interface SimulationCheckpoint {
+  tick: number;
+  rngState: number;
+  projectiles: Projectile[];
+  orbs: Orb[];
+  triggers: [string, TriggerState][];
+  lastEliminatedBy: [string, string][];
+  downedBy: [string, string][];
+  damageTaken: [string, DamageRecord[]][];
+  barriers: [string, number][];
+  interactHeld: string[];
+  abilityHeld: string[];
+  heldThrows: [string, HeldThrow][];
+  lastActionSeq: [string, number][];
+  revivers: [string, string][];
+  nextId: number;
+}
+
+export type InputListener = (tick: number, playerId: string, input: InputState) => void;
+
+export function createEmptyInput(): InputState {
+  return {
+    moveDirection: vec2(),
+    aimDirection: vec2(),
+    firing: false,
+    interacting: false,
+    healing: false,
+    reloading: false,
+    throwing: null,
+    throwOffset: vec2(),
+    throwCancelled: false,
+    usingAbility: false,
+    inventoryAction: null,
+  };
+}
+
+// Headless match rules. Owns no DOM, canvas or wall-clock state: everything is
+// driven by per-player InputStates and advanced in fixed ticks.
+export class MatchSimulation {
+  readonly state: MatchState;
+  readonly config: GameConfig;
+  readonly tickRate: number;
+  readonly fixedDeltaTime: number;
+  readonly events: MatchEventBus;
+
+  private projectilePool: Pool<Projectile> = new Pool(allocateProjectile, PROJECTILE_POOL_SIZE);
+  private orbPool: Pool<Orb> = new Pool(allocateOrb, ORB_POOL_SIZE);
+
+  private rng: Rng;
+  private inputs: Map<string, InputState> = new Map();
+  private inputListeners: Set<InputListener> = new Set();
+  private triggers: Map<string, TriggerState> = new Map();
+  private interactHeld: Set<string> = new Set(); // interacting on the previous tick
+  private abilityHeld: Set<string> = new Set(); // using an ability on the previous tick
+  private lastActionSeq: Map<string, number> = new Map();
+  private heldThrows: Map<string, HeldThrow> = new Map();
+  private history: PlayerHistory;
+  private rewindTicks: Map<string, number> = new Map();
+
+  // Broadphase indexes. Structures only change when one is destroyed; the
+  // rest are rebuilt every tick once things have moved.
+  private structureIndex: SpatialHash<Structure>;
+  private playerIndex: SpatialHash<Player> = new SpatialHash();
+  private relicIndex: SpatialHash<Relic> = new SpatialHash();
+  private orbIndex: SpatialHash<number> = new SpatialHash(); // orb pool handles
+
+  // Scratch space for the per-projectile hot path
+  private sweepFrom: Vector2 = vec2();
+  private sweepCenter: Vector2 = vec2();
+  private nearbyPlayers: Player[] = [];
+  private nearbyStructures: Structure[] = [];
+  private nearbyOrbs: number[] = [];
+  private nearbyRelics: Relic[] = [];
+  private accumulator: number = 0;
+  private tick: number = 0;
+  private nextId: number = 0; // entities created during the match
+
+  // Last attacker to eliminate each player, for team elimination credit
+  private lastEliminatedBy: Map<string, string> = new Map();
+  // Who knocked each downed player down, credited if they bleed out
+  private downedBy: Map<string, string> = new Map();
+  // Victim id -> who has hurt them since they last spawned
+  private damageTaken: Map<string, DamageRecord[]> = new Map();
+  // Downed player id -> teammate reviving them this tick
+  private revivers: Map<string, string> = new Map();
+  // Deployed barrier structure id -> seconds until it comes down
+  private barriers: Map<string, number> = new Map();
+
+  constructor(
+    state: MatchState,
+    config: GameConfig,
+    events: MatchEventBus = new MatchEventBus(),
+    tickRate: number = SIM_TICK_RATE
+  ) {
+    this.state = state;
+    this.config = config;
+    this.events = events;
+    this.tickRate = tickRate;
+    this.fixedDeltaTime = 1 / tickRate;
+    this.rng = new Rng(deriveSeed(state.seed, SIM_RNG_STREAM));
+    this.history = new PlayerHistory(Math.ceil(MAX_REWIND_SECONDS * tickRate));
+    this.structureIndex = createStructureIndex(state.structures.values());
+  }
+
+  // Input is held until replaced, so callers only need to send changes
+  setInput(playerId: string, input: InputState): void {
+    const copy: InputState = {
+      ...input,
+      moveDirection: { ...input.moveDirection },
+      aimDirection: { ...input.aimDirection },
+    };
+    this.inputs.set(playerId, copy);
+
+    for (const listener of this.inputListeners) {
+      listener(this.tick, playerId, copy);
+    }
+  }
+
+  // Observe inputs as they are applied; the tick is the last one completed
+  onInput(listener: InputListener): () => void {
+    this.inputListeners.add(listener);
+    return () => this.inputListeners.delete(listener);
+  }
+
+  // Live projectiles and orbs. The arrays and objects belong to their pools:
+  // read them during a frame, but copy anything you need to keep.
+  get projectiles(): Projectile[] {
+    return this.projectilePool.items;
+  }
+
+  get orbs(): Orb[] {
+    return this.orbPool.items;
+  }
+
+  // Stress test: fire `count` harmless bullets from random points on the map
+  spawnStressProjectiles(count: number): void {
+    for (let i = 0; i < count; i++) {
+      const projectile = this.projectilePool.get(this.projectilePool.acquire());
+      initProjectile(
+        projectile,
+        `proj_${this.nextId++}`,
+        'stress',
+        'stress',
+        Math.random() * this.config.mapWidth,
+        Math.random() * this.config.mapHeight,
+        Math.random() * Math.PI * 2,
+        STRESS_WEAPON
+      );
+      projectile.damage = 0;
+    }
+  }
+
+  getInput(playerId: string): InputState {
+    return this.inputs.get(playerId) || createEmptyInput();
+  }
+
+  // How many ticks behind the server this player's view is (their latency plus
+  // interpolation delay). Their shots are resolved against hitboxes that old.
+  setRewind(playerId: string, ticks: number): void {
+    this.rewindTicks.set(playerId, clamp(Math.round(ticks), 0, this.history.maxTicks));
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  // Enemies the team can currently see; everyone else is fogged out of what
+  // its members are sent
+  getVisibleEnemies(teamId: string): Set<string> {
+    return visibleEnemyIds(this.state, teamId, this.structureIndex);
+  }
+
+  // Copies, so the checkpoint stays valid as the match moves on
+  createCheckpoint(): SimulationCheckpoint {
+    return {
+      tick: this.tick,
+      rngState: this.rng.getState(),
+      projectiles: this.projectiles.map((p) => ({ ...p, position: { ...p.position }, velocity: { ...p.velocity } })),
+      orbs: this.orbs.map((orb) => ({ ...orb, position: { ...orb.position } })),
+      triggers: Array.from(this.triggers, ([id, trigger]) => [id, { ...trigger }]),
+      lastEliminatedBy: Array.from(this.lastEliminatedBy),
+      downedBy: Array.from(this.downedBy),
+      damageTaken: Array.from(this.damageTaken, ([id, records]) => [id, records.map((r) => ({ ...r }))]),
+      barriers: Array.from(this.barriers),
+      interactHeld: Array.from(this.interactHeld),
+      abilityHeld: Array.from(this.abilityHeld),
+      heldThrows: Array.from(this.heldThrows, ([id, held]) => [id, { type: held.type, offset: { ...held.offset } }]),
+      lastActionSeq: Array.from(this.lastActionSeq),
+      revivers: Array.from(this.revivers),
+      nextId: this.nextId,
+    };
+  }
+
+  // Pair with the MatchState saved alongside the checkpoint. Hitbox history
+  // starts over, which only matters for networked lag compensation. The
+  // checkpoint is copied, so it can be restored again later.
+  restoreCheckpoint(checkpoint: SimulationCheckpoint): void {
+    this.tick = checkpoint.tick;
+    this.accumulator = 0;
+    this.rng.setState(checkpoint.rngState);
+
+    this.projectilePool.clear();
+    for (const saved of checkpoint.projectiles) {
+      const projectile = this.projectilePool.get(this.projectilePool.acquire());
+      Object.assign(projectile, saved, { position: projectile.position, velocity: projectile.velocity });
+      projectile.position.x = saved.position.x;
+      projectile.position.y = saved.position.y;
+      projectile.velocity.x = saved.velocity.x;
+      projectile.velocity.y = saved.velocity.y;
+    }
+
+    this.orbPool.clear();
+    for (const saved of checkpoint.orbs) {
+      const orb = this.orbPool.get(this.orbPool.acquire());
+      Object.assign(orb, saved, { position: orb.position });
+      orb.position.x = saved.position.x;
+      orb.position.y = saved.position.y;
+    }
+
+    // JSON turns a never-fired -Infinity into null
+    this.triggers = new Map(
+      checkpoint.triggers.map(([id, trigger]) => [id, { ...trigger, lastFireTime: trigger.lastFireTime ?? -Infinity }])
+    );
+    this.lastEliminatedBy = new Map(checkpoint.lastEliminatedBy);
+    this.downedBy = new Map(checkpoint.downedBy);
+    this.damageTaken = new Map(checkpoint.damageTaken.map(([id, records]) => [id, records.map((r) => ({ ...r }))]));
+    this.barriers = new Map(checkpoint.barriers);
+    this.interactHeld = new Set(checkpoint.interactHeld);
+    this.abilityHeld = new Set(checkpoint.abilityHeld);
+    this.heldThrows = new Map(
+      checkpoint.heldThrows.map(([id, held]) => [id, { type: held.type, offset: { ...held.offset } }])
+    );
+    this.lastActionSeq = new Map(checkpoint.lastActionSeq);
+    this.revivers = new Map(checkpoint.revivers);
+    this.nextId = checkpoint.nextId;
+  }
+
+  // Accumulate real time and run as many fixed ticks as fit. Returns ticks run.
+  advance(deltaTime: number): number {
+    this.accumulator += deltaTime;
+
+    let ticks = 0;
+    while (this.accumulator >= this.fixedDeltaTime && ticks < MAX_TICKS_PER_ADVANCE) {
+      this.step();
+      this.accumulator -= this.fixedDeltaTime;
+      ticks++;
+    }
+
+    // Drop time we could not catch up on rather than spiralling
+    if (ticks === MAX_TICKS_PER_ADVANCE) {
+      this.accumulator = 0;
+    }
+
+    return ticks;
+  }
+
+  // Leave the pre-match 'waiting' phase (networked matches sit there until enough teams join)
+  start(): void {
+    if (this.state.phase === 'waiting') {
+      this.setPhase('open', null);
+    }
+  }
+
+  // Run exactly one fixed tick
+  step(): void {
+    const dt = this.fixedDeltaTime;
+    this.tick++;
+    this.state.timeElapsed += dt;
+
+    this.updateReloads(dt);
+    this.updateHealing(dt);
+    this.updatePlayers(dt);
+    this.updateDownedPlayers(dt);
+    this.indexPlayers(); // bots look for the humans that just moved
+    this.updateAI(dt);
+    this.indexPlayers();
+    this.updateProjectiles(dt);
+    this.updateGrenades(dt);
+    this.updateSmokes(dt);
+    this.updateAbilities(dt);
+    this.updateOrbs();
+    this.updateRiftline(dt);
+    this.updateRespawns(dt);
+    this.checkRelicInteractions();
+    this.checkVictoryCondition();
+
+    this.history.record(this.tick, this.state.players.values());
+  }
+
+  private updatePlayers(deltaTime: number): void {
+    this.revivers.clear();
+    for (const player of this.state.players.values()) {
+      if (player.isBot || !player.isAlive) continue;
+
+      const input = this.getInput(player.id);
+
+      // Movement and aim (a crawl while downed)
+      applyMovementInput(player, input, this.structureIndex, this.config, deltaTime);
+
+      const pressedInteract = input.interacting && !this.interactHeld.has(player.id);
+      if (input.interacting) {
+        this.interactHeld.add(player.id);
+      } else {
+        this.interactHeld.delete(player.id);
+      }
+
+      const pressedAbility = input.usingAbility && !this.abilityHeld.has(player.id);
+      if (input.usingAbility) {
+        this.abilityHeld.add(player.id);
+      } else {
+        this.abilityHeld.delete(player.id);
+      }
+
+      const heldThrow = this.heldThrows.get(player.id);
+      if (input.throwing) {
+        this.heldThrows.set(player.id, { type: input.throwing, offset: { ...input.throwOffset } });
+      } else {
+        this.heldThrows.delete(player.id);
+      }
+
+      // Downed players can only crawl; commands, throws and abilities sent
+      // meanwhile are dropped
+      const action = input.inventoryAction;
+      const newAction = action !== null && this.lastActionSeq.get(player.id) !== action.seq;
+      if (action && newAction) this.lastActionSeq.set(player.id, action.seq);
+      if (player.isDowned) continue;
+
+      // Holding interact next to a downed teammate revives them; otherwise a
+      // press picks up the nearest loot
+      const downedTeammate = input.interacting ? this.findDownedTeammate(player) : null;
+      if (downedTeammate) {
+        this.revivers.set(downedTeammate.id, player.id);
+      } else if (pressedInteract) {
+        const loot = this.findNearestLoot(player);
+        if (loot) this.pickUpLoot(player, loot, null);
+      }
+
+      // Backpack commands
+      if (action && newAction) {
+        this.applyInventoryAction(player, action);
+      }
+
+      // Letting go of an aimed throwable throws it, unless the aim was cancelled
+      if (heldThrow && !input.throwing && !input.throwCancelled) {
+        this.throwGrenade(player, heldThrow.type, heldThrow.offset);
+      }
+
+      if (pressedAbility) {
+        this.useAbility(player, input);
+      }
+
+      // Held heal key uses whatever the player is missing most
+      if (input.healing) {
+        this.startHealing(player, this.pickConsumable(player));
+      }
+
+      // Reloading and firing
+      if (input.reloading) {
+        this.startReload(player);
+      }
+      this.updateTrigger(player, input.firing);
+    }
+  }
+
+  // Revives progress while a teammate holds interact nearby and start over
+  // if they let go or either of them is hit; bleeding out pauses during a revive
+  private updateDownedPlayers(deltaTime: number): void {
+    for (const player of this.state.players.values()) {
+      if (!player.isAlive || !player.isDowned) continue;
+
+      const reviverId = this.revivers.get(player.id);
+      if (reviverId) {
+        player.reviveProgress = Math.min(1, player.reviveProgress + deltaTime / this.config.reviveTime);
+        if (player.reviveProgress >= 1) this.revivePlayer(player, reviverId);
+        continue;
+      }
+
+      player.reviveProgress = 0;
+      player.bleedOutTimer -= deltaTime;
+      if (player.bleedOutTimer <= 0) {
+        this.eliminatePlayer(player, this.downedBy.get(player.id)!);
+      }
+    }
+  }
+
+  private findDownedTeammate(player: Player): Player | null {
+    let nearest: Player | null = null;
+    let nearestDist = REVIVE_RADIUS;
+
+    const team = this.state.teams.get(player.teamId);
+    for (const id of team ? team.playerIds : []) {
+      const teammate = this.state.players.get(id);
+      if (!teammate || teammate.id === player.id || !teammate.isAlive || !teammate.isDowned) continue;
+
+      const dist = vec2Distance(player.position, teammate.position);
+      if (dist <= nearestDist) {
+        nearest = teammate;
+        nearestDist = dist;
+      }
+    }
+
+    return nearest;
+  }
+
+  private revivePlayer(player: Player, reviverId: string): void {
+    player.isDowned = false;
+    player.health = REVIVED_HEALTH;
+    player.bleedOutTimer = 0;
+    player.reviveProgress = 0;
+    this.downedBy.delete(player.id);
+
+    this.events.emit({
+      type: 'PlayerRevived',
+      ...this.eventBase(player.position),
+      playerId: player.id,
+      reviverId,
+    });
+  }
+
+  private updateReloads(deltaTime: number): void {
+    for (const player of this.state.players.values()) {
+      if (!player.isAlive || player.reloadTimer <= 0) continue;
+
+      player.reloadTimer -= deltaTime;
+      if (player.reloadTimer <= 0) {
+        const weapon = player.weapon;
+        if (weapon) {
+          player.ammo += takeAmmo(player.inventory, weapon.ammoType, weapon.stats.magazineSize - player.ammo);
+        }
+        player.reloadTimer = 0;
+      }
+    }
+  }
+
+  private startReload(player: Player): void {
+    const weapon = player.weapon;
+    if (!weapon || player.reloadTimer > 0) return;
+    if (player.ammo >= weapon.stats.magazineSize || countAmmo(player.inventory, weapon.ammoType) <= 0) return;
+
+    player.reloadTimer = weapon.stats.reloadTime;
+  }
+
+  private updateHealing(deltaTime: number): void {
+    for (const player of this.state.players.values()) {
+      if (!player.isAlive || player.healTimer <= 0) continue;
+
+      player.healTimer -= deltaTime;
+      if (player.healTimer > 0) continue;
+
+      // The item is only used up once the channel completes
+      const type = player.healingWith;
+      if (type && takeConsumable(player.inventory, type)) {
+        const stats = ROLE_STATS[player.role];
+        const { health, shield } = CONSUMABLE_CATALOG[type];
+        player.health = Math.min(stats.maxHealth, player.health + health);
+        player.shield = Math.min(stats.maxShield, player.shield + shield);
+      }
+      this.cancelHealing(player);
+    }
+  }
+
+  // Health first: it does not come back any other way
+  private pickConsumable(player: Player): ConsumableType | null {
+    const stats = ROLE_STATS[player.role];
+    if (player.health < stats.maxHealth && countConsumables(player.inventory, 'medkit') > 0) return 'medkit';
+    if (player.shield < stats.maxShield && countConsumables(player.inventory, 'shield_cell') > 0) return 'shield_cell';
+    return null;
+  }
+
+  // Only if the player carries one and it would restore something
+  private startHealing(player: Player, type: ConsumableType | null): void {
+    if (!type || player.healTimer > 0) return;
+    if (countConsumables(player.inventory, type) <= 0) return;
+
+    const stats = ROLE_STATS[player.role];
+    const consumable = CONSUMABLE_CATALOG[type];
+    const restores =
+      (consumable.health > 0 && player.health < stats.maxHealth) ||
+      (consumable.shield > 0 && player.shield < stats.maxShield);
+    if (!restores) return;
+
+    player.healTimer = healChannelTime(player.role, type);
+    player.healingWith = type;
+  }
+
+  private cancelHealing(player: Player): void {
+    player.healTimer = 0;
+    player.healingWith = null;
+  }
+
+  private throwGrenade(player: Player, type: ThrowableType, offset: Vector2): void {
+    if (!takeThrowable(player.inventory, type)) return;
+    this.cancelHealing(player);
+
+    const grenade = createGrenade(`grenade_${this.nextId++}`, player.id, player.teamId, type, player.position, offset);
+    this.state.grenades.set(grenade.id, grenade);
+  }
+
+  private updateGrenades(deltaTime: number): void {
+    for (const grenade of this.state.grenades.values()) {
+      if (updateGrenade(grenade, this.structureIndex, deltaTime)) {
+        this.state.grenades.delete(grenade.id);
+        this.explodeGrenade(grenade);
+      }
+    }
+  }
+
+  // Hurts enemies and cover in the radius (less towards the edge), strips
+  // shields or leaves smoke, depending on the throwable
+  private explodeGrenade(grenade: Grenade): void {
+    const definition = THROWABLE_CATALOG[grenade.throwableType];
+
+    this.events.emit({
+      type: 'GrenadeExploded',
+      ...this.eventBase(grenade.position),
+      ownerId: grenade.ownerId,
+      throwableType: grenade.throwableType,
+      radius: definition.radius,
+    });
+
+    if (definition.smokeDuration > 0) {
+      const id = `smoke_${this.nextId++}`;
+      this.state.smokes.set(id, {
+        id,
+        position: { ...grenade.position },
+        radius: definition.radius,
+        timeLeft: definition.smokeDuration,
+      });
+    }
+
+    for (const player of this.state.players.values()) {
+      if (!player.isAlive || player.teamId === grenade.teamId) continue;
+      const distance = vec2Distance(player.position, grenade.position) - ROLE_STATS[player.role].hitboxRadius;
+      if (distance > definition.radius) continue;
+
+      if (definition.stripsShields && player.shield > 0) {
+        this.damagePlayer(player, player.shield, grenade.ownerId, grenade.throwableType);
+      }
+      let damage = definition.damage * blastFalloff(Math.max(0, distance), definition.radius);
+      if (player.role === 'vanguard') damage *= FORTIFIED_BLAST_DAMAGE;
+      if (damage > 0 && player.isAlive) {
+        this.damagePlayer(player, damage, grenade.ownerId, grenade.throwableType);
+      }
+    }
+
+    if (definition.structureDamage <= 0) return;
+
+    let destroyed = false;
+    for (const structure of this.structureIndex.query(grenade.position, definition.radius)) {
+      if (!structure.isDestructible) continue;
+      const distance = vec2Distance(structure.position, grenade.position) - structureBoundingRadius(structure);
+      structure.health -= definition.structureDamage * blastFalloff(Math.max(0, distance), definition.radius);
+      if (structure.health <= 0) {
+        this.state.structures.delete(structure.id);
+        destroyed = true;
+      }
+    }
+    if (destroyed) this.indexStructures();
+  }
+
+  private updateSmokes(deltaTime: number): void {
+    for (const smoke of this.state.smokes.values()) {
+      smoke.timeLeft -= deltaTime;
+      if (smoke.timeLeft <= 0) this.state.smokes.delete(smoke.id);
+    }
+  }
+
+  // The role's active ability, if it is off cooldown
+  private useAbility(player: Player, input: InputState): void {
+    if (player.abilityCooldown > 0) return;
+    const { ability, cooldown } = ROLE_ABILITIES[player.role];
+    let radius = 0;
+
+    switch (ability) {
+      case 'barrier': {
+        const barrier = createBarrier(`barrier_${this.nextId++}`, player);
+        this.state.structures.set(barrier.id, barrier);
+        this.barriers.set(barrier.id, BARRIER_DURATION);
+        this.indexStructures();
+        break;
+      }
+      case 'dash': {
+        // The way the player is moving, or facing if they are standing still
+        const direction =
+          vec2Length(input.moveDirection) > 0 ? vec2Normalize(input.moveDirection) : vec2FromAngle(player.rotation);
+        player.velocity = vec2Scale(direction, DASH_SPEED);
+        player.dashTimer = DASH_DURATION;
+        break;
+      }
+      case 'scan': {
+        radius = ROLE_STATS[player.role].awarenessRange;
+        for (const other of this.state.players.values()) {
+          if (!other.isAlive || other.teamId === player.teamId) continue;
+          if (vec2Distance(other.position, player.position) > radius) continue;
+          this.revealPlayer(other, player.teamId, SCAN_REVEAL_TIME);
+        }
+        break;
+      }
+      case 'healing_field': {
+        radius = HEALING_FIELD_RADIUS;
+        const id = `field_${this.nextId++}`;
+        this.state.healingFields.set(id, {
+          id,
+          ownerId: player.id,
+          teamId: player.teamId,
+          position: { ...player.position },
+          radius,
+          timeLeft: HEALING_FIELD_DURATION,
+        });
+        break;
+      }
+    }
+
+    player.abilityCooldown = cooldown;
+    this.events.emit({
+      type: 'AbilityUsed',
+      ...this.eventBase(player.position),
+      playerId: player.id,
+      ability,
+      radius,
+    });
+  }
+
+  // Cooldowns and reveals run down, healing fields heal the standing
+  // teammates inside them and barriers come down when their time is up
+  private updateAbilities(deltaTime: number): void {
+    for (const player of this.state.players.values()) {
+      player.abilityCooldown = Math.max(0, player.abilityCooldown - deltaTime);
+      if (player.revealTimer > 0) {
+        player.revealTimer = Math.max(0, player.revealTimer - deltaTime);
+        if (player.revealTimer === 0) player.revealedToTeamId = null;
+      }
+    }
+
+    for (const field of this.state.healingFields.values()) {
+      field.timeLeft -= deltaTime;
+      if (field.timeLeft <= 0) {
+        this.state.healingFields.delete(field.id);
+        continue;
+      }
+
+      for (const player of this.state.players.values()) {
+        if (!player.isAlive || player.isDowned || player.teamId !== field.teamId) continue;
+        if (!pointInCircle(player.position, field.position, field.radius)) continue;
+        player.health = Math.min(ROLE_STATS[player.role].maxHealth, player.health + HEALING_FIELD_RATE * deltaTime);
+      }
+    }
+
+    // Barriers already shot down are only forgotten here
+    let expired = false;
+    for (const [id, timeLeft] of this.barriers) {
+      if (timeLeft > deltaTime) {
+        this.barriers.set(id, timeLeft - deltaTime);
+        continue;
+      }
+      this.barriers.delete(id);
+      if (this.state.structures.delete(id)) expired = true;
+    }
+    if (expired) this.indexStructures();
+  }
+
+  // Show `player` to `teamId` for at least `seconds`. Only one team sees a
+  // player at a time: a reveal by another team replaces the last one.
+  private revealPlayer(player: Player, teamId: string, seconds: number): void {
+    if (player.revealedToTeamId === teamId) {
+      player.revealTimer = Math.max(player.revealTimer, seconds);
+      return;
+    }
+    player.revealedToTeamId = teamId;
+    player.revealTimer = seconds;
+  }
+
+  private getTrigger(playerId: string): TriggerState {
+    let trigger = this.triggers.get(playerId);
+    if (!trigger) {
+      trigger = { held: false, lastFireTime: -Infinity, burstRemaining: 0 };
+      this.triggers.set(playerId, trigger);
+    }
+    return trigger;
+  }
+
+  // Automatic fires while held, semi-automatic once per pull, burst fires
+  // burstCount shots per pull and finishes the burst even if released
+  private updateTrigger(player: Player, firing: boolean): void {
+    const trigger = this.getTrigger(player.id);
+    const pulled = firing && !trigger.held;
+    trigger.held = firing;
+
+    const weapon = player.weapon;
+    if (!weapon) {
+      trigger.burstRemaining = 0;
+      return;
+    }
+
+    if (player.reloadTimer > 0) {
+      // A fresh pull with rounds still loaded abandons the reload
+      if (!pulled || player.ammo === 0) return;
+      player.reloadTimer = 0;
+    }
+
+    if (player.ammo === 0) {
+      trigger.burstRemaining = 0;
+      if (firing) this.startReload(player);
+      return;
+    }
+
+    const now = this.state.timeElapsed;
+    const sinceLastShot = now - trigger.lastFireTime;
+    const fireInterval = 1 / weapon.stats.fireRate;
+
+    switch (weapon.type) {
+      case 'automatic':
+        if (firing && sinceLastShot >= fireInterval) {
+          this.fireWeapon(player, trigger);
+        }
+        break;
+      case 'semi-automatic':
+        if (pulled && sinceLastShot >= fireInterval) {
+          this.fireWeapon(player, trigger);
+        }
+        break;
+      case 'burst':
+        if (pulled && trigger.burstRemaining === 0 && sinceLastShot >= weapon.stats.burstCooldown) {
+          trigger.burstRemaining = weapon.stats.burstCount;
+        }
+        if (trigger.burstRemaining > 0 && sinceLastShot >= fireInterval) {
+          trigger.burstRemaining--;
+          this.fireWeapon(player, trigger);
+        }
+        break;
+    }
+  }
+
+  // One shot: a round from the magazine, a projectile per pellet, each with
+  // its own spread. Emptying the magazine starts a reload.
+  private fireWeapon(player: Player, trigger: TriggerState): void {
+    if (!player.weapon || player.ammo <= 0) return;
+    trigger.lastFireTime = this.state.timeElapsed;
+    this.cancelHealing(player);
+
+    player.ammo--;
+    if (player.ammo === 0) {
+      trigger.burstRemaining = 0;
+      this.startReload(player);
+    }
+
+    const { stats } = player.weapon;
+    const spread = (stats.spread * Math.PI) / 180;
+    const rewind = this.rewindTicks.get(player.id) || 0;
+
+    for (let i = 0; i < stats.pellets; i++) {
+      const angle = player.rotation + this.rng.range(-spread / 2, spread / 2);
+      const handle = this.spawnProjectile(player, angle);
+
+      if (rewind > 0 && !this.rewindProjectile(this.projectilePool.get(handle), rewind)) {
+        this.projectilePool.release(handle);
+      }
+    }
+  }
+
+  // Backpack commands are checked here, not trusted from the client preview
+  private applyInventoryAction(player: Player, action: InventoryAction): void {
+    const { inventory } = player;
+
+    switch (action.type) {
+      case 'move':
+        moveItem(inventory, action.itemId, action.slot);
+        break;
+      case 'drop': {
+        const item = inventory.items.find((i) => i.id === action.itemId);
+        // Relics leave the backpack only by delivery or death
+        if (!item || item.kind === 'relic') return;
+        removeItem(inventory, item.id);
+        this.dropLoot(item, player.position);
+        break;
+      }
+      case 'equip':
+        this.equipWeapon(player, action.itemId);
+        break;
+      case 'use': {
+        const item = inventory.items.find((i) => i.id === action.itemId);
+        if (item && item.kind === 'consumable') this.startHealing(player, item.consumableType);
+        break;
+      }
+      case 'pickup': {
+        const loot = this.state.loot.get(action.lootId);
+        if (loot && vec2Distance(player.position, loot.position) <= LOOT_PICKUP_RADIUS) {
+          this.pickUpLoot(player, loot, action.slot);
+        }
+        break;
+      }
+    }
+  }
+
+  // Swap the weapon in hand with one from the backpack. The holstered weapon
+  // keeps its loaded rounds and takes the drawn one's place if it fits there,
+  // otherwise anywhere; with no room at all the swap does not happen.
+  private equipWeapon(player: Player, itemId: string): void {
+    const { inventory } = player;
+    const item = inventory.items.find((i) => i.id === itemId);
+    if (!item || item.kind !== 'weapon') return;
+
+    removeItem(inventory, item.id);
+    if (player.weapon) {
+      const holstered = createWeaponItem(this.nextItemId(), player.weapon, player.ammo);
+      const sameSpot = { x: item.x, y: item.y, rotated: item.rotated };
+      if (!addItem(inventory, holstered, sameSpot) && !addItem(inventory, holstered)) {
+        addItem(inventory, item, { x: item.x, y: item.y, rotated: item.rotated });
+        return;
+      }
+    }
+
+    player.weapon = item.weapon;
+    player.ammo = item.loadedAmmo;
+    player.reloadTimer = 0;
+    const trigger = this.triggers.get(player.id);
+    if (trigger) trigger.burstRemaining = 0;
+  }
+
+  private findNearestLoot(player: Player): LootDrop | null {
+    let nearest: LootDrop | null = null;
+    let nearestDist = LOOT_PICKUP_RADIUS;
+
+    for (const loot of this.state.loot.values()) {
+      const dist = vec2Distance(player.position, loot.position);
+      if (dist <= nearestDist) {
+        nearest = loot;
+        nearestDist = dist;
+      }
+    }
+
+    return nearest;
+  }
+
+  // Into the backpack at `slot`, or the first free space. Ammo that does not
+  // all fit leaves the rest on the ground.
+  private pickUpLoot(player: Player, loot: LootDrop, slot: InventorySlot | null): void {
+    if (addItem(player.inventory, loot.item, slot)) {
+      this.state.loot.delete(loot.id);
+    }
+  }
+
+  private dropLoot(item: InventoryItem, position: Vector2): void {
+    const id = `drop_${this.nextId++}`;
+    item.x = 0;
+    item.y = 0;
+    item.rotated = false;
+    this.state.loot.set(id, { id, position: { ...position }, item });
+  }
+
+  private nextItemId(): string {
+    return `item_${this.nextId++}`;
+  }
+
+  // Fire from just outside the shooter's hitbox; returns the pool handle
+  private spawnProjectile(player: Player, angle: number): number {
+    const handle = this.projectilePool.acquire();
+    const offset = ROLE_STATS[player.role].hitboxRadius + 5;
+    initProjectile(
+      this.projectilePool.get(handle),
+      `proj_${this.nextId++}`,
+      player.id,
+      player.teamId,
+      player.position.x + Math.cos(angle) * offset,
+      player.position.y + Math.sin(angle) * offset,
+      angle,
+      player.weapon!
+    );
+    return handle;
+  }
+
+  // Fly a new shot from the tick the shooter was looking at up to the last
+  // completed one, against the hitboxes recorded for those ticks. The current
+  // tick is handled by updateProjectiles like any other projectile. Returns
+  // false if the shot was used up on the way.
+  private rewindProjectile(projectile: Projectile, rewind: number): boolean {
+    const viewTick = this.tick - rewind;
+    if (this.resolveProjectileCollisions(projectile, projectile.position, viewTick)) return false;
+
+    for (let tick = viewTick + 1; tick < this.tick; tick++) {
+      this.sweepFrom.x = projectile.position.x;
+      this.sweepFrom.y = projectile.position.y;
+      const inRange = updateProjectile(projectile, this.fixedDeltaTime);
+      if (this.resolveProjectileCollisions(projectile, this.sweepFrom, tick) || !inRange) return false;
+    }
+
+    return true;
+  }
+
+  private updateAI(deltaTime: number): void {
+    // Simple AI for test enemies
+    for (const player of this.state.players.values()) {
+      if (!player.isBot || !player.isAlive || player.isDowned) continue;
+
+      // Random movement - change direction more often if stuck
+      if (this.rng.next() < 0.02) {
+        player.rotation = this.rng.range(0, Math.PI * 2);
+      }
+
+      const stats = ROLE_STATS[player.role];
+      const speed = stats.moveSpeed * 0.5; // AI moves slower
+
+      player.velocity = vec2FromAngle(player.rotation, speed);
+      movePlayer(player, this.structureIndex, this.config, deltaTime);
+
+      // Look towards the nearest human enemy the bot can see
+      const target = this.findNearestHumanEnemy(player);
+      if (target) {
+        player.rotation = vec2Angle(vec2Sub(target.position, player.position));
+
+        // Fire at player if in range, no faster than the weapon allows
+        if (this.rng.next() < 0.03 && player.weapon && player.reloadTimer === 0) {
+          const trigger = this.getTrigger(player.id);
+          if (this.state.timeElapsed - trigger.lastFireTime >= 1 / player.weapon.stats.fireRate) {
+            this.fireWeapon(player, trigger);
+          }
+        }
+      }
+    }
+  }
+
+  // Bots play by the same fog of war as everyone else
+  private findNearestHumanEnemy(bot: Player): Player | null {
+    const range = ROLE_STATS[bot.role].awarenessRange;
+    let nearest: Player | null = null;
+    let nearestDist = range;
+
+    this.nearbyPlayers.length = 0;
+    for (const other of this.playerIndex.query(bot.position, range, this.nearbyPlayers)) {
+      if (other.isBot || !other.isAlive || other.teamId === bot.teamId) continue;
+      if (!canSee(bot, other.position, this.structureIndex, this.state.smokes.values())) continue;
+
+      const dist = vec2Distance(bot.position, other.position);
+      if (dist < nearestDist) {
+        nearest = other;
+        nearestDist = dist;
+      }
+    }
+
+    return nearest;
+  }
+
+  private indexPlayers(): void {
+    this.playerIndex.clear();
+    for (const player of this.state.players.values()) {
+      if (player.isAlive) this.playerIndex.insert(player, player.position, ROLE_STATS[player.role].hitboxRadius);
+    }
+  }
+
+  private indexStructures(): void {
+    this.structureIndex = createStructureIndex(this.state.structures.values());
+  }
+
+  private updateProjectiles(deltaTime: number): void {
+    const projectiles = this.projectilePool.items;
+
+    // Backwards, so a release (which swaps the last projectile into this slot) skips nothing
+    for (let i = projectiles.length - 1; i >= 0; i--) {
+      const projectile = projectiles[i];
+      this.sweepFrom.x = projectile.position.x;
+      this.sweepFrom.y = projectile.position.y;
+      const inRange = updateProjectile(projectile, deltaTime);
+
+      if (this.resolveProjectileCollisions(projectile, this.sweepFrom, null) || !inRange) {
+        this.projectilePool.releaseAt(i);
+      }
+    }
+  }
+
+  // Sweep the projectile's path from `from` to its current position and apply
+  // the earliest hit along it, leaving the projectile at the point of impact.
+  // Player hitboxes are taken from `hitboxTick` when given, otherwise from the
+  // current positions. Returns true if the projectile is used up.
+  private resolveProjectileCollisions(projectile: Projectile, from: Vector2, hitboxTick: number | null): boolean {
+    const to = projectile.position;
+    const center = this.sweepCenter;
+    center.x = (from.x + to.x) / 2;
+    center.y = (from.y + to.y) / 2;
+    const reach = vec2Distance(from, to) / 2;
+
+    let earliest = Infinity;
+    let hitPlayer: Player | null = null;
+    let hitStructure: Structure | null = null;
+
+    // Check collision with players. Rewound hitboxes are not in the index, but
+    // only fresh shots from lagging players look at them.
+    this.nearbyPlayers.length = 0;
+    const candidates = hitboxTick === null
+      ? this.playerIndex.query(center, reach, this.nearbyPlayers)
+      : this.state.players.values();
+
+    for (const player of candidates) {
+      if (!player.isAlive) continue;
+      if (player.teamId === projectile.teamId) continue; // No friendly fire
+
+      const position = hitboxTick === null ? player.position : this.history.positionAt(hitboxTick, player.id);
+      if (!position) continue;
+
+      const t = segmentCircleIntersection(from, to, position, ROLE_STATS[player.role].hitboxRadius);
+      if (t !== null && t < earliest) {
+        earliest = t;
+        hitPlayer = player;
+      }
+    }
+
+    // Check collision with structures
+    this.nearbyStructures.length = 0;
+    for (const structure of this.structureIndex.query(center, reach + PROJECTILE_RADIUS * 2, this.nearbyStructures)) {
+      const t = sweepStructure(from, to, PROJECTILE_RADIUS, structure);
+      if (t !== null && t < earliest) {
+        earliest = t;
+        hitPlayer = null;
+        hitStructure = structure;
+      }
+    }
+
+    if (hitPlayer || hitStructure) {
+      to.x = from.x + (to.x - from.x) * earliest;
+      to.y = from.y + (to.y - from.y) * earliest;
+    }
+
+    // Stress test bullets do no damage
+    if (hitPlayer) {
+      if (projectile.damage > 0) {
+        this.damagePlayer(hitPlayer, projectile.damage, projectile.ownerId, projectile.weaponId);
+      }
+      return true;
+    }
+
+    // Damage destructible structures
+    if (hitStructure) {
+      if (hitStructure.isDestructible && projectile.damage > 0) {
+        hitStructure.health -= projectile.damage;
+        if (hitStructure.health <= 0) {
+          this.state.structures.delete(hitStructure.id);
+          this.indexStructures();
+        }
+      }
+      return true;
+    }
+
+    // Check map bounds
+    return (
+      projectile.position.x < 0 ||
+      projectile.position.x > this.config.mapWidth ||
+      projectile.position.y < 0 ||
+      projectile.position.y > this.config.mapHeight
+    );
+  }
+
+  private damagePlayer(player: Player, damage: number, attackerId: string, weaponId: string | null): void {
+    const amount = damage;
+    let shieldDamage = 0;
+    this.recordDamage(player.id, attackerId, amount, weaponId);
+
+    // Spotter: a sentinel's hits give the target away to their team
+    const attacker = this.state.players.get(attackerId);
+    if (attacker && attacker.role === 'sentinel' && attacker.teamId !== player.teamId) {
+      this.revealPlayer(player, attacker.teamId, SPOTTER_REVEAL_TIME);
+    }
+
+    // Shield absorbs damage first
+    if (player.shield > 0) {
+      shieldDamage = Math.min(player.shield, damage);
+      player.shield -= shieldDamage;
+      damage -= shieldDamage;
+    }
+
+    player.health -= damage;
+
+    // Getting hit interrupts a heal or a revive. The riftline hurts every
+    // tick, so it does not, or nobody could heal outside the ring.
+    if (attackerId !== 'riftline') {
+      this.cancelHealing(player);
+      this.interruptRevive(player);
+    }
+
+    this.events.emit({
+      type: 'PlayerDamaged',
+      ...this.eventBase(player.position),
+      attackerId,
+      victimId: player.id,
+      amount,
+      shieldDamage,
+      healthDamage: damage,
+    });
+
+    if (player.health <= 0) {
+      if (player.isDowned) {
+        this.eliminatePlayer(player, attackerId);
+      } else {
+        this.downPlayer(player, attackerId);
+      }
+    }
+  }
+
+  // Whether the player is the one downed or the one reviving
+  private interruptRevive(player: Player): void {
+    for (const [downedId, reviverId] of this.revivers) {
+      if (downedId !== player.id && reviverId !== player.id) continue;
+      this.revivers.delete(downedId);
+      this.state.players.get(downedId)!.reviveProgress = 0;
+    }
+  }
+
+  private recordDamage(victimId: string, attackerId: string, amount: number, weaponId: string | null): void {
+    let records = this.damageTaken.get(victimId);
+    if (!records) {
+      records = [];
+      this.damageTaken.set(victimId, records);
+    }
+
+    const record = records.find((r) => r.attackerId === attackerId);
+    if (record) {
+      record.amount += amount;
+      record.weaponId = weaponId;
+      record.lastHitAt = this.state.timeElapsed;
+    } else {
+      records.push({ attackerId, amount, weaponId, lastHitAt: this.state.timeElapsed });
+    }
+  }
+
+  private downPlayer(player: Player, attackerId: string): void {
+    player.isDowned = true;
+    player.health = DOWNED_HEALTH;
+    player.shield = 0;
+    player.bleedOutTimer = this.config.bleedOutTime;
+    player.reviveProgress = 0;
+    player.reloadTimer = 0;
+    player.dashTimer = 0;
+    this.cancelHealing(player);
+    this.dropRelic(player);
+    this.downedBy.set(player.id, attackerId);
+
+    this.events.emit({
+      type: 'PlayerDowned',
+      ...this.eventBase(player.position),
+      attackerId,
+      victimId: player.id,
+    });
+
+    // With nobody left standing to revive them, the whole squad is out
+    const team = this.state.teams.get(player.teamId);
+    if (!team) return;
+    const squad = team.playerIds.map((id) => this.state.players.get(id)).filter((p): p is Player => !!p && p.isAlive);
+    if (squad.some((p) => !p.isDowned)) return;
+
+    for (const member of squad) {
+      this.eliminatePlayer(member, this.downedBy.get(member.id)!);
+    }
+  }
+
+  private eliminatePlayer(player: Player, killerId: string): void {
+    player.isAlive = false;
+    player.health = 0;
+    player.respawnTimer = this.config.baseRespawnTime;
+    player.reloadTimer = 0;
+    player.isDowned = false;
+    player.bleedOutTimer = 0;
+    player.reviveProgress = 0;
+    Object.assign(player, abilityReady());
+    this.cancelHealing(player);
+    this.downedBy.delete(player.id);
+    this.lastEliminatedBy.set(player.id, killerId);
+
+    // Credit the killing weapon and anyone who helped recently, then start
+    // the next life with a clean slate
+    const records = this.damageTaken.get(player.id) ?? [];
+    this.damageTaken.delete(player.id);
+    const assistSince = this.state.timeElapsed - ASSIST_WINDOW;
+
+    // Drop orbs
+    for (let i = 0; i < this.config.orbDropCount; i++) {
+      const orb = this.orbPool.get(this.orbPool.acquire());
+      initOrb(orb, `orb_${this.nextId++}`, player.position, this.state.timeElapsed, this.rng);
+    }
+
+    this.dropRelic(player);
+
+    // Spill the weapon in hand and the backpack around the body
+    const spilled = player.inventory.items.splice(0);
+    if (player.weapon) {
+      spilled.push(createWeaponItem(this.nextItemId(), player.weapon, player.ammo));
+      player.weapon = null;
+      player.ammo = 0;
+    }
+    for (const item of spilled) {
+      const offset = vec2FromAngle(this.rng.range(0, Math.PI * 2), this.rng.range(0, LOOT_SCATTER_RADIUS));
+      this.dropLoot(item, vec2Add(player.position, offset));
+    }
+
+    this.events.emit({
+      type: 'PlayerEliminated',
+      ...this.eventBase(player.position),
+      attackerId: killerId,
+      victimId: player.id,
+      weaponId: records.find((r) => r.attackerId === killerId)?.weaponId ?? null,
+      assistIds: records
+        .filter((r) => r.attackerId !== killerId && r.attackerId !== 'riftline' && r.lastHitAt >= assistSince)
+        .map((r) => r.attackerId),
+      damage: records
+        .map((r) => ({ attackerId: r.attackerId, amount: Math.round(r.amount) }))
+        .sort((a, b) => b.amount - a.amount),
+    });
+  }
+
+  private updateOrbs(): void {
+    const orbs = this.orbPool.items;
+
+    // Remove expired orbs (backwards, as in updateProjectiles)
+    for (let i = orbs.length - 1; i >= 0; i--) {
+      if (isOrbExpired(orbs[i], this.state.timeElapsed)) {
+        this.orbPool.releaseAt(i);
+      }
+    }
+
+    this.orbIndex.clear();
+    for (let i = 0; i < orbs.length; i++) {
+      this.orbIndex.insert(this.orbPool.handleAt(i), orbs[i].position);
+    }
+
+    // Check collection by players still on their feet
+    for (const player of this.state.players.values()) {
+      if (!player.isAlive || player.isDowned) continue;
+
+      this.nearbyOrbs.length = 0;
+      for (const handle of this.orbIndex.query(player.position, ORB_COLLECT_RADIUS, this.nearbyOrbs)) {
+        // Already taken by an earlier player this tick
+        if (!this.orbPool.isLive(handle)) continue;
+
+        const orb = this.orbPool.get(handle);
+        if (!canCollectOrb(orb, player.position)) continue;
+
+        player.orbs++;
+
+        const team = this.state.teams.get(player.teamId);
+        if (team) {
+          team.orbs++;
+        }
+
+        this.events.emit({
+          type: 'OrbCollected',
+          ...this.eventBase(orb.position),
+          playerId: player.id,
+          teamId: player.teamId,
+          orbId: orb.id,
+        });
+
+        this.orbPool.release(handle);
+      }
+    }
+  }
+
+  private updateRiftline(deltaTime: number): void {
+    for (const ring of this.state.rings) {
+      // Shrink ring
+      if (ring.currentRadius > ring.targetRadius) {
+        ring.currentRadius = Math.max(
+          ring.targetRadius,
+          ring.currentRadius - ring.shrinkRate * deltaTime
+        );
+      }
+
+      // Damage players outside ring
+      for (const player of this.state.players.values()) {
+        if (!player.isAlive) continue;
+
+        const insideAnyRing = this.state.rings.some((r) =>
+          pointInCircle(player.position, r.center, r.currentRadius)
+        );
+
+        if (!insideAnyRing) {
+          this.damagePlayer(player, ring.damage * deltaTime, 'riftline', null);
+        }
+      }
+    }
+  }
+
+  private updateRespawns(deltaTime: number): void {
+    for (const player of this.state.players.values()) {
+      if (player.isAlive || player.respawnTimer <= 0) continue;
+
+      const team = this.state.teams.get(player.teamId);
+      if (!team) continue;
+
+      // Apply orb reduction
+      const reduction = team.orbs * this.config.orbRespawnReduction;
+      const effectiveTimer = player.respawnTimer - reduction;
+
+      player.respawnTimer -= deltaTime;
+
+      // Check respawn
+      if (player.respawnTimer <= 0 || effectiveTimer <= 0) {
+        // Find a living teammate to spawn near
+        const livingTeammate = team.playerIds
+          .map((pid) => this.state.players.get(pid))
+          .find((p) => p && p.isAlive && !p.isDowned && p.id !== player.id);
+
+        if (livingTeammate) {
+          // Respawn near teammate
+          const spawnOffset = vec2FromAngle(this.rng.range(0, Math.PI * 2), 100);
+          player.position = vec2Add(livingTeammate.position, spawnOffset);
+          player.isAlive = true;
+          player.health = ROLE_STATS[player.role].maxHealth;
+          player.shield = ROLE_STATS[player.role].maxShield;
+          player.respawnTimer = 0;
+          Object.assign(player, startingLoadout(createLoadoutWeapon(player.role), () => this.nextItemId()));
+        } else if (!team.isEliminated) {
+          // No living teammates - team eliminated
+          team.isEliminated = true;
+          this.events.emit({
+            type: 'TeamEliminated',
+            ...this.eventBase(player.position),
+            teamId: team.id,
+            attackerId: this.lastEliminatedBy.get(player.id) ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  private checkRelicInteractions(): void {
+    this.relicIndex.clear();
+    for (const relic of this.state.relics.values()) {
+      if (!relic.carriedByPlayerId && !relic.isDelivered) this.relicIndex.insert(relic, relic.position);
+    }
+
+    for (const player of this.state.players.values()) {
+      if (player.isBot || !player.isAlive || player.isDowned) continue;
+
+      // Pickup relic
+      if (!player.carryingRelic) {
+        this.nearbyRelics.length = 0;
+        for (const relic of this.relicIndex.query(player.position, RELIC_PICKUP_RADIUS, this.nearbyRelics)) {
+          if (relic.carriedByPlayerId || relic.isDelivered) continue;
+
+          if (vec2Distance(player.position, relic.position) < RELIC_PICKUP_RADIUS) {
+            // The relic needs room in the backpack
+            if (!addItem(player.inventory, createRelicItem(this.nextItemId(), relic.id))) break;
+            relic.carriedByPlayerId = player.id;
+            player.carryingRelic = relic;
+            this.events.emit({
+              type: 'RelicPickedUp',
+              ...this.eventBase(relic.position),
+              playerId: player.id,
+              teamId: player.teamId,
+              relicId: relic.id,
+            });
+            break;
+          }
+        }
+      }
+
+      // Deliver relic
+      if (player.carryingRelic) {
+        const relic = player.carryingRelic;
+        const targetSite = this.state.deliverySites.get(relic.targetSiteId);
+
+        if (targetSite && vec2Distance(player.position, targetSite.position) < targetSite.radius) {
+          this.releaseRelic(player);
+          relic.isDelivered = true;
+          relic.carriedByPlayerId = null;
+          player.carryingRelic = null;
+
+          const team = this.state.teams.get(player.teamId);
+          if (team) {
+            team.relicsDelivered++;
+          }
+
+          this.events.emit({
+            type: 'RelicDelivered',
+            ...this.eventBase(targetSite.position),
+            playerId: player.id,
+            teamId: player.teamId,
+            relicId: relic.id,
+            siteId: targetSite.id,
+          });
+        }
+      }
+    }
+  }
+
+  // Put a carried relic back on the ground
+  private dropRelic(player: Player): void {
+    if (!player.carryingRelic) return;
+    this.releaseRelic(player);
+    player.carryingRelic.carriedByPlayerId = null;
+    player.carryingRelic.position = { ...player.position };
+    player.carryingRelic = null;
+  }
+
+  // Take the carried relic's item out of the backpack
+  private releaseRelic(player: Player): void {
+    const item = player.inventory.items.find((i) => i.kind === 'relic' && i.relicId === player.carryingRelic?.id);
+    if (item) removeItem(player.inventory, item.id);
+  }
+
+  private checkVictoryCondition(): void {
+    const deliveredCount = Array.from(this.state.relics.values()).filter(
+      (r) => r.isDelivered
+    ).length;
+
+    // All relics delivered -> convergence phase
+    if (
+      deliveredCount >= this.config.relicCount &&
+      this.state.phase !== 'convergence' &&
+      this.state.phase !== 'ended'
+    ) {
+      this.state.vaultPosition = vec2(
+        this.rng.range(500, this.config.mapWidth - 500),
+        this.rng.range(500, this.config.mapHeight - 500)
+      );
+      this.setPhase('convergence', this.state.vaultPosition);
+
+      // Update rings to converge on vault
+      for (const ring of this.state.rings) {
+        ring.center = this.state.vaultPosition;
+        ring.targetRadius = this.state.vaultRadius;
+        ring.shrinkRate = 30;
+      }
+    }
+
+    // Check for last team standing
+    const aliveTeams = Array.from(this.state.teams.values()).filter(
+      (t) => !t.isEliminated
+    );
+
+    if (aliveTeams.length <= 1 && this.state.phase !== 'ended') {
+      this.setPhase('ended', null);
+      // Winner logic here
+    }
+  }
+
+  private setPhase(phase: MatchPhase, position: Vector2 | null): void {
+    const from = this.state.phase;
+    if (from === phase) return;
+
+    this.state.phase = phase;
+    this.events.emit({
+      type: 'PhaseChanged',
+      ...this.eventBase(position),
+      from,
+      to: phase,
+    });
+  }
+
+  private eventBase(position: Vector2 | null): { timestamp: number; tick: number; position: Vector2 | null } {
+    return {
+      timestamp: this.state.timeElapsed,
+      tick: this.tick,
+      position: position ? { ...position } : null,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import type { Player, Vector2 } from '../types';
+
+// Never rewind hitboxes further back than this, however laggy the shooter
+export const MAX_REWIND_SECONDS = 0.25;
+
+interface HistoryFrame {
+  tick: number;
+  positions: Map<string, Vector2>;
+}
+
+// Ring buffer of where every living player stood at the end of recent ticks,
+// so hits can be resolved against what a lagging shooter actually saw.
+export class PlayerHistory {
+  private frames: (HistoryFrame | null)[];
+
+  constructor(maxTicks: number) {
+    this.frames = new Array(maxTicks + 1).fill(null);
+  }
+
+  get maxTicks(): number {
+    return this.frames.length - 1;
+  }
+
+  // Frames are overwritten in place once the buffer has wrapped
+  record(tick: number, players: Iterable<Player>): void {
+    const slot = tick % this.frames.length;
+    let frame = this.frames[slot];
+    if (!frame) {
+      frame = { tick, positions: new Map() };
+      this.frames[slot] = frame;
+    }
+    frame.tick = tick;
+
+    for (const player of players) {
+      const position = frame.positions.get(player.id);
+      if (!player.isAlive) {
+        frame.positions.delete(player.id);
+      } else if (position) {
+        position.x = player.position.x;
+        position.y = player.position.y;
+      } else {
+        frame.positions.set(player.id, { ...player.position });
+      }
+    }
+  }
+
+  // Where the player stood at the end of `tick`, or null if that is no longer
+  // (or was never) recorded
+  positionAt(tick: number, playerId: string): Vector2 | null {
+    if (tick < 0) return null;
+    const frame = this.frames[tick % this.frames.length];
+    if (!frame || frame.tick !== tick) return null;
+    return frame.positions.get(playerId) || null;
+  }
+}
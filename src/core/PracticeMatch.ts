@@ -0,0 +1,93 @@
+import type { GameConfig, InputState, MatchEvent, Role } from '../types';
+import { MatchSimulation, type SimulationCheckpoint } from './MatchSimulation';
+import { MatchEventBus } from './MatchEvents';
+import { createPracticeMatch } from './MatchSetup';
+import { MatchRecorder, type MatchRecording } from './MatchRecorder';
+import { serializeMatchState, deserializeMatchState, type SerializedMatchState } from './MatchSerializer';
+import type { MatchPatch } from './MatchPatch';
+
+export interface PracticeMatchSetup {
+  config: GameConfig;
+  role: Role;
+  seed: number;
+  localPlayerId: string;
+  resume?: SavedPracticeState; // carry on from here instead of a fresh map
+}
+
+export interface SavedPracticeState {
+  state: SerializedMatchState;
+  checkpoint: SimulationCheckpoint;
+}
+
+export const SUSPENDED_MATCH_VERSION = 10;
+
+// A practice match parked in storage so it survives a reload
+export interface SuspendedMatch {
+  version: number;
+  savedAt: number; // epoch ms
+  setup: PracticeMatchSetup;
+}
+
+// Main thread -> simulation worker
+export type WorkerRequest =
+  | { type: 'start'; setup: PracticeMatchSetup }
+  | { type: 'input'; playerId: string; input: InputState }
+  | { type: 'stress'; bullets: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'frame' } // about to render: send what changed, once there is something
+  | { type: 'save' } // send back the match as it stands
+  | { type: 'finish' }; // stop recording and send it back
+
+// Simulation worker -> main thread
+export type WorkerReply =
+  | { type: 'patch'; patch: MatchPatch }
+  | { type: 'event'; event: MatchEvent }
+  | { type: 'saved'; saved: SavedPracticeState | null }
+  | { type: 'recording'; recording: MatchRecording | null };
+
+// Everything the worker and main-thread modes share: one simulation, its
+// recorder and the stress test top-up
+export class PracticeMatch {
+  readonly simulation: MatchSimulation;
+  private recorder: MatchRecorder | null = null;
+  private stressBullets: number = 0;
+
+  constructor(setup: PracticeMatchSetup, events: MatchEventBus) {
+    if (setup.resume) {
+      // A resumed match can no longer be replayed from its seed, so it is not recorded
+      this.simulation = new MatchSimulation(deserializeMatchState(setup.resume.state), setup.config, events);
+      this.simulation.restoreCheckpoint(setup.resume.checkpoint);
+    } else {
+      const ms = createPracticeMatch(setup.config, setup.role, setup.seed);
+      this.simulation = new MatchSimulation(ms, setup.config, events);
+      this.recorder = new MatchRecorder(this.simulation, setup.localPlayerId);
+    }
+  }
+
+  setStressBullets(bullets: number): void {
+    this.stressBullets = bullets;
+  }
+
+  // Returns ticks run
+  advance(deltaTime: number): number {
+    const missing = this.stressBullets - this.simulation.projectiles.length;
+    if (missing > 0) {
+      this.simulation.spawnStressProjectiles(missing);
+    }
+    return this.simulation.advance(deltaTime);
+  }
+
+  finishRecording(): MatchRecording | null {
+    return this.recorder?.isRecording() ? this.recorder.finish() : null;
+  }
+
+  // Null once the match is over: there is nothing left to resume
+  save(): SavedPracticeState | null {
+    if (this.simulation.state.phase === 'ended') return null;
+    return {
+      state: serializeMatchState(this.simulation.state),
+      checkpoint: this.simulation.createCheckpoint(),
+    };
+  }
+}
@@ -1,7 +1,34 @@
-import type { Vector2, Player, Team, Relic, DeliverySite, RiftlineRing, MatchPhase, Structure } from '../types';
+import type {
+  Vector2,
+  Player,
+  Team,
+  Relic,
+  DeliverySite,
+  RiftlineRing,
+  MatchPhase,
+  Structure,
+  Weapon,
+  WeaponRarity,
+  LootDrop,
+  InventoryItem,
+  ConsumableType,
+  PlayerEliminatedEvent,
+  ThrowableType,
+  Grenade,
+  SmokeCloud,
+  HealingField,
+  AbilityType,
+} from '../types';
 import { ROLE_STATS } from '../types';
 import { Camera } from './Camera';
 import { InputManager } from './InputManager';
+import { LOOT_PICKUP_RADIUS, countAmmo, countConsumables, countThrowables, itemName } from '../entities/Inventory';
+import { THROWABLE_CATALOG, THROWABLE_TYPES } from '../entities/Throwable';
+import { CONSUMABLE_CATALOG } from '../entities/Consumable';
+import { ROLE_ABILITIES, healChannelTime } from '../entities/Ability';
+import { REVIVE_RADIUS } from '../entities/Player';
+import { weaponName } from '../entities/Weapon';
+import type { TeamVision } from '../utils/visibility';
 import { vec2, vec2Length, vec2Sub, vec2Angle, pointInCircle } from '../utils/math';
 
 const COLORS = {
@@ -22,6 +49,7 @@ const COLORS = {
   healthBarBg: '#1a1a25',
   uiText: '#ffffff',
   uiTextDim: '#888899',
+  downed: '#ff3250',
   // Structure colors
   structureWall: '#4a4a5a',
   structureCrate: '#8b6914',
@@ -29,6 +57,33 @@ const COLORS = {
   structureBuilding: '#3a3a4a',
   structureBarrier: '#6a4a4a',
   structureBorder: '#666677',
+  ammoLoot: '#ffaa00',
+  throwableLoot: '#ff7744',
+  smoke: 'rgba(170, 170, 185, 0.92)',
+  ability: '#c77dff',
+  revealed: '#ff8c00',
+  healingField: 'rgba(0, 255, 136, 0.12)',
+  fog: 'rgba(0, 0, 0, 0.55)',
+};
+
+const RARITY_COLORS: Record<WeaponRarity, string> = {
+  common: '#cccccc',
+  uncommon: '#00ff88',
+  rare: '#4da6ff',
+};
+
+const THROWABLE_LABELS: Record<ThrowableType, string> = {
+  frag: 'FRAG',
+  smoke: 'SMOKE',
+  emp: 'EMP',
+};
+
+// Short names for the ability touch button
+const ABILITY_LABELS: Record<AbilityType, string> = {
+  barrier: 'WALL',
+  dash: 'DASH',
+  scan: 'SCAN',
+  healing_field: 'FIELD',
 };
 
 const TEAM_COLORS = [
@@ -42,6 +97,10 @@ export class Renderer {
   private camera: Camera;
   private inputManager: InputManager;
 
+  // Fog is drawn here first, with the visible areas cut out, then laid over
+  // the world in one go
+  private fogCanvas: HTMLCanvasElement = document.createElement('canvas');
+
   // Map bounds
   private mapWidth: number;
   private mapHeight: number;
@@ -85,11 +144,19 @@ export class Renderer {
     relics: Map<string, Relic>,
     sites: Map<string, DeliverySite>,
     structures: Map<string, Structure>,
+    loot: Map<string, LootDrop>,
+    grenades: Map<string, Grenade>,
+    smokes: Map<string, SmokeCloud>,
+    healingFields: Map<string, HealingField>,
+    vision: TeamVision | null,
     rings: RiftlineRing[],
     vaultPosition: Vector2 | null,
     vaultRadius: number,
     localPlayerId: string | null,
-    phase: MatchPhase
+    phase: MatchPhase,
+    seedCode: string,
+    killFeed: PlayerEliminatedEvent[],
+    localDeath: PlayerEliminatedEvent | null
   ): void {
     this.clear();
 
@@ -109,14 +176,19 @@ export class Renderer {
       this.renderVault(vaultPosition, vaultRadius);
     }
     this.renderStructures(structures);
+    this.renderLoot(loot);
+    this.renderHealingFields(healingFields);
     this.renderRelics(relics);
-    this.renderPlayers(players, teams, localPlayerId);
+    this.renderPlayers(players, teams, localPlayerId, vision);
+    this.renderGrenades(grenades);
+    this.renderSmokes(smokes);
+    if (vision) this.renderFog(vision.areas);
 
     this.ctx.restore();
 
     // Render UI elements (not affected by camera)
-    this.renderUI(players, teams, relics, localPlayerId, phase);
-    this.renderTouchControls();
+    this.renderUI(players, teams, relics, loot, localPlayerId, phase, seedCode, killFeed, localDeath, vision);
+    this.renderTouchControls(localPlayerId ? players.get(localPlayerId) ?? null : null);
   }
 
   private renderGrid(): void {
@@ -337,6 +409,28 @@ export class Renderer {
     }
   }
 
+  private renderLoot(loot: Map<string, LootDrop>): void {
+    const bounds = this.camera.getVisibleBounds();
+
+    for (const drop of loot.values()) {
+      const { x, y } = drop.position;
+      if (x < bounds.minX - 40 || x > bounds.maxX + 40 || y < bounds.minY - 40 || y > bounds.maxY + 40) continue;
+
+      const color = lootColor(drop.item);
+      this.ctx.fillStyle = 'rgba(26, 26, 37, 0.9)';
+      this.ctx.fillRect(x - 12, y - 8, 24, 16);
+      this.ctx.strokeStyle = color;
+      this.ctx.lineWidth = 2;
+      this.ctx.strokeRect(x - 12, y - 8, 24, 16);
+
+      this.ctx.fillStyle = color;
+      this.ctx.font = 'bold 9px sans-serif';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillText(lootLabel(drop.item), x, y);
+    }
+  }
+
   private renderRelics(relics: Map<string, Relic>): void {
     for (const relic of relics.values()) {
       if (relic.carriedByPlayerId || relic.isDelivered) continue;
@@ -368,8 +462,11 @@ export class Renderer {
   private renderPlayers(
     players: Map<string, Player>,
     teams: Map<string, Team>,
-    localPlayerId: string | null
+    localPlayerId: string | null,
+    vision: TeamVision | null
   ): void {
+    const localTeamId = localPlayerId ? players.get(localPlayerId)?.teamId : null;
+
     // Sort so local player renders on top
     const sortedPlayers = Array.from(players.values()).sort((a, b) => {
       if (a.id === localPlayerId) return 1;
@@ -380,6 +477,8 @@ export class Renderer {
     for (const player of sortedPlayers) {
       // Skip dead non-local players, but always render local player
       if (!player.isAlive && player.id !== localPlayerId) continue;
+      // Enemies the team cannot see stay hidden in the fog
+      if (vision && player.teamId !== localTeamId && !vision.visibleEnemies.has(player.id)) continue;
 
       const team = teams.get(player.teamId);
       const teamIndex = Array.from(teams.keys()).indexOf(player.teamId);
@@ -387,11 +486,13 @@ export class Renderer {
       const stats = ROLE_STATS[player.role];
       const isLocal = player.id === localPlayerId;
 
-      // Player body (circle)
+      // Player body (circle), faded while downed
+      this.ctx.globalAlpha = player.isDowned ? 0.5 : 1;
       this.ctx.fillStyle = color;
       this.ctx.beginPath();
       this.ctx.arc(player.position.x, player.position.y, stats.hitboxRadius, 0, Math.PI * 2);
       this.ctx.fill();
+      this.ctx.globalAlpha = 1;
 
       // Direction indicator
       this.ctx.strokeStyle = isLocal ? '#ffffff' : color;
@@ -440,15 +541,147 @@ export class Renderer {
         this.ctx.arc(player.position.x, player.position.y - stats.hitboxRadius - 25, 6, 0, Math.PI * 2);
         this.ctx.fill();
       }
+
+      if (player.isDowned) {
+        this.renderDownedMarker(player, stats.hitboxRadius);
+      }
+      if (player.revealTimer > 0 && player.revealedToTeamId === localTeamId) {
+        this.renderRevealedMarker(player, stats.hitboxRadius);
+      }
+    }
+  }
+
+  // Orange brackets around an enemy a scan or a sentinel's hit revealed
+  private renderRevealedMarker(player: Player, radius: number): void {
+    const { x, y } = player.position;
+    const size = radius + 10;
+    const corner = 8;
+
+    this.ctx.strokeStyle = COLORS.revealed;
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    for (const [sx, sy] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+      this.ctx.moveTo(x + sx * size, y + sy * (size - corner));
+      this.ctx.lineTo(x + sx * size, y + sy * size);
+      this.ctx.lineTo(x + sx * (size - corner), y + sy * size);
+    }
+    this.ctx.stroke();
+  }
+
+  // Red ring, bleed-out countdown and revive progress over a downed player
+  private renderDownedMarker(player: Player, radius: number): void {
+    const { x, y } = player.position;
+
+    this.ctx.strokeStyle = COLORS.downed;
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius + 6, 0, Math.PI * 2);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = COLORS.downed;
+    this.ctx.font = 'bold 11px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(`${Math.ceil(player.bleedOutTimer)}s`, x, y + radius + 8);
+
+    if (player.reviveProgress > 0) {
+      const barWidth = 40;
+      const barY = y + radius + 22;
+      this.ctx.fillStyle = COLORS.healthBarBg;
+      this.ctx.fillRect(x - barWidth / 2, barY, barWidth, 4);
+      this.ctx.fillStyle = COLORS.healthBar;
+      this.ctx.fillRect(x - barWidth / 2, barY, barWidth * player.reviveProgress, 4);
+    }
+  }
+
+  // Grenades with a shadow on the ground, lifted by their height in the arc
+  private renderGrenades(grenades: Map<string, Grenade>): void {
+    for (const grenade of grenades.values()) {
+      const { x, y } = grenade.position;
+
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, 5, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.fillStyle = grenade.throwableType === 'emp' ? COLORS.shieldBar : COLORS.throwableLoot;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y - grenade.height * 0.3, 6, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+  }
+
+  // Under players, so teammates healing inside stay visible
+  private renderHealingFields(fields: Map<string, HealingField>): void {
+    for (const field of fields.values()) {
+      this.ctx.globalAlpha = Math.min(1, field.timeLeft);
+      this.ctx.fillStyle = COLORS.healingField;
+      this.ctx.strokeStyle = COLORS.healthBar;
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.arc(field.position.x, field.position.y, field.radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.stroke();
+    }
+    this.ctx.globalAlpha = 1;
+  }
+
+  // Drawn over players so whoever is inside is hidden; thins out at the end
+  private renderSmokes(smokes: Map<string, SmokeCloud>): void {
+    for (const smoke of smokes.values()) {
+      this.ctx.globalAlpha = Math.min(1, smoke.timeLeft);
+      this.ctx.fillStyle = COLORS.smoke;
+      this.ctx.beginPath();
+      this.ctx.arc(smoke.position.x, smoke.position.y, smoke.radius, 0, Math.PI * 2);
+      this.ctx.fill();
     }
+    this.ctx.globalAlpha = 1;
+  }
+
+  // Shade everything outside the team's visibility polygons
+  private renderFog(areas: Vector2[][]): void {
+    if (this.fogCanvas.width !== this.canvas.width || this.fogCanvas.height !== this.canvas.height) {
+      this.fogCanvas.width = this.canvas.width;
+      this.fogCanvas.height = this.canvas.height;
+    }
+
+    const fog = this.fogCanvas.getContext('2d')!;
+    fog.setTransform(1, 0, 0, 1, 0, 0);
+    fog.clearRect(0, 0, this.fogCanvas.width, this.fogCanvas.height);
+    fog.fillStyle = COLORS.fog;
+    fog.fillRect(0, 0, this.fogCanvas.width, this.fogCanvas.height);
+
+    // Same transform as the world so the polygons line up
+    fog.setTransform(this.ctx.getTransform());
+    fog.globalCompositeOperation = 'destination-out';
+    fog.fillStyle = '#000000';
+    for (const area of areas) {
+      if (area.length < 3) continue;
+      fog.beginPath();
+      fog.moveTo(area[0].x, area[0].y);
+      for (let i = 1; i < area.length; i++) fog.lineTo(area[i].x, area[i].y);
+      fog.closePath();
+      fog.fill();
+    }
+    fog.globalCompositeOperation = 'source-over';
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.drawImage(this.fogCanvas, 0, 0);
+    this.ctx.restore();
   }
 
   private renderUI(
     players: Map<string, Player>,
     teams: Map<string, Team>,
     relics: Map<string, Relic>,
+    loot: Map<string, LootDrop>,
     localPlayerId: string | null,
-    phase: MatchPhase
+    phase: MatchPhase,
+    seedCode: string,
+    killFeed: PlayerEliminatedEvent[],
+    localDeath: PlayerEliminatedEvent | null,
+    vision: TeamVision | null
   ): void {
     const dpr = window.devicePixelRatio || 1;
     this.ctx.setTransform(1, 0, 0, 1, 0, 0);
@@ -470,6 +703,11 @@ export class Renderer {
     this.ctx.fillStyle = COLORS.relic;
     this.ctx.fillText(`RELICS: ${deliveredCount}/${relics.size}`, width / 2, 35);
 
+    // Match seed (share to replay the same layout)
+    this.ctx.font = '10px sans-serif';
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.fillText(`SEED ${seedCode}`, width / 2, 52);
+
     // Local player info (bottom center)
     if (localPlayerId) {
       const player = players.get(localPlayerId);
@@ -492,6 +730,29 @@ export class Renderer {
         this.ctx.fillStyle = '#00f7ff';
         this.ctx.font = '14px sans-serif';
         this.ctx.fillText(`ORBS: ${player.orbs}`, width / 2, height - 100);
+
+        if (player.weapon) {
+          this.renderAmmo(player, player.weapon, width, height);
+        }
+        if (player.isDowned) {
+          this.ctx.fillStyle = COLORS.downed;
+          this.ctx.font = 'bold 16px sans-serif';
+          this.ctx.textAlign = 'center';
+          this.ctx.textBaseline = 'bottom';
+          this.ctx.fillText(`DOWNED - BLEEDING OUT ${Math.ceil(player.bleedOutTimer)}s`, width / 2, height - 125);
+        } else if (player.isAlive) {
+          if (!this.renderReviveHint(player, players, width, height)) {
+            this.renderPickupHint(player, loot, width, height);
+          }
+          this.renderConsumables(player, height);
+          this.renderAbility(player, height);
+        }
+        if (player.healTimer > 0 && player.healingWith) {
+          this.renderHealProgress(player, player.healingWith, width, height);
+        }
+        if (!player.isAlive && player.respawnTimer > 0 && localDeath) {
+          this.renderKilledBy(player, localDeath, players, width, height);
+        }
       }
     }
 
@@ -508,7 +769,11 @@ export class Renderer {
       const color = TEAM_COLORS[teamIndex % TEAM_COLORS.length];
       const isLocalTeam = teamId === localTeamId;
 
-      const alivePlayers = team.playerIds.filter(pid => players.get(pid)?.isAlive).length;
+      // Under fog an enemy team's standing count is not known
+      const alivePlayers = vision && !isLocalTeam ? '?' : team.playerIds.filter(pid => {
+        const member = players.get(pid);
+        return member?.isAlive && !member.isDowned;
+      }).length;
 
       this.ctx.fillStyle = color;
       this.ctx.font = isLocalTeam ? 'bold 12px sans-serif' : '11px sans-serif';
@@ -524,6 +789,239 @@ export class Renderer {
 
     // Render zoom controls (top right)
     this.renderZoomControls(width);
+
+    this.renderKillFeed(killFeed, players, width);
+  }
+
+  // Recent eliminations (top right, below the zoom controls), newest on top
+  private renderKillFeed(killFeed: PlayerEliminatedEvent[], players: Map<string, Player>, width: number): void {
+    this.ctx.font = '12px sans-serif';
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'top';
+
+    let y = 120;
+    for (let i = killFeed.length - 1; i >= 0; i--) {
+      const event = killFeed[i];
+      const killer = attackerName(event.attackerId, players);
+      const victim = attackerName(event.victimId, players);
+      const weapon = event.weaponId ? ` [${killWeaponName(event.weaponId)}]` : '';
+      const assists = event.assistIds.length > 0 ? ` +${event.assistIds.length}` : '';
+
+      this.ctx.fillStyle = 'rgba(10, 10, 15, 0.6)';
+      const text = `${killer}${assists}${weapon} > ${victim}`;
+      const textWidth = this.ctx.measureText(text).width;
+      this.ctx.fillRect(width - 20 - textWidth - 6, y - 3, textWidth + 12, 18);
+
+      this.ctx.fillStyle = event.attackerId === 'riftline' ? COLORS.riftlineBorder : COLORS.uiText;
+      this.ctx.fillText(text, width - 20, y);
+      y += 20;
+    }
+  }
+
+  // Who took the local player out, with what and who helped, until respawn
+  private renderKilledBy(
+    player: Player,
+    death: PlayerEliminatedEvent,
+    players: Map<string, Player>,
+    width: number,
+    height: number
+  ): void {
+    const lines = death.damage.slice(0, 4);
+    const panelWidth = 260;
+    const panelHeight = 110 + lines.length * 16;
+    const x = width / 2 - panelWidth / 2;
+    const y = height / 2 - panelHeight / 2;
+
+    this.ctx.fillStyle = 'rgba(10, 10, 15, 0.85)';
+    this.ctx.fillRect(x, y, panelWidth, panelHeight);
+    this.ctx.strokeStyle = COLORS.downed;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(x, y, panelWidth, panelHeight);
+
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillStyle = COLORS.downed;
+    this.ctx.font = 'bold 12px sans-serif';
+    this.ctx.fillText('ELIMINATED BY', width / 2, y + 12);
+
+    this.ctx.fillStyle = COLORS.uiText;
+    this.ctx.font = 'bold 18px sans-serif';
+    this.ctx.fillText(attackerName(death.attackerId, players), width / 2, y + 28);
+
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.font = '12px sans-serif';
+    const weapon = death.weaponId ? killWeaponName(death.weaponId) : 'the riftline';
+    const assists = death.assistIds.map((id) => attackerName(id, players)).join(', ');
+    this.ctx.fillText(assists ? `${weapon} - assisted by ${assists}` : weapon, width / 2, y + 50);
+
+    // Damage taken this life, biggest share first
+    this.ctx.font = '11px sans-serif';
+    let lineY = y + 72;
+    for (const share of lines) {
+      this.ctx.textAlign = 'left';
+      this.ctx.fillText(attackerName(share.attackerId, players), x + 20, lineY);
+      this.ctx.textAlign = 'right';
+      this.ctx.fillText(`${share.amount} dmg`, x + panelWidth - 20, lineY);
+      lineY += 16;
+    }
+
+    this.ctx.textAlign = 'center';
+    this.ctx.fillStyle = COLORS.uiText;
+    this.ctx.font = 'bold 13px sans-serif';
+    this.ctx.fillText(`RESPAWN IN ${Math.ceil(player.respawnTimer)}s`, width / 2, y + panelHeight - 26);
+  }
+
+  // Weapon, magazine / reserve and reload progress (bottom right)
+  private renderAmmo(player: Player, weapon: Weapon, width: number, height: number): void {
+    const x = width - 20;
+    const barWidth = 120;
+
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillStyle = RARITY_COLORS[weapon.rarity];
+    this.ctx.font = '12px sans-serif';
+    this.ctx.fillText(weapon.name.toUpperCase(), x, height - 86);
+
+    const lowAmmo = player.ammo <= weapon.stats.magazineSize / 4;
+    this.ctx.fillStyle = player.ammo === 0 ? '#ff4466' : lowAmmo ? '#ffaa00' : COLORS.uiText;
+    this.ctx.font = 'bold 20px sans-serif';
+    const reserve = countAmmo(player.inventory, weapon.ammoType);
+    this.ctx.fillText(`${player.ammo} / ${reserve}`, x, height - 62);
+
+    if (player.reloadTimer > 0) {
+      const progress = 1 - player.reloadTimer / weapon.stats.reloadTime;
+      this.ctx.fillStyle = COLORS.healthBarBg;
+      this.ctx.fillRect(x - barWidth, height - 56, barWidth, 4);
+      this.ctx.fillStyle = '#ffaa00';
+      this.ctx.fillRect(x - barWidth, height - 56, barWidth * progress, 4);
+
+      this.ctx.fillStyle = COLORS.uiTextDim;
+      this.ctx.font = '10px sans-serif';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText('RELOADING', x, height - 48);
+    } else if (player.ammo === 0 && reserve === 0) {
+      this.ctx.fillStyle = '#ff4466';
+      this.ctx.font = '10px sans-serif';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText('NO AMMO', x, height - 56);
+    }
+  }
+
+  // Medkits and shield cells carried (bottom left, mirroring the ammo readout)
+  private renderConsumables(player: Player, height: number): void {
+    const x = 20;
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'bottom';
+
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.font = '12px sans-serif';
+    this.ctx.fillText('[H] HEAL', x, height - 86);
+
+    this.ctx.font = 'bold 16px sans-serif';
+    this.ctx.fillStyle = COLORS.healthBar;
+    this.ctx.fillText(`+${countConsumables(player.inventory, 'medkit')}`, x, height - 62);
+    this.ctx.fillStyle = COLORS.shieldBar;
+    this.ctx.fillText(`◆${countConsumables(player.inventory, 'shield_cell')}`, x + 50, height - 62);
+
+    // Throwables, the selected one highlighted
+    this.ctx.font = '12px sans-serif';
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.fillText('[G] THROW  [T] SWITCH', x, height - 130);
+
+    const selected = this.inputManager.getSelectedThrowable();
+    let labelX = x;
+    for (const type of THROWABLE_TYPES) {
+      const label = `${THROWABLE_LABELS[type]} ${countThrowables(player.inventory, type)}`;
+      this.ctx.font = type === selected ? 'bold 13px sans-serif' : '13px sans-serif';
+      this.ctx.fillStyle = type === selected ? COLORS.throwableLoot : COLORS.uiTextDim;
+      this.ctx.fillText(label, labelX, height - 110);
+      labelX += this.ctx.measureText(label).width + 12;
+    }
+  }
+
+  // Role ability and its cooldown (bottom left, above the throwables)
+  private renderAbility(player: Player, height: number): void {
+    const { abilityName } = ROLE_ABILITIES[player.role];
+    const ready = player.abilityCooldown <= 0;
+    const x = 20;
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'bottom';
+
+    this.ctx.font = '12px sans-serif';
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.fillText('[Q] ABILITY', x, height - 174);
+
+    this.ctx.font = 'bold 14px sans-serif';
+    this.ctx.fillStyle = ready ? COLORS.ability : COLORS.uiTextDim;
+    const status = ready ? 'READY' : `${Math.ceil(player.abilityCooldown)}s`;
+    this.ctx.fillText(`${abilityName.toUpperCase()} ${status}`, x, height - 154);
+  }
+
+  // Channel progress ring above the pickup hint
+  private renderHealProgress(player: Player, type: ConsumableType, width: number, height: number): void {
+    const consumable = CONSUMABLE_CATALOG[type];
+    const progress = 1 - player.healTimer / healChannelTime(player.role, type);
+    const centerX = width / 2;
+    const centerY = height - 170;
+    const radius = 18;
+
+    this.ctx.strokeStyle = COLORS.healthBarBg;
+    this.ctx.lineWidth = 5;
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+
+    this.ctx.strokeStyle = consumable.health > 0 ? COLORS.healthBar : COLORS.shieldBar;
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = COLORS.uiText;
+    this.ctx.font = 'bold 10px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(player.healTimer.toFixed(1), centerX, centerY);
+
+    this.ctx.fillStyle = COLORS.uiTextDim;
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(consumable.name.toUpperCase(), centerX, centerY + radius + 4);
+  }
+
+  // What [E] would pick up, above the health readout
+  private renderPickupHint(player: Player, loot: Map<string, LootDrop>, width: number, height: number): void {
+    let nearest: LootDrop | null = null;
+    let nearestDist = LOOT_PICKUP_RADIUS;
+    for (const drop of loot.values()) {
+      const dist = vec2Length(vec2Sub(drop.position, player.position));
+      if (dist <= nearestDist) {
+        nearest = drop;
+        nearestDist = dist;
+      }
+    }
+    if (!nearest) return;
+
+    this.ctx.fillStyle = lootColor(nearest.item);
+    this.ctx.font = 'bold 13px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillText(`[E] PICK UP ${itemName(nearest.item).toUpperCase()}`, width / 2, height - 125);
+  }
+
+  // Shown instead of the pickup hint when a downed teammate is in reach;
+  // returns whether it was drawn
+  private renderReviveHint(player: Player, players: Map<string, Player>, width: number, height: number): boolean {
+    for (const other of players.values()) {
+      if (other.id === player.id || other.teamId !== player.teamId || !other.isAlive || !other.isDowned) continue;
+      if (vec2Length(vec2Sub(other.position, player.position)) > REVIVE_RADIUS) continue;
+
+      this.ctx.fillStyle = COLORS.healthBar;
+      this.ctx.font = 'bold 13px sans-serif';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'bottom';
+      this.ctx.fillText('[E] HOLD TO REVIVE', width / 2, height - 125);
+      return true;
+    }
+    return false;
   }
 
   private renderZoomControls(width: number): void {
@@ -563,7 +1061,7 @@ export class Renderer {
     this.ctx.fillText(`${zoomLevel}%`, width - buttonMargin - buttonSize - 5, buttonY + buttonSize + 12);
   }
 
-  private renderTouchControls(): void {
+  private renderTouchControls(localPlayer: Player | null): void {
     const dpr = window.devicePixelRatio || 1;
     const width = this.canvas.width / dpr;
     const height = this.canvas.height / dpr;
@@ -611,6 +1109,26 @@ export class Renderer {
       this.ctx.fill();
     }
 
+    // Held action buttons and the backpack toggle
+    this.renderTouchButton(this.inputManager.getReloadButton(), 'RELOAD', input.reloading ? 'rgba(255, 170, 0, 0.4)' : null);
+    this.renderTouchButton(this.inputManager.getHealButton(), 'HEAL', input.healing ? 'rgba(0, 255, 136, 0.4)' : null);
+    this.renderTouchButton(this.inputManager.getInteractButton(), 'USE', input.interacting ? 'rgba(0, 247, 255, 0.4)' : null);
+    this.renderTouchButton(
+      this.inputManager.getThrowButton(),
+      THROWABLE_LABELS[this.inputManager.getSelectedThrowable()],
+      input.throwing ? 'rgba(255, 119, 68, 0.4)' : null
+    );
+    if (localPlayer) {
+      // Counts down on the button while the ability cools down
+      const cooldown = localPlayer.abilityCooldown;
+      this.renderTouchButton(
+        this.inputManager.getAbilityButton(),
+        cooldown > 0 ? `${Math.ceil(cooldown)}s` : ABILITY_LABELS[ROLE_ABILITIES[localPlayer.role].ability],
+        input.usingAbility ? 'rgba(199, 125, 255, 0.4)' : null
+      );
+    }
+    this.renderTouchButton(this.inputManager.getBagButton(), 'BAG', null);
+
     // Hint text when no touches
     if (!moveCenter && !aimCenter) {
       this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
@@ -620,4 +1138,69 @@ export class Renderer {
       this.ctx.fillText('Touch left to move, right to aim & fire', width / 2, height - 30);
     }
   }
+
+  // Round touch button, filled with `activeFill` while held
+  private renderTouchButton(
+    button: { center: Vector2; radius: number } | null,
+    label: string,
+    activeFill: string | null
+  ): void {
+    if (!button) return;
+    const { center, radius } = button;
+
+    this.ctx.fillStyle = activeFill ?? 'rgba(26, 26, 37, 0.6)';
+    this.ctx.beginPath();
+    this.ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    this.ctx.lineWidth = 2;
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.font = 'bold 11px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(label, center.x, center.y);
+  }
+}
+
+function lootColor(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'weapon':
+      return RARITY_COLORS[item.weapon.rarity];
+    case 'ammo':
+      return COLORS.ammoLoot;
+    case 'consumable':
+      return item.consumableType === 'medkit' ? COLORS.healthBar : COLORS.shieldBar;
+    case 'throwable':
+      return COLORS.throwableLoot;
+    case 'relic':
+      return COLORS.relic;
+  }
+}
+
+function lootLabel(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'weapon':
+      return 'GUN';
+    case 'ammo':
+      return 'AMMO';
+    case 'consumable':
+      return item.consumableType === 'medkit' ? 'MED' : 'CELL';
+    case 'throwable':
+      return THROWABLE_LABELS[item.throwableType];
+    case 'relic':
+      return 'RELIC';
+  }
+}
+
+function attackerName(id: string, players: Map<string, Player>): string {
+  if (id === 'riftline') return 'Riftline';
+  return players.get(id)?.name ?? id;
+}
+
+// Weapon or throwable named in a kill event
+function killWeaponName(id: string): string {
+  return id in THROWABLE_CATALOG ? THROWABLE_CATALOG[id as ThrowableType].name : weaponName(id);
 }
@@ -0,0 +1,105 @@
+import { MatchEventBus } from './MatchEvents';
+import { SIM_TICK_RATE } from './MatchSimulation';
+import { MatchPatcher } from './MatchPatch';
+import { PracticeMatch, type WorkerRequest, type WorkerReply } from './PracticeMatch';
+
+// Worker side of WorkerMatch. Ticks the practice match on its own timer, so
+// the simulation keeps real time however long the main thread's frames take.
+// The main thread asks for each frame's state; it gets a patch of what
+// changed, at most one per request, so slow frames never queue up states.
+
+let match: PracticeMatch | null = null;
+let patcher: MatchPatcher | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let lastTime = 0;
+let frameWanted = false;
+let patchedTick = -1; // tick of the last patch sent
+
+function post(reply: WorkerReply): void {
+  self.postMessage(reply);
+}
+
+function start(request: Extract<WorkerRequest, { type: 'start' }>): void {
+  const events = new MatchEventBus();
+  events.onAny((event) => post({ type: 'event', event }));
+
+  match = new PracticeMatch(request.setup, events);
+  patcher = new MatchPatcher();
+  frameWanted = true;
+  postPatch();
+
+  resume();
+}
+
+// Sends a patch if the main thread wants one and the match has moved on
+function postPatch(): void {
+  if (!match || !patcher || !frameWanted) return;
+  const { simulation } = match;
+  if (simulation.getTick() === patchedTick) return;
+
+  patchedTick = simulation.getTick();
+  frameWanted = false;
+  post({
+    type: 'patch',
+    patch: patcher.createPatch(patchedTick, simulation.state, simulation.projectiles, simulation.orbs),
+  });
+}
+
+// While hidden the page may be frozen anyway; stopping the timer means the
+// match picks up where it left off rather than catching up on lost time
+function pause(): void {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+function resume(): void {
+  lastTime = performance.now();
+  if (timer === null) {
+    timer = setInterval(tick, 1000 / SIM_TICK_RATE);
+  }
+}
+
+function tick(): void {
+  if (!match) return;
+
+  const now = performance.now();
+  const deltaTime = (now - lastTime) / 1000;
+  lastTime = now;
+
+  if (match.advance(deltaTime) > 0) {
+    postPatch();
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start':
+      start(request);
+      break;
+    case 'input':
+      match?.simulation.setInput(request.playerId, request.input);
+      break;
+    case 'stress':
+      match?.setStressBullets(request.bullets);
+      break;
+    case 'pause':
+      pause();
+      break;
+    case 'resume':
+      if (match) resume();
+      break;
+    case 'frame':
+      frameWanted = true;
+      postPatch();
+      break;
+    case 'save':
+      post({ type: 'saved', saved: match ? match.save() : null });
+      break;
+    case 'finish':
+      post({ type: 'recording', recording: match ? match.finishRecording() : null });
+      break;
+  }
+};
@@ -0,0 +1,101 @@
+import type { AbilityType, ConsumableType, Player, Role, Structure } from '../types';
+import { ROLE_STATS } from '../types';
+import { CONSUMABLE_CATALOG } from './Consumable';
+import { vec2Add, vec2FromAngle } from '../utils/math';
+
+export interface RoleAbilities {
+  ability: AbilityType;
+  abilityName: string;
+  abilityDescription: string; // one line for the lobby
+  cooldown: number; // seconds
+  passiveName: string;
+  passiveDescription: string;
+}
+
+export const ROLE_ABILITIES: Record<Role, RoleAbilities> = {
+  vanguard: {
+    ability: 'barrier',
+    abilityName: 'Bulwark',
+    abilityDescription: 'Deploy a cover barrier in front of you',
+    cooldown: 20,
+    passiveName: 'Fortified',
+    passiveDescription: 'Take 25% less damage from grenades',
+  },
+  skirmisher: {
+    ability: 'dash',
+    abilityName: 'Dash',
+    abilityDescription: 'Burst a short distance the way you are moving',
+    cooldown: 8,
+    passiveName: 'Fleet',
+    passiveDescription: 'Heal without slowing down',
+  },
+  sentinel: {
+    ability: 'scan',
+    abilityName: 'Scan Pulse',
+    abilityDescription: 'Reveal enemies within awareness range to your team',
+    cooldown: 25,
+    passiveName: 'Spotter',
+    passiveDescription: 'Enemies you hit are revealed to your team',
+  },
+  catalyst: {
+    ability: 'healing_field',
+    abilityName: 'Healing Field',
+    abilityDescription: 'Leave a field that heals teammates inside it',
+    cooldown: 30,
+    passiveName: 'Field Medic',
+    passiveDescription: 'Medkits and shield cells apply 25% faster',
+  },
+};
+
+// Bulwark: a destructible barrier placed across the aim, gone after a while
+export const BARRIER_WIDTH = 120;
+export const BARRIER_DEPTH = 16;
+export const BARRIER_HEALTH = 400;
+export const BARRIER_DURATION = 10; // seconds
+const BARRIER_GAP = 12; // between the vanguard's hitbox and the barrier
+
+// Dash: a fixed burst of speed, ignoring move input until it ends
+export const DASH_SPEED = 900;
+export const DASH_DURATION = 0.18; // seconds
+
+// Scan Pulse and Spotter: seconds enemies stay revealed
+export const SCAN_REVEAL_TIME = 5;
+export const SPOTTER_REVEAL_TIME = 3;
+
+// Healing Field
+export const HEALING_FIELD_RADIUS = 120;
+export const HEALING_FIELD_DURATION = 6; // seconds
+export const HEALING_FIELD_RATE = 12; // health per second
+
+// Fortified: grenade damage multiplier for vanguards
+export const FORTIFIED_BLAST_DAMAGE = 0.75;
+
+// Field Medic: consumable channel time multiplier for catalysts
+const FIELD_MEDIC_CHANNEL_TIME = 0.75;
+
+// Seconds to channel a consumable, after passives
+export function healChannelTime(role: Role, type: ConsumableType): number {
+  const channelTime = CONSUMABLE_CATALOG[type].channelTime;
+  return role === 'catalyst' ? channelTime * FIELD_MEDIC_CHANNEL_TIME : channelTime;
+}
+
+// A fresh life: ability ready, not dashing or revealed
+export function abilityReady(): Pick<Player, 'abilityCooldown' | 'dashTimer' | 'revealTimer' | 'revealedToTeamId'> {
+  return { abilityCooldown: 0, dashTimer: 0, revealTimer: 0, revealedToTeamId: null };
+}
+
+// The vanguard's barrier, square across their facing just beyond their hitbox
+export function createBarrier(id: string, player: Player): Structure {
+  const distance = ROLE_STATS[player.role].hitboxRadius + BARRIER_GAP + BARRIER_DEPTH / 2;
+  return {
+    id,
+    type: 'barrier',
+    position: vec2Add(player.position, vec2FromAngle(player.rotation, distance)),
+    width: BARRIER_DEPTH,
+    height: BARRIER_WIDTH,
+    rotation: player.rotation,
+    health: BARRIER_HEALTH,
+    maxHealth: BARRIER_HEALTH,
+    isDestructible: true,
+  };
+}
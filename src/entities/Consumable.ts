@@ -0,0 +1,17 @@
+import type { ConsumableType } from '../types';
+
+export interface ConsumableDefinition {
+  name: string;
+  channelTime: number; // seconds
+  health: number; // restored on completion
+  shield: number;
+  stackSize: number; // per backpack cell
+}
+
+export const CONSUMABLE_CATALOG: Record<ConsumableType, ConsumableDefinition> = {
+  medkit: { name: 'Medkit', channelTime: 4, health: 75, shield: 0, stackSize: 3 },
+  shield_cell: { name: 'Shield Cell', channelTime: 2.5, health: 0, shield: 50, stackSize: 5 },
+};
+
+// Movement speed multiplier while channeling
+export const HEALING_MOVE_SPEED = 0.5;
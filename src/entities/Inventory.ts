@@ -0,0 +1,263 @@
+import type {
+  AmmoType,
+  ConsumableType,
+  Inventory,
+  InventoryItem,
+  InventorySlot,
+  Player,
+  ThrowableType,
+  Weapon,
+} from '../types';
+import { RESERVE_MAGAZINES } from './Weapon';
+import { CONSUMABLE_CATALOG } from './Consumable';
+import { THROWABLE_CATALOG } from './Throwable';
+
+// Backpack rules shared by the simulation (which owns every change) and the
+// inventory overlay (which previews moves before sending them).
+
+export const BACKPACK_WIDTH = 6;
+export const BACKPACK_HEIGHT = 4;
+
+// Rounds per backpack cell
+export const AMMO_STACK_SIZE: Record<AmmoType, number> = {
+  light: 60,
+  medium: 60,
+  heavy: 20,
+  shells: 24,
+};
+
+// How close a player must be to pick up loot
+export const LOOT_PICKUP_RADIUS = 60;
+
+const RELIC_ITEM_SIZE = 2; // relics take a 2x2 block
+
+export function createInventory(): Inventory {
+  return { width: BACKPACK_WIDTH, height: BACKPACK_HEIGHT, items: [] };
+}
+
+export function createWeaponItem(id: string, weapon: Weapon, loadedAmmo: number): InventoryItem {
+  return { id, kind: 'weapon', weapon, loadedAmmo, ...unplaced(weapon.gridSize.width, weapon.gridSize.height) };
+}
+
+export function createAmmoItem(id: string, ammoType: AmmoType, quantity: number): InventoryItem {
+  return { id, kind: 'ammo', ammoType, quantity, ...unplaced(1, 1) };
+}
+
+export function createConsumableItem(id: string, consumableType: ConsumableType, quantity: number): InventoryItem {
+  return { id, kind: 'consumable', consumableType, quantity, ...unplaced(1, 1) };
+}
+
+export function createThrowableItem(id: string, throwableType: ThrowableType, quantity: number): InventoryItem {
+  return { id, kind: 'throwable', throwableType, quantity, ...unplaced(1, 1) };
+}
+
+export function createRelicItem(id: string, relicId: string): InventoryItem {
+  return { id, kind: 'relic', relicId, ...unplaced(RELIC_ITEM_SIZE, RELIC_ITEM_SIZE) };
+}
+
+function unplaced(width: number, height: number): Pick<InventoryItem, 'width' | 'height' | 'x' | 'y' | 'rotated'> {
+  return { width, height, x: 0, y: 0, rotated: false };
+}
+
+export function itemName(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'weapon':
+      return item.weapon.name;
+    case 'ammo':
+      return `${item.ammoType} ammo`;
+    case 'consumable':
+      return CONSUMABLE_CATALOG[item.consumableType].name;
+    case 'throwable':
+      return THROWABLE_CATALOG[item.throwableType].name;
+    case 'relic':
+      return 'Relic';
+  }
+}
+
+// Width and height as placed
+export function footprint(item: Pick<InventoryItem, 'width' | 'height'>, rotated: boolean): { width: number; height: number } {
+  return rotated ? { width: item.height, height: item.width } : { width: item.width, height: item.height };
+}
+
+// Whether a width x height block fits at (x, y), optionally ignoring one item
+// (the one being moved)
+export function canPlace(
+  inventory: Inventory,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  ignoreId: string | null = null
+): boolean {
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return false;
+  if (x < 0 || y < 0 || x + width > inventory.width || y + height > inventory.height) return false;
+
+  for (const other of inventory.items) {
+    if (other.id === ignoreId) continue;
+    const size = footprint(other, other.rotated);
+    if (x < other.x + size.width && other.x < x + width && y < other.y + size.height && other.y < y + height) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// First free slot, scanning rows top to bottom, upright before rotated
+export function findSlot(inventory: Inventory, item: Pick<InventoryItem, 'width' | 'height'>): InventorySlot | null {
+  for (const rotated of [false, true]) {
+    if (rotated && item.width === item.height) break;
+    const { width, height } = footprint(item, rotated);
+    for (let y = 0; y + height <= inventory.height; y++) {
+      for (let x = 0; x + width <= inventory.width; x++) {
+        if (canPlace(inventory, width, height, x, y)) return { x, y, rotated };
+      }
+    }
+  }
+  return null;
+}
+
+// Ammo, consumables and throwables stack: one cell holds up to stackSize()
+// of a kind
+type StackItem = Extract<InventoryItem, { quantity: number }>;
+
+function isStack(item: InventoryItem): item is StackItem {
+  return item.kind === 'ammo' || item.kind === 'consumable' || item.kind === 'throwable';
+}
+
+export function stackSize(item: StackItem): number {
+  switch (item.kind) {
+    case 'ammo':
+      return AMMO_STACK_SIZE[item.ammoType];
+    case 'consumable':
+      return CONSUMABLE_CATALOG[item.consumableType].stackSize;
+    case 'throwable':
+      return THROWABLE_CATALOG[item.throwableType].stackSize;
+  }
+}
+
+function sameStack(a: StackItem, b: StackItem): boolean {
+  switch (a.kind) {
+    case 'ammo':
+      return b.kind === 'ammo' && b.ammoType === a.ammoType;
+    case 'consumable':
+      return b.kind === 'consumable' && b.consumableType === a.consumableType;
+    case 'throwable':
+      return b.kind === 'throwable' && b.throwableType === a.throwableType;
+  }
+}
+
+// Put an item into the backpack at `slot`, or the first free slot. Stacks top
+// up existing stacks of their kind first and only need a cell for what is
+// left. Returns false if it did not fit; a partly merged stack keeps what
+// did not.
+export function addItem(inventory: Inventory, item: InventoryItem, slot: InventorySlot | null = null): boolean {
+  if (isStack(item)) {
+    for (const stack of inventory.items) {
+      if (!isStack(stack) || !sameStack(stack, item)) continue;
+      const moved = Math.min(stackSize(stack) - stack.quantity, item.quantity);
+      stack.quantity += moved;
+      item.quantity -= moved;
+    }
+    if (item.quantity <= 0) return true;
+  }
+
+  const target = slot ?? findSlot(inventory, item);
+  if (!target) return false;
+
+  const { width, height } = footprint(item, target.rotated);
+  if (!canPlace(inventory, width, height, target.x, target.y)) return false;
+
+  item.x = target.x;
+  item.y = target.y;
+  item.rotated = target.rotated;
+  inventory.items.push(item);
+  return true;
+}
+
+export function moveItem(inventory: Inventory, itemId: string, slot: InventorySlot): boolean {
+  const item = inventory.items.find((i) => i.id === itemId);
+  if (!item) return false;
+
+  const { width, height } = footprint(item, slot.rotated);
+  if (!canPlace(inventory, width, height, slot.x, slot.y, item.id)) return false;
+
+  item.x = slot.x;
+  item.y = slot.y;
+  item.rotated = slot.rotated;
+  return true;
+}
+
+export function removeItem(inventory: Inventory, itemId: string): InventoryItem | null {
+  const index = inventory.items.findIndex((i) => i.id === itemId);
+  if (index < 0) return null;
+  return inventory.items.splice(index, 1)[0];
+}
+
+export function countAmmo(inventory: Inventory, ammoType: AmmoType): number {
+  return countStacks(inventory, (item) => item.kind === 'ammo' && item.ammoType === ammoType);
+}
+
+// Take up to `count` rounds; returns rounds taken
+export function takeAmmo(inventory: Inventory, ammoType: AmmoType, count: number): number {
+  return takeFromStacks(inventory, (item) => item.kind === 'ammo' && item.ammoType === ammoType, count);
+}
+
+export function countConsumables(inventory: Inventory, consumableType: ConsumableType): number {
+  return countStacks(inventory, (item) => item.kind === 'consumable' && item.consumableType === consumableType);
+}
+
+// Use up one consumable; false if there was none
+export function takeConsumable(inventory: Inventory, consumableType: ConsumableType): boolean {
+  return takeFromStacks(inventory, (item) => item.kind === 'consumable' && item.consumableType === consumableType, 1) === 1;
+}
+
+export function countThrowables(inventory: Inventory, throwableType: ThrowableType): number {
+  return countStacks(inventory, (item) => item.kind === 'throwable' && item.throwableType === throwableType);
+}
+
+// Use up one throwable; false if there was none
+export function takeThrowable(inventory: Inventory, throwableType: ThrowableType): boolean {
+  return takeFromStacks(inventory, (item) => item.kind === 'throwable' && item.throwableType === throwableType, 1) === 1;
+}
+
+function countStacks(inventory: Inventory, matches: (item: StackItem) => boolean): number {
+  let total = 0;
+  for (const item of inventory.items) {
+    if (isStack(item) && matches(item)) total += item.quantity;
+  }
+  return total;
+}
+
+// Empties matching stacks from the end, removing the ones used up
+function takeFromStacks(inventory: Inventory, matches: (item: StackItem) => boolean, count: number): number {
+  let taken = 0;
+  for (let i = inventory.items.length - 1; i >= 0 && taken < count; i--) {
+    const item = inventory.items[i];
+    if (!isStack(item) || !matches(item)) continue;
+
+    const used = Math.min(item.quantity, count - taken);
+    item.quantity -= used;
+    taken += used;
+    if (item.quantity === 0) inventory.items.splice(i, 1);
+  }
+  return taken;
+}
+
+// Weapon in hand with a full magazine, and RESERVE_MAGAZINES of spare rounds
+// in an otherwise empty backpack. `nextId` names the ammo stacks.
+export function startingLoadout(
+  weapon: Weapon,
+  nextId: () => string
+): Pick<Player, 'weapon' | 'ammo' | 'reloadTimer' | 'healTimer' | 'healingWith' | 'inventory'> {
+  const inventory = createInventory();
+  const stackSize = AMMO_STACK_SIZE[weapon.ammoType];
+  let reserve = weapon.stats.magazineSize * RESERVE_MAGAZINES;
+
+  while (reserve > 0) {
+    const quantity = Math.min(reserve, stackSize);
+    addItem(inventory, createAmmoItem(nextId(), weapon.ammoType, quantity));
+    reserve -= quantity;
+  }
+
+  return { weapon, ammo: weapon.stats.magazineSize, reloadTimer: 0, healTimer: 0, healingWith: null, inventory };
+}
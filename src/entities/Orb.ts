@@ -1,42 +1,51 @@
 import type { Vector2 } from '../types';
-import { vec2Distance, randomRange } from '../utils/math';
+import { vec2Distance } from '../utils/math';
+import type { Rng } from '../utils/rng';
 
 export interface Orb {
   id: string;
   position: Vector2;
   value: number; // respawn time reduction value
-  createdAt: number;
+  createdAt: number; // match time in seconds
   lifetime: number; // seconds before despawn
 }
 
-let orbIdCounter = 0;
+export const ORB_COLLECT_RADIUS = 30;
 
-export function createOrb(position: Vector2, value: number = 1.5): Orb {
+// Blank orb for pools; initOrb fills in every field
+export function allocateOrb(): Orb {
   return {
-    id: `orb_${orbIdCounter++}`,
-    position: {
-      x: position.x + randomRange(-30, 30),
-      y: position.y + randomRange(-30, 30),
-    },
-    value,
-    createdAt: performance.now(),
-    lifetime: 60, // 60 seconds
+    id: '',
+    position: { x: 0, y: 0 },
+    value: 0,
+    createdAt: 0,
+    lifetime: 0,
   };
 }
 
-export function createOrbsFromElimination(position: Vector2, count: number): Orb[] {
-  const orbs: Orb[] = [];
-  for (let i = 0; i < count; i++) {
-    orbs.push(createOrb(position, 1.5));
-  }
-  return orbs;
+// (Re)initialise an orb in place, scattered around `position`
+export function initOrb(
+  orb: Orb,
+  id: string,
+  position: Vector2,
+  createdAt: number,
+  rng: Rng,
+  value: number = 1.5
+): Orb {
+  orb.id = id;
+  orb.position.x = position.x + rng.range(-30, 30);
+  orb.position.y = position.y + rng.range(-30, 30);
+  orb.value = value;
+  orb.createdAt = createdAt;
+  orb.lifetime = 60; // 60 seconds
+  return orb;
 }
 
-export function isOrbExpired(orb: Orb): boolean {
-  const elapsed = (performance.now() - orb.createdAt) / 1000;
+export function isOrbExpired(orb: Orb, now: number): boolean {
+  const elapsed = now - orb.createdAt;
   return elapsed >= orb.lifetime;
 }
 
-export function canCollectOrb(orb: Orb, playerPosition: Vector2, collectRadius: number = 30): boolean {
+export function canCollectOrb(orb: Orb, playerPosition: Vector2, collectRadius: number = ORB_COLLECT_RADIUS): boolean {
   return vec2Distance(orb.position, playerPosition) <= collectRadius;
 }
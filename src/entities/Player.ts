@@ -0,0 +1,75 @@
+import type { Player, InputState, Structure, GameConfig } from '../types';
+import { ROLE_STATS } from '../types';
+import { HEALING_MOVE_SPEED } from './Consumable';
+import { vec2Add, vec2Scale, vec2Normalize, vec2Length, vec2Angle, clamp } from '../utils/math';
+import { resolveCircleStructureCollisions } from '../utils/collision';
+import type { SpatialHash } from '../utils/spatialHash';
+
+// Movement rules shared by the authoritative simulation and client-side
+// prediction, so both sides move a player identically for the same input.
+
+// Downed players crawl at this fraction of their speed
+export const DOWNED_MOVE_SPEED = 0.25;
+
+// How close a teammate must stay to revive a downed player
+export const REVIVE_RADIUS = 60;
+
+export function applyMovementInput(
+  player: Player,
+  input: InputState,
+  structures: SpatialHash<Structure>,
+  config: GameConfig,
+  deltaTime: number
+): void {
+  const stats = ROLE_STATS[player.role];
+
+  let speed = stats.moveSpeed;
+  if (player.carryingRelic) {
+    speed *= stats.relicCarrySpeed;
+  }
+  // Skirmishers (Fleet) heal at full speed
+  if (player.healTimer > 0 && player.role !== 'skirmisher') {
+    speed *= HEALING_MOVE_SPEED;
+  }
+  if (player.isDowned) {
+    speed *= DOWNED_MOVE_SPEED;
+  }
+
+  if (player.dashTimer > 0) {
+    // A dash keeps the velocity it started with, whatever the input
+    player.dashTimer = Math.max(0, player.dashTimer - deltaTime);
+  } else if (vec2Length(input.moveDirection) > 0) {
+    const moveDir = vec2Normalize(input.moveDirection);
+    player.velocity = vec2Scale(moveDir, speed);
+  } else {
+    player.velocity = vec2Scale(player.velocity, 0.85); // Friction
+  }
+
+  movePlayer(player, structures, config, deltaTime);
+
+  // Rotation follows aim; zero aim keeps the last facing
+  if (vec2Length(input.aimDirection) > 0) {
+    player.rotation = vec2Angle(input.aimDirection);
+  }
+}
+
+export function movePlayer(
+  player: Player,
+  structures: SpatialHash<Structure>,
+  config: GameConfig,
+  deltaTime: number
+): void {
+  const stats = ROLE_STATS[player.role];
+
+  // Calculate new position
+  const newPos = vec2Add(player.position, vec2Scale(player.velocity, deltaTime));
+
+  // Check structure collisions
+  resolveCircleStructureCollisions(structures.query(newPos, stats.hitboxRadius), newPos, stats.hitboxRadius);
+
+  player.position = newPos;
+
+  // Clamp to map bounds
+  player.position.x = clamp(player.position.x, stats.hitboxRadius, config.mapWidth - stats.hitboxRadius);
+  player.position.y = clamp(player.position.y, stats.hitboxRadius, config.mapHeight - stats.hitboxRadius);
+}
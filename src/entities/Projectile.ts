@@ -1,10 +1,10 @@
 import type { Vector2, Weapon } from '../types';
-import { vec2Add, vec2Scale, vec2Distance } from '../utils/math';
 
 export interface Projectile {
   id: string;
   ownerId: string;
   teamId: string;
+  weaponId: string; // what fired it, for kill attribution
   position: Vector2;
   velocity: Vector2;
   damage: number;
@@ -13,34 +13,58 @@ export interface Projectile {
   speed: number;
 }
 
-let projectileIdCounter = 0;
+// Blank projectile for pools; initProjectile fills in every field
+export function allocateProjectile(): Projectile {
+  return {
+    id: '',
+    ownerId: '',
+    teamId: '',
+    weaponId: '',
+    position: { x: 0, y: 0 },
+    velocity: { x: 0, y: 0 },
+    damage: 0,
+    distanceTraveled: 0,
+    maxRange: 0,
+    speed: 0,
+  };
+}
 
-export function createProjectile(
+// (Re)initialise a projectile in place, fired from (x, y) along `angle`
+export function initProjectile(
+  projectile: Projectile,
+  id: string,
   ownerId: string,
   teamId: string,
-  position: Vector2,
-  direction: Vector2,
+  x: number,
+  y: number,
+  angle: number,
   weapon: Weapon
 ): Projectile {
-  return {
-    id: `proj_${projectileIdCounter++}`,
-    ownerId,
-    teamId,
-    position: { ...position },
-    velocity: vec2Scale(direction, weapon.stats.projectileSpeed),
-    damage: weapon.stats.damage,
-    distanceTraveled: 0,
-    maxRange: weapon.stats.range,
-    speed: weapon.stats.projectileSpeed,
-  };
+  const speed = weapon.stats.projectileSpeed;
+
+  projectile.id = id;
+  projectile.ownerId = ownerId;
+  projectile.teamId = teamId;
+  projectile.weaponId = weapon.id;
+  projectile.position.x = x;
+  projectile.position.y = y;
+  projectile.velocity.x = Math.cos(angle) * speed;
+  projectile.velocity.y = Math.sin(angle) * speed;
+  projectile.damage = weapon.stats.damage;
+  projectile.distanceTraveled = 0;
+  projectile.maxRange = weapon.stats.range;
+  projectile.speed = speed;
+  return projectile;
 }
 
 export function updateProjectile(projectile: Projectile, deltaTime: number): boolean {
-  const movement = vec2Scale(projectile.velocity, deltaTime);
-  const distance = vec2Distance(projectile.position, vec2Add(projectile.position, movement));
+  // In place: this runs for every bullet every tick
+  const dx = projectile.velocity.x * deltaTime;
+  const dy = projectile.velocity.y * deltaTime;
 
-  projectile.position = vec2Add(projectile.position, movement);
-  projectile.distanceTraveled += distance;
+  projectile.position.x += dx;
+  projectile.position.y += dy;
+  projectile.distanceTraveled += Math.sqrt(dx * dx + dy * dy);
 
   // Return false if projectile should be removed
   return projectile.distanceTraveled < projectile.maxRange;
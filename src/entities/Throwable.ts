@@ -0,0 +1,152 @@
+import type { Grenade, Structure, ThrowableType, Vector2 } from '../types';
+import { structureNormal, sweepStructure } from '../utils/collision';
+import type { SpatialHash } from '../utils/spatialHash';
+import { clamp, vec2Length, vec2Scale } from '../utils/math';
+
+export interface ThrowableDefinition {
+  name: string;
+  fuseTime: number; // seconds from the throw
+  radius: number; // blast or cloud radius
+  damage: number; // to players at the centre, falling off to 0 at the edge
+  structureDamage: number; // to destructible structures, with the same falloff
+  stripsShields: boolean;
+  smokeDuration: number; // seconds, 0 for no cloud
+  stackSize: number; // per backpack cell
+}
+
+export const THROWABLE_CATALOG: Record<ThrowableType, ThrowableDefinition> = {
+  frag: {
+    name: 'Frag Grenade',
+    fuseTime: 2.5,
+    radius: 160,
+    damage: 110,
+    structureDamage: 300,
+    stripsShields: false,
+    smokeDuration: 0,
+    stackSize: 3,
+  },
+  smoke: {
+    name: 'Smoke Grenade',
+    fuseTime: 1.5,
+    radius: 170,
+    damage: 0,
+    structureDamage: 0,
+    stripsShields: false,
+    smokeDuration: 10,
+    stackSize: 3,
+  },
+  emp: {
+    name: 'EMP',
+    fuseTime: 2,
+    radius: 180,
+    damage: 0,
+    structureDamage: 0,
+    stripsShields: true,
+    smokeDuration: 0,
+    stackSize: 2,
+  },
+};
+
+export const THROWABLE_TYPES = Object.keys(THROWABLE_CATALOG) as ThrowableType[];
+
+export const MAX_THROW_RANGE = 450;
+export const GRENADE_RADIUS = 6;
+
+const THROW_SPEED = 600; // units/s across the ground
+const MIN_FLIGHT_TIME = 0.25;
+const GRAVITY = 2000; // units/s^2, only shapes the arc
+const LANDING_SPEED = 0.35; // share of ground speed kept when it lands
+const ROLL_FRICTION = 3; // per second
+const BOUNCE = 0.5; // share of speed kept off a structure
+
+// Low cover a grenade in the air sails over
+const LOW_STRUCTURES: ReadonlySet<Structure['type']> = new Set(['crate', 'barrier']);
+
+// A grenade thrown from `from` to land `offset` away (clamped to
+// MAX_THROW_RANGE)
+export function createGrenade(
+  id: string,
+  ownerId: string,
+  teamId: string,
+  throwableType: ThrowableType,
+  from: Vector2,
+  offset: Vector2
+): Grenade {
+  const distance = vec2Length(offset);
+  const range = clamp(distance, 0, MAX_THROW_RANGE);
+  const direction = distance > 0 ? vec2Scale(offset, 1 / distance) : { x: 0, y: 0 };
+  const flightTime = Math.max(MIN_FLIGHT_TIME, range / THROW_SPEED);
+
+  return {
+    id,
+    ownerId,
+    teamId,
+    throwableType,
+    position: { ...from },
+    velocity: vec2Scale(direction, range / flightTime),
+    height: 0,
+    verticalSpeed: (GRAVITY * flightTime) / 2,
+    fuseTimer: THROWABLE_CATALOG[throwableType].fuseTime,
+  };
+}
+
+// Advance the arc or the roll, bouncing off structures. Returns true once the
+// fuse has run out.
+export function updateGrenade(grenade: Grenade, structureIndex: SpatialHash<Structure>, deltaTime: number): boolean {
+  const airborne = grenade.height > 0 || grenade.verticalSpeed > 0;
+
+  if (airborne) {
+    grenade.verticalSpeed -= GRAVITY * deltaTime;
+    grenade.height += grenade.verticalSpeed * deltaTime;
+    if (grenade.height <= 0) {
+      grenade.height = 0;
+      grenade.verticalSpeed = 0;
+      grenade.velocity = vec2Scale(grenade.velocity, LANDING_SPEED);
+    }
+  } else {
+    grenade.velocity = vec2Scale(grenade.velocity, Math.max(0, 1 - ROLL_FRICTION * deltaTime));
+  }
+
+  moveGrenade(grenade, structureIndex, airborne, deltaTime);
+
+  grenade.fuseTimer -= deltaTime;
+  return grenade.fuseTimer <= 0;
+}
+
+function moveGrenade(grenade: Grenade, structureIndex: SpatialHash<Structure>, airborne: boolean, deltaTime: number): void {
+  const from = grenade.position;
+  const to = { x: from.x + grenade.velocity.x * deltaTime, y: from.y + grenade.velocity.y * deltaTime };
+  const reach = vec2Length(vec2Scale(grenade.velocity, deltaTime));
+
+  let earliest = 1;
+  let hitNormal: Vector2 | null = null;
+  for (const structure of structureIndex.query(from, reach + GRENADE_RADIUS * 2)) {
+    if (airborne && LOW_STRUCTURES.has(structure.type)) continue;
+    const t = sweepStructure(from, to, GRENADE_RADIUS, structure);
+    if (t === null || t >= earliest) continue;
+
+    // A grenade resting against a face it just bounced off is moving away
+    // from it, which is not a hit
+    const hitPoint = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    const normal = structureNormal(hitPoint, structure);
+    if (grenade.velocity.x * normal.x + grenade.velocity.y * normal.y >= 0) continue;
+
+    earliest = t;
+    hitNormal = normal;
+  }
+
+  grenade.position = { x: from.x + (to.x - from.x) * earliest, y: from.y + (to.y - from.y) * earliest };
+  if (!hitNormal) return;
+
+  // Reflect off the face, losing speed
+  const along = grenade.velocity.x * hitNormal.x + grenade.velocity.y * hitNormal.y;
+  grenade.velocity = {
+    x: (grenade.velocity.x - 2 * along * hitNormal.x) * BOUNCE,
+    y: (grenade.velocity.y - 2 * along * hitNormal.y) * BOUNCE,
+  };
+}
+
+// Damage share at `distance` from the blast: 1 at the centre, 0 at the edge
+export function blastFalloff(distance: number, radius: number): number {
+  return clamp(1 - distance / radius, 0, 1);
+}
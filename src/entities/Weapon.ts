@@ -0,0 +1,170 @@
+import type { AmmoType, Role, Weapon, WeaponRarity, WeaponStats, WeaponType } from '../types';
+import type { Rng } from '../utils/rng';
+
+export interface WeaponDefinition {
+  name: string;
+  type: WeaponType;
+  ammoType: AmmoType;
+  stats: WeaponStats; // common rarity
+  gridSize: { width: number; height: number };
+}
+
+// Every weapon in the game at common rarity. For burst weapons fireRate is the
+// cadence inside a burst; burstCooldown gates the next pull.
+export const WEAPON_CATALOG = {
+  viper_smg: {
+    name: 'Viper SMG',
+    type: 'automatic',
+    ammoType: 'light',
+    stats: {
+      damage: 9,
+      fireRate: 14,
+      magazineSize: 35,
+      reloadTime: 1.6,
+      range: 380,
+      spread: 8,
+      projectileSpeed: 1100,
+      pellets: 1,
+      burstCount: 1,
+      burstCooldown: 0,
+    },
+    gridSize: { width: 3, height: 1 },
+  },
+  standard_rifle: {
+    name: 'Standard Rifle',
+    type: 'automatic',
+    ammoType: 'medium',
+    stats: {
+      damage: 15,
+      fireRate: 8,
+      magazineSize: 30,
+      reloadTime: 2,
+      range: 500,
+      spread: 3,
+      projectileSpeed: 1200,
+      pellets: 1,
+      burstCount: 1,
+      burstCooldown: 0,
+    },
+    gridSize: { width: 4, height: 1 },
+  },
+  tri_burst_rifle: {
+    name: 'Tri-Burst Rifle',
+    type: 'burst',
+    ammoType: 'medium',
+    stats: {
+      damage: 14,
+      fireRate: 15,
+      magazineSize: 30,
+      reloadTime: 2.1,
+      range: 550,
+      spread: 2,
+      projectileSpeed: 1300,
+      pellets: 1,
+      burstCount: 3,
+      burstCooldown: 0.35,
+    },
+    gridSize: { width: 4, height: 1 },
+  },
+  longshot_dmr: {
+    name: 'Longshot DMR',
+    type: 'semi-automatic',
+    ammoType: 'heavy',
+    stats: {
+      damage: 45,
+      fireRate: 2.5,
+      magazineSize: 10,
+      reloadTime: 2.4,
+      range: 900,
+      spread: 0.5,
+      projectileSpeed: 1800,
+      pellets: 1,
+      burstCount: 1,
+      burstCooldown: 0,
+    },
+    gridSize: { width: 5, height: 1 },
+  },
+  breacher_shotgun: {
+    name: 'Breacher',
+    type: 'semi-automatic',
+    ammoType: 'shells',
+    stats: {
+      damage: 11, // per pellet
+      fireRate: 1.4,
+      magazineSize: 6,
+      reloadTime: 2.6,
+      range: 260,
+      spread: 22,
+      projectileSpeed: 1000,
+      pellets: 8,
+      burstCount: 1,
+      burstCooldown: 0,
+    },
+    gridSize: { width: 4, height: 1 },
+  },
+} satisfies Record<string, WeaponDefinition>;
+
+export type WeaponId = keyof typeof WEAPON_CATALOG;
+
+interface RarityScaling {
+  damage: number;
+  spread: number;
+  magazineSize: number;
+  reloadTime: number;
+}
+
+export const RARITY_SCALING: Record<WeaponRarity, RarityScaling> = {
+  common: { damage: 1, spread: 1, magazineSize: 1, reloadTime: 1 },
+  uncommon: { damage: 1.1, spread: 0.85, magazineSize: 1.15, reloadTime: 0.9 },
+  rare: { damage: 1.2, spread: 0.7, magazineSize: 1.3, reloadTime: 0.8 },
+};
+
+// Each role starts with the weapon that suits how it fights
+export const ROLE_LOADOUTS: Record<Role, WeaponId> = {
+  vanguard: 'breacher_shotgun',
+  skirmisher: 'viper_smg',
+  sentinel: 'longshot_dmr',
+  catalyst: 'tri_burst_rifle',
+};
+
+export function createWeapon(id: WeaponId, rarity: WeaponRarity = 'common'): Weapon {
+  const definition: WeaponDefinition = WEAPON_CATALOG[id];
+  const scaling = RARITY_SCALING[rarity];
+  const base = definition.stats;
+
+  return {
+    id,
+    name: definition.name,
+    type: definition.type,
+    rarity,
+    ammoType: definition.ammoType,
+    stats: {
+      ...base,
+      damage: Math.round(base.damage * scaling.damage),
+      spread: base.spread * scaling.spread,
+      magazineSize: Math.round(base.magazineSize * scaling.magazineSize),
+      reloadTime: base.reloadTime * scaling.reloadTime,
+    },
+    gridSize: { ...definition.gridSize },
+  };
+}
+
+// Display name for a catalog id, e.g. the weapon named in a kill event
+export function weaponName(id: string): string {
+  return id in WEAPON_CATALOG ? WEAPON_CATALOG[id as WeaponId].name : id;
+}
+
+export function createLoadoutWeapon(role: Role, rarity: WeaponRarity = 'common'): Weapon {
+  return createWeapon(ROLE_LOADOUTS[role], rarity);
+}
+
+// Spare rounds a player carries on spawn, in magazines
+export const RESERVE_MAGAZINES = 4;
+
+// 60% common, 30% uncommon, 10% rare
+export function rollRarity(rng: Rng): WeaponRarity {
+  const roll = rng.next();
+  if (roll < 0.6) return 'common';
+  if (roll < 0.9) return 'uncommon';
+  return 'rare';
+}
@@ -0,0 +1,52 @@
+import type { Role } from '../types';
+
+// Team composition rules per party mode, checked in the lobby before a party
+// can ready up. The database enforces the same rules when the party joins a
+// lobby (party_composition_problems in supabase/schema.sql), so change both.
+
+export type MatchMode = 'standard' | 'ranked' | 'custom';
+
+export interface CompositionRules {
+  name: string;
+  maxPerRole: number; // members of a team on the same role
+  minSupports: number; // members on a support role
+}
+
+export const COMPOSITION_RULES: Record<MatchMode, CompositionRules> = {
+  standard: { name: 'Standard', maxPerRole: 2, minSupports: 0 },
+  ranked: { name: 'Ranked', maxPerRole: 1, minSupports: 1 },
+  custom: { name: 'Custom', maxPerRole: 3, minSupports: 0 },
+};
+
+export const MATCH_MODES = Object.keys(COMPOSITION_RULES) as MatchMode[];
+
+export const SUPPORT_ROLES: Role[] = ['catalyst'];
+
+// Party and lobby modes come back from the database as plain strings
+export function compositionRules(mode: string): CompositionRules {
+  if (mode in COMPOSITION_RULES) return COMPOSITION_RULES[mode as MatchMode];
+  console.warn(`Unknown mode "${mode}", using standard composition rules`);
+  return COMPOSITION_RULES.standard;
+}
+
+// Why a team with these roles may not queue for `mode`; empty when it may
+export function compositionProblems(mode: string, roles: string[]): string[] {
+  const rules = compositionRules(mode);
+  const problems: string[] = [];
+
+  const counts = new Map<string, number>();
+  for (const role of roles) counts.set(role, (counts.get(role) ?? 0) + 1);
+  for (const [role, count] of counts) {
+    if (count > rules.maxPerRole) {
+      problems.push(`${rules.name}: at most ${rules.maxPerRole} ${role.toUpperCase()} per team`);
+    }
+  }
+
+  const supports = roles.filter((role) => SUPPORT_ROLES.includes(role as Role)).length;
+  if (supports < rules.minSupports) {
+    const names = SUPPORT_ROLES.map((role) => role.toUpperCase()).join(' or ');
+    problems.push(`${rules.name}: team needs a support (${names})`);
+  }
+
+  return problems;
+}
@@ -1,5 +1,6 @@
 import { getSupabase } from './supabase';
 import { storage } from './storage';
+import { compositionProblems, type MatchMode } from './composition';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 export interface Profile {
@@ -17,6 +18,7 @@ export interface Party {
   code: string;
   max_size: number;
   is_open: boolean;
+  mode: string; // what the party queues for; see composition.ts
   members?: PartyMember[];
 }
 
@@ -319,6 +321,26 @@ class LobbyManager {
     return !error;
   }
 
+  // Set the mode the party queues for (leader only)
+  async setMode(mode: MatchMode): Promise<boolean> {
+    const supabase = getSupabase();
+    if (!supabase || !this.profile || !this.currentParty) return false;
+
+    const { error } = await supabase
+      .from('parties')
+      .update({ mode })
+      .eq('id', this.currentParty.id)
+      .eq('leader_id', this.profile.id);
+
+    if (error) {
+      console.error('Error setting party mode:', error);
+      return false;
+    }
+
+    this.currentParty = { ...this.currentParty, mode };
+    return true;
+  }
+
   // Get available lobbies
   async getLobbies(shard: Shard): Promise<Lobby[]> {
     const supabase = getSupabase();
@@ -339,11 +361,31 @@ class LobbyManager {
     return data || [];
   }
 
-  // Join matchmaking queue
+  // Join matchmaking queue for the party's mode. The database checks the
+  // composition again as the party joins a lobby; this only fails early.
   async joinQueue(shard: Shard): Promise<Lobby | null> {
     const supabase = getSupabase();
     if (!supabase || !this.currentParty) return null;
 
+    // Check the mode and roles as they are now, not as the last party update had them
+    const { data: party, error: partyError } = await supabase
+      .from('parties')
+      .select('mode, members:party_members(role)')
+      .eq('id', this.currentParty.id)
+      .single();
+
+    if (partyError || !party) {
+      console.error('Error checking party roles:', partyError);
+      return null;
+    }
+
+    const mode: string = party.mode;
+    const problems = compositionProblems(mode, party.members.map((member: { role: string }) => member.role));
+    if (problems.length > 0) {
+      console.error('Invalid team composition:', problems.join('; '));
+      return null;
+    }
+
     // Find an available lobby or create one
     let lobby: Lobby | null = null;
 
@@ -351,6 +393,7 @@ class LobbyManager {
       .from('lobbies')
       .select('*')
       .eq('shard', shard)
+      .eq('mode', mode)
       .eq('status', 'waiting')
       .lt('current_teams', 20)
       .order('current_teams', { ascending: false })
@@ -365,7 +408,7 @@ class LobbyManager {
         .insert({
           name: `Lobby ${Date.now()}`,
           shard,
-          mode: 'standard',
+          mode,
           status: 'waiting',
         })
         .select()
@@ -564,6 +607,16 @@ class LobbyManager {
           if (this.onPartyUpdate) this.onPartyUpdate(party);
         });
       })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'parties',
+        filter: `id=eq.${partyId}`,
+      }, () => {
+        this.getCurrentParty().then(party => {
+          if (this.onPartyUpdate) this.onPartyUpdate(party);
+        });
+      })
       .subscribe();
   }
 
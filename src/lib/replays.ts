@@ -0,0 +1,165 @@
+import { storage } from './storage';
+import { RECORDING_VERSION, type MatchRecording } from '../core/MatchRecorder';
+
+// Replay persistence. Recordings can be several MB, so they live in IndexedDB;
+// localStorage only keeps the latest one as a fallback when IndexedDB is missing.
+
+const DB_NAME = 'riftline';
+const DB_VERSION = 1;
+const STORE_NAME = 'replays';
+const MAX_REPLAYS = 10;
+const FALLBACK_KEY = 'last_replay';
+
+export interface ReplaySummary {
+  id: string;
+  recordedAt: number;
+  seed: number;
+  durationTicks: number;
+  tickRate: number;
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Failed to open replay database', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isCompatible(recording: MatchRecording | null): recording is MatchRecording {
+  return !!recording && recording.version === RECORDING_VERSION;
+}
+
+export async function saveReplay(recording: MatchRecording): Promise<boolean> {
+  const db = await openDb();
+  if (!db) {
+    storage.set(FALLBACK_KEY, recording);
+    return true;
+  }
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(recording));
+    await pruneReplays(db);
+    return true;
+  } catch (e) {
+    console.warn('Failed to save replay', e);
+    return false;
+  } finally {
+    db.close();
+  }
+}
+
+// Keep only the newest MAX_REPLAYS recordings
+async function pruneReplays(db: IDBDatabase): Promise<void> {
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const all = await requestToPromise(store.getAll() as IDBRequest<MatchRecording[]>);
+  const stale = all.sort((a, b) => b.recordedAt - a.recordedAt).slice(MAX_REPLAYS);
+  for (const recording of stale) {
+    store.delete(recording.id);
+  }
+}
+
+export async function listReplays(): Promise<ReplaySummary[]> {
+  const db = await openDb();
+  if (!db) {
+    const fallback = storage.get<MatchRecording>(FALLBACK_KEY);
+    return isCompatible(fallback) ? [toSummary(fallback)] : [];
+  }
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const all = await requestToPromise(store.getAll() as IDBRequest<MatchRecording[]>);
+    return all
+      .filter(isCompatible)
+      .sort((a, b) => b.recordedAt - a.recordedAt)
+      .map(toSummary);
+  } catch (e) {
+    console.warn('Failed to list replays', e);
+    return [];
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadReplay(id: string): Promise<MatchRecording | null> {
+  const db = await openDb();
+  if (!db) {
+    const fallback = storage.get<MatchRecording>(FALLBACK_KEY);
+    return isCompatible(fallback) && fallback.id === id ? fallback : null;
+  }
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const recording = await requestToPromise(store.get(id) as IDBRequest<MatchRecording | undefined>);
+    return isCompatible(recording ?? null) ? recording! : null;
+  } catch (e) {
+    console.warn(`Failed to load replay: ${id}`, e);
+    return null;
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadLatestReplay(): Promise<MatchRecording | null> {
+  const [latest] = await listReplays();
+  return latest ? loadReplay(latest.id) : null;
+}
+
+export async function deleteReplay(id: string): Promise<boolean> {
+  const db = await openDb();
+  if (!db) {
+    storage.remove(FALLBACK_KEY);
+    return true;
+  }
+
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.delete(id));
+    return true;
+  } catch (e) {
+    console.warn(`Failed to delete replay: ${id}`, e);
+    return false;
+  } finally {
+    db.close();
+  }
+}
+
+// Download a recording as JSON so it can be attached to a bug report
+export function exportReplay(recording: MatchRecording): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `riftline-replay-${recording.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toSummary(recording: MatchRecording): ReplaySummary {
+  return {
+    id: recording.id,
+    recordedAt: recording.recordedAt,
+    seed: recording.seed,
+    durationTicks: recording.durationTicks,
+    tickRate: recording.tickRate,
+  };
+}
@@ -31,6 +31,12 @@ function init(): void {
   // Start game loop (shows landing page first)
   game.start();
 
+  // ?stress=N skips the menus and keeps N bullets in flight
+  const stress = new URLSearchParams(window.location.search).get('stress');
+  if (stress !== null) {
+    game.startStressTest(Number(stress) || undefined);
+  }
+
   // Expose for debugging
   (window as any).game = game;
 
@@ -0,0 +1,164 @@
+// Minimal growable binary writer/reader for the snapshot codec. Multi-byte
+// values are little-endian; counts and indices use LEB128 varints.
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export class ByteWriter {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(initialSize: number = 1024) {
+    this.buffer = new Uint8Array(initialSize);
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  // Unsigned varint; safe up to 2^53
+  varint(value: number): void {
+    let v = Math.max(0, Math.floor(value));
+    while (v >= 0x80) {
+      this.u8((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.u8(v);
+  }
+
+  // Signed varint (zigzag)
+  svarint(value: number): void {
+    this.varint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+
+  string(value: string): void {
+    const bytes = textEncoder.encode(value);
+    this.varint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+export class ByteReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private check(bytes: number): void {
+    if (this.offset + bytes > this.bytes.length) {
+      throw new RangeError('Read past end of buffer');
+    }
+  }
+
+  u8(): number {
+    this.check(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  svarint(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  string(): string {
+    const length = this.varint();
+    this.check(length);
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  isAtEnd(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+}
@@ -0,0 +1,269 @@
+import type { GameConfig, InputState, MatchState, Player, Role } from '../types';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import { MatchEventBus } from '../core/MatchEvents';
+import { deserializeMatchState } from '../core/MatchSerializer';
+import { PlayerPredictor } from './PlayerPredictor';
+import { SnapshotDecoder } from './SnapshotCodec';
+import { SnapshotInterpolator, type InterpolationSettings, type RenderView } from './SnapshotInterpolator';
+import {
+  decodeServerMessage,
+  encodeMessage,
+  PROTOCOL_VERSION,
+  type ClientMessage,
+  type InputAck,
+  type MatchSnapshot,
+  type ServerMessage,
+} from './protocol';
+
+export interface MatchClientJoin {
+  matchId: string;
+  playerId: string;
+  name: string;
+  role: Role;
+  partyId: string;
+}
+
+export type MatchClientStatus = 'connecting' | 'connected' | 'closed';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY = 1000; // ms, doubled after each failed attempt
+
+// Browser side of a networked match. Sends local input to the server and
+// keeps the latest authoritative snapshot for Game to render, with the local
+// player predicted ahead of it.
+export class MatchClient {
+  readonly join: MatchClientJoin;
+
+  private url: string;
+  private events: MatchEventBus;
+  private socket: WebSocket | null = null;
+  private status: MatchClientStatus = 'connecting';
+  private state: MatchState | null = null;
+  private projectiles: Projectile[] = [];
+  private orbs: Orb[] = [];
+  private tick: number = 0;
+  private config: GameConfig | null = null;
+  private lastSentInput: string | null = null;
+  private inputSeq: number = 0;
+  private predictor: PlayerPredictor | null = null;
+  private decoder: SnapshotDecoder = new SnapshotDecoder();
+  private awaitingSnapshot: boolean = false;
+  private interpolator: SnapshotInterpolator = new SnapshotInterpolator();
+  private tickRate: number = 60;
+  private reconnectAttempts: number = 0;
+  private reconnectToken: string | null = null; // set by the first welcome
+  private closedByUser: boolean = false;
+
+  private onReady: (() => void) | null = null;
+  private onError: ((message: string) => void) | null = null;
+
+  constructor(url: string, join: MatchClientJoin, events: MatchEventBus) {
+    this.url = url;
+    this.join = join;
+    this.events = events;
+  }
+
+  // Called once the first snapshot after (re)joining has been applied
+  setOnReady(callback: () => void): void {
+    this.onReady = callback;
+  }
+
+  setOnError(callback: (message: string) => void): void {
+    this.onError = callback;
+  }
+
+  connect(): void {
+    this.status = 'connecting';
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e) {
+      console.error('Failed to open match connection:', e);
+      this.fail('Could not reach match server');
+      return;
+    }
+    this.socket = socket;
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastSentInput = null;
+      this.inputSeq = 0;
+      this.predictor?.reset();
+      this.decoder.reset();
+      this.interpolator.reset();
+      this.send({ type: 'join', version: PROTOCOL_VERSION, ...this.join, reconnectToken: this.reconnectToken });
+    };
+
+    socket.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleSnapshot(new Uint8Array(event.data));
+        return;
+      }
+
+      const message = decodeServerMessage(String(event.data));
+      if (message) {
+        this.handleMessage(message);
+      } else {
+        console.warn('Dropping malformed server message');
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.closedByUser || this.status === 'closed') return;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.fail('Lost connection to match server');
+      return;
+    }
+
+    const delay = RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts);
+    this.reconnectAttempts++;
+    console.warn(`Match connection lost, retrying in ${delay}ms`);
+    setTimeout(() => {
+      if (!this.closedByUser) this.connect();
+    }, delay);
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.config = message.config;
+        this.tickRate = message.tickRate;
+        this.reconnectToken = message.reconnectToken;
+        this.predictor = new PlayerPredictor(message.config, message.tickRate);
+        this.awaitingSnapshot = true;
+        break;
+      case 'event':
+        this.events.emit(message.event);
+        break;
+      case 'error':
+        this.fail(message.message);
+        break;
+    }
+  }
+
+  private handleSnapshot(bytes: Uint8Array): void {
+    const decoded = this.decoder.decode(bytes);
+    if (!decoded) return;
+
+    this.send({ type: 'ack', snapshotId: decoded.id });
+
+    this.applySnapshot(decoded.snapshot, decoded.ack);
+
+    if (this.awaitingSnapshot) {
+      this.awaitingSnapshot = false;
+      this.status = 'connected';
+      if (this.onReady) this.onReady();
+    }
+  }
+
+  private applySnapshot(snapshot: MatchSnapshot, ack: InputAck): void {
+    this.tick = snapshot.tick;
+    this.state = deserializeMatchState(snapshot.state);
+    this.projectiles = snapshot.projectiles;
+    this.orbs = snapshot.orbs;
+
+    const player = this.getLocalPlayer();
+    if (player && this.predictor) {
+      this.predictor.reconcile(this.state, player, ack);
+    }
+
+    this.interpolator.push(
+      snapshot.tick / this.tickRate,
+      performance.now() / 1000,
+      this.state,
+      this.projectiles,
+      this.orbs
+    );
+  }
+
+  private fail(message: string): void {
+    this.status = 'closed';
+    console.error('Match connection failed:', message);
+    if (this.onError) this.onError(message);
+    this.close();
+  }
+
+  // Send the local input (only when it changed; the server holds the last one)
+  // and predict its effect on the local player
+  update(input: InputState, deltaTime: number): void {
+    if (this.status !== 'connected') return;
+
+    const key = JSON.stringify(input);
+    if (key !== this.lastSentInput) {
+      const seq = this.inputSeq + 1;
+      const viewTick = Math.round(this.interpolator.getRenderTime(performance.now() / 1000) * this.tickRate);
+      if (this.send({ type: 'input', seq, viewTick: Math.max(0, viewTick), input })) {
+        this.inputSeq = seq;
+        this.lastSentInput = key;
+      }
+    }
+
+    const player = this.getLocalPlayer();
+    if (this.state && player && this.predictor) {
+      this.predictor.update(this.state, player, this.inputSeq, input, deltaTime);
+    }
+  }
+
+  private getLocalPlayer(): Player | null {
+    return this.state?.players.get(this.join.playerId) || null;
+  }
+
+  private send(message: ClientMessage): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(encodeMessage(message));
+    return true;
+  }
+
+  close(): void {
+    this.closedByUser = true;
+    this.status = 'closed';
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  getStatus(): MatchClientStatus {
+    return this.status;
+  }
+
+  // Newest authoritative state, with the local player predicted ahead
+  getState(): MatchState | null {
+    return this.state;
+  }
+
+  // What to draw right now: remote entities interpolated, local player predicted
+  getRenderView(): RenderView | null {
+    return this.interpolator.sample(performance.now() / 1000, this.join.playerId);
+  }
+
+  configureInterpolation(settings: Partial<InterpolationSettings>): void {
+    this.interpolator.configure(settings);
+  }
+
+  getProjectiles(): Projectile[] {
+    return this.projectiles;
+  }
+
+  getOrbs(): Orb[] {
+    return this.orbs;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  getConfig(): GameConfig | null {
+    return this.config;
+  }
+}
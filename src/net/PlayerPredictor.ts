@@ -0,0 +1,98 @@
+import type { GameConfig, InputState, MatchState, Player, Structure } from '../types';
+import { applyMovementInput } from '../entities/Player';
+import { createStructureIndex } from '../utils/collision';
+import type { SpatialHash } from '../utils/spatialHash';
+import type { InputAck } from './protocol';
+
+interface PredictedTick {
+  seq: number; // input sequence in force for this tick
+  index: number; // ticks already predicted with this seq before this one
+  input: InputState;
+}
+
+// Drop unacknowledged history beyond this; the next snapshot corrects us anyway
+const MAX_PENDING_SECONDS = 2;
+
+// Moves the local player immediately from local input instead of waiting a
+// round trip for the server. Every predicted tick is kept until a snapshot
+// acknowledges it; on each snapshot the server position is taken as truth and
+// the still-unacknowledged ticks are replayed on top of it.
+export class PlayerPredictor {
+  private config: GameConfig;
+  private fixedDeltaTime: number;
+  private maxPending: number;
+  private pending: PredictedTick[] = [];
+  private accumulator: number = 0;
+  private lastSeq: number = -1;
+  private seqTicks: number = 0;
+  private indexedState: MatchState | null = null;
+  private structures: SpatialHash<Structure> | null = null;
+
+  constructor(config: GameConfig, tickRate: number) {
+    this.config = config;
+    this.fixedDeltaTime = 1 / tickRate;
+    this.maxPending = Math.ceil(tickRate * MAX_PENDING_SECONDS);
+  }
+
+  // Advance the local player in `state` by the fixed ticks that fit in deltaTime
+  update(state: MatchState, player: Player, seq: number, input: InputState, deltaTime: number): void {
+    if (!canPredict(state, player)) {
+      this.reset();
+      return;
+    }
+
+    this.accumulator += deltaTime;
+    while (this.accumulator >= this.fixedDeltaTime) {
+      this.accumulator -= this.fixedDeltaTime;
+      if (seq !== this.lastSeq) {
+        this.lastSeq = seq;
+        this.seqTicks = 0;
+      }
+      applyMovementInput(player, input, this.structuresOf(state), this.config, this.fixedDeltaTime);
+      this.pending.push({ seq, index: this.seqTicks++, input });
+    }
+
+    if (this.pending.length > this.maxPending) {
+      this.pending.splice(0, this.pending.length - this.maxPending);
+    }
+  }
+
+  // `player` holds fresh server state; drop what the server has already
+  // simulated and re-apply the rest
+  reconcile(state: MatchState, player: Player, ack: InputAck): void {
+    if (!canPredict(state, player)) {
+      this.reset();
+      return;
+    }
+
+    this.pending = this.pending.filter(
+      (tick) => tick.seq > ack.seq || (tick.seq === ack.seq && tick.index >= ack.ticks)
+    );
+
+    const structures = this.structuresOf(state);
+    for (const tick of this.pending) {
+      applyMovementInput(player, tick.input, structures, this.config, this.fixedDeltaTime);
+    }
+  }
+
+  // Every snapshot brings a fresh state object; index its structures once
+  private structuresOf(state: MatchState): SpatialHash<Structure> {
+    if (!this.structures || this.indexedState !== state) {
+      this.structures = createStructureIndex(state.structures.values());
+      this.indexedState = state;
+    }
+    return this.structures;
+  }
+
+  reset(): void {
+    this.pending = [];
+    this.accumulator = 0;
+    this.lastSeq = -1;
+    this.seqTicks = 0;
+  }
+}
+
+// The server only simulates living players once the match is running
+function canPredict(state: MatchState, player: Player): boolean {
+  return player.isAlive && state.phase !== 'waiting' && state.phase !== 'ended';
+}
@@ -0,0 +1,900 @@
+import type {
+  Team,
+  Relic,
+  DeliverySite,
+  Structure,
+  StructureType,
+  RiftlineRing,
+  MatchPhase,
+  Role,
+  WeaponRarity,
+  AmmoType,
+  LootDrop,
+  InventoryItem,
+  InventoryItemKind,
+  ConsumableType,
+  Grenade,
+  SmokeCloud,
+  ThrowableType,
+  HealingField,
+} from '../types';
+import type { SerializedPlayer, SerializedMatchState } from '../core/MatchSerializer';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import { createWeapon, type WeaponId } from '../entities/Weapon';
+import type { InputAck, MatchSnapshot } from './protocol';
+import { ByteWriter, ByteReader } from './ByteBuffer';
+
+// Binary snapshot format. Every entity is flattened into a record of
+// quantized fields, and each snapshot is sent as a delta against the last one
+// the client acknowledged: removals and field updates refer to an entity by its
+// index in the (id-sorted) baseline, creations carry the full record. Repeated
+// strings (ids, names, roles, catalog ids) go through a per-connection symbol
+// table so each is only sent once; symbols no entity uses any more are freed
+// and their slots reused, so the table stays as small as the match. Backpack
+// items and team memberships are entities of their own, so a pickup or a
+// spent round only sends what changed.
+
+export const SNAPSHOT_FORMAT_VERSION = 10;
+
+const COORD_SCALE = 8; // 1/8 unit steps, u16 covers maps up to 8192 units
+const SPEED_SCALE = 4; // 1/4 unit/s steps, i16
+const ANGLE_SCALE = 65536 / (Math.PI * 2);
+
+type FieldType =
+  | 'bool'
+  | 'varint'
+  | 'f32'
+  | 'coord'
+  | 'speed'
+  | 'angle'
+  | 'tenths'
+  | 'hundredths'
+  | 'symbol';
+
+type Value = number | string;
+type EntityRecord = Value[];
+
+interface EntitySchema<T> {
+  fields: FieldType[];
+  pack(entity: T): Value[]; // raw values in field order, id excluded
+  unpack(id: string, values: Value[]): T;
+}
+
+interface MatchGlobals {
+  id: string;
+  seed: number;
+  phase: MatchPhase;
+  timeElapsed: number;
+  vaultPosition: { x: number; y: number } | null;
+  vaultRadius: number;
+}
+
+const num = (value: Value): number => value as number;
+const str = (value: Value): string => value as string;
+const nullable = (value: Value): string | null => (value === '' ? null : (value as string));
+
+const MATCH_SCHEMA: EntitySchema<MatchGlobals> = {
+  fields: ['varint', 'symbol', 'f32', 'bool', 'coord', 'coord', 'f32'],
+  pack: (m) => [
+    m.seed,
+    m.phase,
+    m.timeElapsed,
+    m.vaultPosition ? 1 : 0,
+    m.vaultPosition?.x ?? 0,
+    m.vaultPosition?.y ?? 0,
+    m.vaultRadius,
+  ],
+  unpack: (id, v) => ({
+    id,
+    seed: num(v[0]),
+    phase: str(v[1]) as MatchPhase,
+    timeElapsed: num(v[2]),
+    vaultPosition: v[3] ? { x: num(v[4]), y: num(v[5]) } : null,
+    vaultRadius: num(v[6]),
+  }),
+};
+
+// Teams travel without their player ids, which are TEAM_MEMBER_SCHEMA entities
+type PackedTeam = Omit<Team, 'playerIds'>;
+
+const TEAM_SCHEMA: EntitySchema<PackedTeam> = {
+  fields: ['symbol', 'symbol', 'varint', 'bool', 'varint'],
+  pack: (t) => [t.name, t.color, t.orbs, t.isEliminated ? 1 : 0, t.relicsDelivered],
+  unpack: (id, v) => ({
+    id,
+    name: str(v[0]),
+    color: str(v[1]),
+    orbs: num(v[2]),
+    isEliminated: v[3] === 1,
+    relicsDelivered: num(v[4]),
+  }),
+};
+
+// A player's place in their team's playerIds
+interface TeamMember {
+  id: string;
+  teamId: string;
+  playerId: string;
+  slot: number;
+}
+
+const TEAM_MEMBER_SCHEMA: EntitySchema<TeamMember> = {
+  fields: ['symbol', 'symbol', 'varint'],
+  pack: (m) => [m.teamId, m.playerId, m.slot],
+  unpack: (id, v) => ({ id, teamId: str(v[0]), playerId: str(v[1]), slot: num(v[2]) }),
+};
+
+// Players travel without their backpack items, which are ITEM_SCHEMA entities
+type PackedPlayer = Omit<SerializedPlayer, 'inventory'> & { inventory: { width: number; height: number } };
+
+const PLAYER_SCHEMA: EntitySchema<PackedPlayer> = {
+  fields: [
+    'symbol', 'symbol', 'symbol', 'bool',
+    'coord', 'coord', 'speed', 'speed', 'angle',
+    'tenths', 'tenths', 'bool', 'hundredths',
+    'symbol', 'symbol', 'varint', 'symbol',
+    'varint', 'hundredths', 'varint', 'varint',
+    'hundredths', 'symbol',
+    'bool', 'hundredths', 'hundredths',
+    'tenths', 'hundredths', 'tenths', 'symbol',
+  ],
+  pack: (p) => [
+    p.name, p.teamId, p.role, p.isBot ? 1 : 0,
+    p.position.x, p.position.y, p.velocity.x, p.velocity.y, p.rotation,
+    p.health, p.shield, p.isAlive ? 1 : 0, p.respawnTimer,
+    p.weapon?.id ?? '', p.weapon?.rarity ?? '', p.orbs, p.carryingRelicId ?? '',
+    p.ammo, p.reloadTimer, p.inventory.width, p.inventory.height,
+    p.healTimer, p.healingWith ?? '',
+    p.isDowned ? 1 : 0, p.bleedOutTimer, p.reviveProgress,
+    p.abilityCooldown, p.dashTimer, p.revealTimer, p.revealedToTeamId ?? '',
+  ],
+  unpack: (id, v) => ({
+    id,
+    name: str(v[0]),
+    teamId: str(v[1]),
+    role: str(v[2]) as Role,
+    isBot: v[3] === 1,
+    position: { x: num(v[4]), y: num(v[5]) },
+    velocity: { x: num(v[6]), y: num(v[7]) },
+    rotation: num(v[8]),
+    health: num(v[9]),
+    shield: num(v[10]),
+    isAlive: v[11] === 1,
+    respawnTimer: num(v[12]),
+    weapon: v[13] === '' ? null : createWeapon(str(v[13]) as WeaponId, str(v[14]) as WeaponRarity),
+    orbs: num(v[15]),
+    carryingRelicId: nullable(v[16]),
+    ammo: num(v[17]),
+    reloadTimer: num(v[18]),
+    inventory: { width: num(v[19]), height: num(v[20]) },
+    healTimer: num(v[21]),
+    healingWith: nullable(v[22]) as ConsumableType | null,
+    isDowned: v[23] === 1,
+    bleedOutTimer: num(v[24]),
+    reviveProgress: num(v[25]),
+    abilityCooldown: num(v[26]),
+    dashTimer: num(v[27]),
+    revealTimer: num(v[28]),
+    revealedToTeamId: nullable(v[29]),
+  }),
+};
+
+// An item by what it is rather than as JSON: weapons are rebuilt from their
+// catalog id and rarity, everything else is a type and a count
+const ITEM_FIELDS: FieldType[] = ['symbol', 'varint', 'varint', 'varint', 'varint', 'bool', 'symbol', 'symbol', 'varint'];
+
+function packItem(item: InventoryItem): Value[] {
+  const base = [item.kind, item.width, item.height, item.x, item.y, item.rotated ? 1 : 0];
+  switch (item.kind) {
+    case 'weapon':
+      return [...base, item.weapon.id, item.weapon.rarity, item.loadedAmmo];
+    case 'ammo':
+      return [...base, item.ammoType, '', item.quantity];
+    case 'consumable':
+      return [...base, item.consumableType, '', item.quantity];
+    case 'throwable':
+      return [...base, item.throwableType, '', item.quantity];
+    case 'relic':
+      return [...base, item.relicId, '', 0];
+  }
+}
+
+function unpackItem(id: string, v: Value[]): InventoryItem {
+  const base = { id, width: num(v[1]), height: num(v[2]), x: num(v[3]), y: num(v[4]), rotated: v[5] === 1 };
+  const type = str(v[6]);
+  const count = num(v[8]);
+  switch (str(v[0]) as InventoryItemKind) {
+    case 'weapon':
+      return {
+        ...base,
+        kind: 'weapon',
+        weapon: createWeapon(type as WeaponId, str(v[7]) as WeaponRarity),
+        loadedAmmo: count,
+      };
+    case 'ammo':
+      return { ...base, kind: 'ammo', ammoType: type as AmmoType, quantity: count };
+    case 'consumable':
+      return { ...base, kind: 'consumable', consumableType: type as ConsumableType, quantity: count };
+    case 'throwable':
+      return { ...base, kind: 'throwable', throwableType: type as ThrowableType, quantity: count };
+    case 'relic':
+      return { ...base, kind: 'relic', relicId: type };
+  }
+}
+
+// A backpack item and the player carrying it
+interface OwnedItem {
+  id: string;
+  ownerId: string;
+  item: InventoryItem;
+}
+
+const ITEM_SCHEMA: EntitySchema<OwnedItem> = {
+  fields: ['symbol', ...ITEM_FIELDS],
+  pack: (o) => [o.ownerId, ...packItem(o.item)],
+  unpack: (id, v) => ({ id, ownerId: str(v[0]), item: unpackItem(id, v.slice(1)) }),
+};
+
+const RELIC_SCHEMA: EntitySchema<Relic> = {
+  fields: ['coord', 'coord', 'symbol', 'symbol', 'bool'],
+  pack: (r) => [r.position.x, r.position.y, r.targetSiteId, r.carriedByPlayerId ?? '', r.isDelivered ? 1 : 0],
+  unpack: (id, v) => ({
+    id,
+    position: { x: num(v[0]), y: num(v[1]) },
+    targetSiteId: str(v[2]),
+    carriedByPlayerId: nullable(v[3]),
+    isDelivered: v[4] === 1,
+  }),
+};
+
+const SITE_SCHEMA: EntitySchema<DeliverySite> = {
+  fields: ['coord', 'coord', 'tenths', 'symbol'],
+  pack: (s) => [s.position.x, s.position.y, s.radius, s.acceptsRelicId],
+  unpack: (id, v) => ({
+    id,
+    position: { x: num(v[0]), y: num(v[1]) },
+    radius: num(v[2]),
+    acceptsRelicId: str(v[3]),
+  }),
+};
+
+const STRUCTURE_SCHEMA: EntitySchema<Structure> = {
+  fields: ['symbol', 'coord', 'coord', 'tenths', 'tenths', 'angle', 'tenths', 'tenths', 'bool'],
+  pack: (s) => [
+    s.type, s.position.x, s.position.y, s.width, s.height, s.rotation,
+    s.health, s.maxHealth, s.isDestructible ? 1 : 0,
+  ],
+  unpack: (id, v) => ({
+    id,
+    type: str(v[0]) as StructureType,
+    position: { x: num(v[1]), y: num(v[2]) },
+    width: num(v[3]),
+    height: num(v[4]),
+    rotation: num(v[5]),
+    health: num(v[6]),
+    maxHealth: num(v[7]),
+    isDestructible: v[8] === 1,
+  }),
+};
+
+const RING_SCHEMA: EntitySchema<RiftlineRing> = {
+  fields: ['coord', 'coord', 'tenths', 'tenths', 'f32', 'f32'],
+  pack: (r) => [r.center.x, r.center.y, r.currentRadius, r.targetRadius, r.shrinkRate, r.damage],
+  unpack: (id, v) => ({
+    id,
+    center: { x: num(v[0]), y: num(v[1]) },
+    currentRadius: num(v[2]),
+    targetRadius: num(v[3]),
+    shrinkRate: num(v[4]),
+    damage: num(v[5]),
+  }),
+};
+
+const PROJECTILE_SCHEMA: EntitySchema<Projectile> = {
+  fields: ['symbol', 'symbol', 'coord', 'coord', 'speed', 'speed', 'f32', 'tenths', 'tenths', 'tenths', 'symbol'],
+  pack: (p) => [
+    p.ownerId, p.teamId, p.position.x, p.position.y, p.velocity.x, p.velocity.y,
+    p.damage, p.distanceTraveled, p.maxRange, p.speed, p.weaponId,
+  ],
+  unpack: (id, v) => ({
+    id,
+    ownerId: str(v[0]),
+    teamId: str(v[1]),
+    position: { x: num(v[2]), y: num(v[3]) },
+    velocity: { x: num(v[4]), y: num(v[5]) },
+    damage: num(v[6]),
+    distanceTraveled: num(v[7]),
+    maxRange: num(v[8]),
+    speed: num(v[9]),
+    weaponId: str(v[10]),
+  }),
+};
+
+const ORB_SCHEMA: EntitySchema<Orb> = {
+  fields: ['coord', 'coord', 'f32', 'f32', 'f32'],
+  pack: (o) => [o.position.x, o.position.y, o.value, o.createdAt, o.lifetime],
+  unpack: (id, v) => ({
+    id,
+    position: { x: num(v[0]), y: num(v[1]) },
+    value: num(v[2]),
+    createdAt: num(v[3]),
+    lifetime: num(v[4]),
+  }),
+};
+
+// The item keeps its own id; the record is keyed by the drop's
+const LOOT_SCHEMA: EntitySchema<LootDrop> = {
+  fields: ['coord', 'coord', 'symbol', ...ITEM_FIELDS],
+  pack: (l) => [l.position.x, l.position.y, l.item.id, ...packItem(l.item)],
+  unpack: (id, v) => ({
+    id,
+    position: { x: num(v[0]), y: num(v[1]) },
+    item: unpackItem(str(v[2]), v.slice(3)),
+  }),
+};
+
+const GRENADE_SCHEMA: EntitySchema<Grenade> = {
+  fields: ['symbol', 'symbol', 'symbol', 'coord', 'coord', 'speed', 'speed', 'tenths', 'speed', 'hundredths'],
+  pack: (g) => [
+    g.ownerId, g.teamId, g.throwableType, g.position.x, g.position.y, g.velocity.x, g.velocity.y,
+    g.height, g.verticalSpeed, g.fuseTimer,
+  ],
+  unpack: (id, v) => ({
+    id,
+    ownerId: str(v[0]),
+    teamId: str(v[1]),
+    throwableType: str(v[2]) as ThrowableType,
+    position: { x: num(v[3]), y: num(v[4]) },
+    velocity: { x: num(v[5]), y: num(v[6]) },
+    height: num(v[7]),
+    verticalSpeed: num(v[8]),
+    fuseTimer: num(v[9]),
+  }),
+};
+
+const SMOKE_SCHEMA: EntitySchema<SmokeCloud> = {
+  fields: ['coord', 'coord', 'tenths', 'tenths'],
+  pack: (s) => [s.position.x, s.position.y, s.radius, s.timeLeft],
+  unpack: (id, v) => ({
+    id,
+    position: { x: num(v[0]), y: num(v[1]) },
+    radius: num(v[2]),
+    timeLeft: num(v[3]),
+  }),
+};
+
+const HEALING_FIELD_SCHEMA: EntitySchema<HealingField> = {
+  fields: ['symbol', 'symbol', 'coord', 'coord', 'tenths', 'tenths'],
+  pack: (f) => [f.ownerId, f.teamId, f.position.x, f.position.y, f.radius, f.timeLeft],
+  unpack: (id, v) => ({
+    id,
+    ownerId: str(v[0]),
+    teamId: str(v[1]),
+    position: { x: num(v[2]), y: num(v[3]) },
+    radius: num(v[4]),
+    timeLeft: num(v[5]),
+  }),
+};
+
+// Order of entity kinds on the wire; QuantizedSnapshot.kinds uses the same order
+const SCHEMAS = [
+  MATCH_SCHEMA,
+  TEAM_SCHEMA,
+  PLAYER_SCHEMA,
+  RELIC_SCHEMA,
+  SITE_SCHEMA,
+  STRUCTURE_SCHEMA,
+  RING_SCHEMA,
+  PROJECTILE_SCHEMA,
+  ORB_SCHEMA,
+  LOOT_SCHEMA,
+  GRENADE_SCHEMA,
+  SMOKE_SCHEMA,
+  HEALING_FIELD_SCHEMA,
+  ITEM_SCHEMA,
+  TEAM_MEMBER_SCHEMA,
+] as EntitySchema<unknown>[];
+
+// Per kind, the indices of its symbol fields
+const SYMBOL_FIELDS = SCHEMAS.map((schema) =>
+  schema.fields.flatMap((type, i) => (type === 'symbol' ? [i] : []))
+);
+
+const Kind = {
+  Match: 0,
+  Team: 1,
+  Player: 2,
+  Relic: 3,
+  Site: 4,
+  Structure: 5,
+  Ring: 6,
+  Projectile: 7,
+  Orb: 8,
+  Loot: 9,
+  Grenade: 10,
+  Smoke: 11,
+  HealingField: 12,
+  Item: 13,
+  TeamMember: 14,
+} as const;
+
+type Kind = (typeof Kind)[keyof typeof Kind];
+
+// A snapshot in wire precision. Server and client hold identical copies of
+// every acknowledged snapshot, which is what makes deltas against them exact.
+export interface QuantizedSnapshot {
+  id: number; // increases with every snapshot the server sends
+  tick: number;
+  kinds: Map<string, EntityRecord>[]; // per Kind, entity id -> record
+}
+
+export interface DecodedSnapshot {
+  id: number;
+  snapshot: MatchSnapshot;
+  ack: InputAck;
+}
+
+function quantize(type: FieldType, value: Value): Value {
+  const n = value as number;
+  switch (type) {
+    case 'symbol':
+      return value;
+    case 'f32':
+      return Math.fround(n);
+    case 'coord':
+      return Math.min(65535, Math.max(0, Math.round(n * COORD_SCALE)));
+    case 'speed':
+      return Math.min(32767, Math.max(-32768, Math.round(n * SPEED_SCALE)));
+    case 'angle':
+      return ((Math.round(n * ANGLE_SCALE) % 65536) + 65536) % 65536;
+    case 'tenths':
+      return Math.round(n * 10);
+    case 'hundredths':
+      return Math.round(n * 100);
+    default:
+      return Math.max(0, Math.round(n));
+  }
+}
+
+function dequantize(type: FieldType, value: Value): Value {
+  const n = value as number;
+  switch (type) {
+    case 'coord':
+      return n / COORD_SCALE;
+    case 'speed':
+      return n / SPEED_SCALE;
+    case 'angle':
+      return n / ANGLE_SCALE;
+    case 'tenths':
+      return n / 10;
+    case 'hundredths':
+      return n / 100;
+    default:
+      return value;
+  }
+}
+
+function quantizeEntities<T extends { id: string }>(kind: Kind, entities: Iterable<T>): Map<string, EntityRecord> {
+  const schema = SCHEMAS[kind] as EntitySchema<T>;
+  const records = new Map<string, EntityRecord>();
+  for (const entity of entities) {
+    const raw = schema.pack(entity);
+    records.set(entity.id, raw.map((value, i) => quantize(schema.fields[i], value)));
+  }
+  return records;
+}
+
+export function quantizeSnapshot(id: number, snapshot: MatchSnapshot): QuantizedSnapshot {
+  const { state } = snapshot;
+  const kinds: Map<string, EntityRecord>[] = [];
+  kinds[Kind.Match] = quantizeEntities(Kind.Match, [state]);
+  kinds[Kind.Team] = quantizeEntities(Kind.Team, state.teams);
+  kinds[Kind.Player] = quantizeEntities(Kind.Player, state.players);
+  kinds[Kind.Relic] = quantizeEntities(Kind.Relic, state.relics);
+  kinds[Kind.Site] = quantizeEntities(Kind.Site, state.deliverySites);
+  kinds[Kind.Structure] = quantizeEntities(Kind.Structure, state.structures);
+  kinds[Kind.Ring] = quantizeEntities(Kind.Ring, state.rings);
+  kinds[Kind.Projectile] = quantizeEntities(Kind.Projectile, snapshot.projectiles);
+  kinds[Kind.Orb] = quantizeEntities(Kind.Orb, snapshot.orbs);
+  kinds[Kind.Loot] = quantizeEntities(Kind.Loot, state.loot);
+  kinds[Kind.Grenade] = quantizeEntities(Kind.Grenade, state.grenades);
+  kinds[Kind.Smoke] = quantizeEntities(Kind.Smoke, state.smokes);
+  kinds[Kind.HealingField] = quantizeEntities(Kind.HealingField, state.healingFields);
+  kinds[Kind.Item] = quantizeEntities(
+    Kind.Item,
+    state.players.flatMap((player) => player.inventory.items.map((item) => ({ id: item.id, ownerId: player.id, item })))
+  );
+  kinds[Kind.TeamMember] = quantizeEntities(
+    Kind.TeamMember,
+    state.teams.flatMap((team) =>
+      team.playerIds.map((playerId, slot) => ({ id: `${team.id}/${playerId}`, teamId: team.id, playerId, slot }))
+    )
+  );
+  return { id, tick: snapshot.tick, kinds };
+}
+
+// What one team is sent: no players it cannot see, nor the projectiles,
+// airborne grenades or healing fields that would give away where they are;
+// grenades they threw that have landed come without an owner. Only the
+// team's own members' backpacks are sent. Shares every other kind's records
+// with the full snapshot.
+export function teamSnapshot(snapshot: QuantizedSnapshot, teamId: string, hiddenIds: Set<string>): QuantizedSnapshot {
+  // A player's team is their second field; the owner is the first field of a
+  // projectile, a grenade, a healing field and an item
+  const members = new Set<string>();
+  for (const [id, record] of snapshot.kinds[Kind.Player]) {
+    if (str(record[1]) === teamId) members.add(id);
+  }
+
+  const kinds = snapshot.kinds.slice();
+  kinds[Kind.Player] = withoutRecords(snapshot.kinds[Kind.Player], (id) => hiddenIds.has(id));
+  kinds[Kind.Projectile] = withoutRecords(snapshot.kinds[Kind.Projectile], (_id, record) =>
+    hiddenIds.has(str(record[0]))
+  );
+  kinds[Kind.Item] = withoutRecords(snapshot.kinds[Kind.Item], (_id, record) => !members.has(str(record[0])));
+  kinds[Kind.HealingField] = withoutRecords(snapshot.kinds[Kind.HealingField], (_id, record) =>
+    hiddenIds.has(str(record[0]))
+  );
+
+  // Height and vertical speed are a grenade's eighth and ninth fields, both 0
+  // once it has landed
+  const grenades = new Map<string, EntityRecord>();
+  for (const [id, record] of snapshot.kinds[Kind.Grenade]) {
+    if (!hiddenIds.has(str(record[0]))) {
+      grenades.set(id, record);
+    } else if (record[7] === 0 && record[8] === 0) {
+      grenades.set(id, ['', ...record.slice(1)]);
+    }
+  }
+  kinds[Kind.Grenade] = grenades;
+  return { ...snapshot, kinds };
+}
+
+function withoutRecords(
+  records: Map<string, EntityRecord>,
+  hide: (id: string, record: EntityRecord) => boolean
+): Map<string, EntityRecord> {
+  const kept = new Map<string, EntityRecord>();
+  for (const [id, record] of records) {
+    if (!hide(id, record)) kept.set(id, record);
+  }
+  return kept;
+}
+
+function unpackEntities<T>(snapshot: QuantizedSnapshot, kind: Kind): T[] {
+  const schema = SCHEMAS[kind] as EntitySchema<T>;
+  const entities: T[] = [];
+  for (const [id, record] of snapshot.kinds[kind]) {
+    entities.push(schema.unpack(id, record.map((value, i) => dequantize(schema.fields[i], value))));
+  }
+  return entities;
+}
+
+export function dequantizeSnapshot(snapshot: QuantizedSnapshot): MatchSnapshot {
+  const [globals] = unpackEntities<MatchGlobals>(snapshot, Kind.Match);
+
+  // Put backpack items back with their owners; other teams' come out empty
+  const items = new Map<string, InventoryItem[]>();
+  for (const { ownerId, item } of unpackEntities<OwnedItem>(snapshot, Kind.Item)) {
+    const owned = items.get(ownerId) ?? [];
+    owned.push(item);
+    items.set(ownerId, owned);
+  }
+  const players = unpackEntities<PackedPlayer>(snapshot, Kind.Player).map(
+    (player): SerializedPlayer => ({ ...player, inventory: { ...player.inventory, items: items.get(player.id) ?? [] } })
+  );
+
+  // And team members with their teams, in their original order
+  const members = unpackEntities<TeamMember>(snapshot, Kind.TeamMember).sort((a, b) => a.slot - b.slot);
+  const teams = unpackEntities<PackedTeam>(snapshot, Kind.Team).map(
+    (team): Team => ({
+      ...team,
+      playerIds: members.filter((member) => member.teamId === team.id).map((member) => member.playerId),
+    })
+  );
+
+  const state: SerializedMatchState = {
+    ...globals,
+    teams,
+    players,
+    relics: unpackEntities<Relic>(snapshot, Kind.Relic),
+    deliverySites: unpackEntities<DeliverySite>(snapshot, Kind.Site),
+    structures: unpackEntities<Structure>(snapshot, Kind.Structure),
+    loot: unpackEntities<LootDrop>(snapshot, Kind.Loot),
+    grenades: unpackEntities<Grenade>(snapshot, Kind.Grenade),
+    smokes: unpackEntities<SmokeCloud>(snapshot, Kind.Smoke),
+    healingFields: unpackEntities<HealingField>(snapshot, Kind.HealingField),
+    rings: unpackEntities<RiftlineRing>(snapshot, Kind.Ring),
+  };
+
+  return {
+    tick: snapshot.tick,
+    state,
+    projectiles: unpackEntities<Projectile>(snapshot, Kind.Projectile),
+    orbs: unpackEntities<Orb>(snapshot, Kind.Orb),
+  };
+}
+
+// Baseline entities are addressed by their position in id order
+function sortedIds(records: Map<string, EntityRecord> | undefined): string[] {
+  return records ? Array.from(records.keys()).sort() : [];
+}
+
+// The encoder's half of a connection's symbol table. The decoder repeats
+// every add and free in packet order, so both always pick the same slot.
+class SymbolTable {
+  private slots: Map<string, number> = new Map();
+  private free: number[] = [];
+  private size: number = 0;
+
+  get(value: string): number | undefined {
+    return this.slots.get(value);
+  }
+
+  add(value: string): void {
+    this.slots.set(value, this.free.pop() ?? this.size++);
+  }
+
+  // Frees every symbol not in `used`; returns the slots in the order freed
+  retain(used: Set<string>): number[] {
+    const freed: number[] = [];
+    for (const [value, slot] of this.slots) {
+      if (used.has(value)) continue;
+      this.slots.delete(value);
+      this.free.push(slot);
+      freed.push(slot);
+    }
+    return freed;
+  }
+}
+
+function writeField(writer: ByteWriter, type: FieldType, value: Value, symbols: SymbolTable): void {
+  const n = value as number;
+  switch (type) {
+    case 'symbol': {
+      const slot = symbols.get(value as string);
+      if (slot !== undefined) {
+        writer.varint(slot + 1);
+      } else {
+        writer.varint(0);
+        writer.string(value as string);
+        symbols.add(value as string);
+      }
+      break;
+    }
+    case 'bool':
+      writer.u8(n);
+      break;
+    case 'f32':
+      writer.f32(n);
+      break;
+    case 'coord':
+    case 'angle':
+      writer.u16(n);
+      break;
+    case 'speed':
+      writer.i16(n);
+      break;
+    case 'tenths':
+    case 'hundredths':
+      writer.svarint(n);
+      break;
+    default:
+      writer.varint(n);
+  }
+}
+
+// The decoder's half: slots, some of them freed, and the freed ones to reuse
+interface SymbolSlots {
+  values: (string | undefined)[];
+  free: number[];
+}
+
+function readField(reader: ByteReader, type: FieldType, symbols: SymbolSlots): Value {
+  switch (type) {
+    case 'symbol': {
+      const index = reader.varint();
+      if (index === 0) {
+        const value = reader.string();
+        symbols.values[symbols.free.pop() ?? symbols.values.length] = value;
+        return value;
+      }
+      const value = symbols.values[index - 1];
+      if (value === undefined) throw new RangeError(`Unknown symbol ${index}`);
+      return value;
+    }
+    case 'bool':
+      return reader.u8();
+    case 'f32':
+      return reader.f32();
+    case 'coord':
+    case 'angle':
+      return reader.u16();
+    case 'speed':
+      return reader.i16();
+    case 'tenths':
+    case 'hundredths':
+      return reader.svarint();
+    default:
+      return reader.varint();
+  }
+}
+
+// Server side: one per connection, since the symbol table is per connection
+export class SnapshotEncoder {
+  private symbols: SymbolTable = new SymbolTable();
+
+  encode(current: QuantizedSnapshot, baseline: QuantizedSnapshot | null, ack: InputAck): Uint8Array {
+    const writer = new ByteWriter();
+    writer.u8(SNAPSHOT_FORMAT_VERSION);
+    writer.varint(current.id);
+    writer.varint(baseline ? baseline.id : 0);
+    writer.varint(current.tick);
+    writer.varint(ack.seq);
+    writer.varint(ack.ticks);
+
+    // Free whatever no entity in this snapshot uses; a later snapshot that
+    // needs one again just sends it again
+    const used = new Set<string>();
+    current.kinds.forEach((records, kind) => {
+      for (const record of records.values()) {
+        for (const i of SYMBOL_FIELDS[kind]) used.add(record[i] as string);
+      }
+    });
+    const freed = this.symbols.retain(used);
+    writer.varint(freed.length);
+    for (const slot of freed) writer.varint(slot);
+
+    for (let kind = 0; kind < SCHEMAS.length; kind++) {
+      const fields = SCHEMAS[kind].fields;
+      const records = current.kinds[kind];
+      const baseIds = sortedIds(baseline?.kinds[kind]);
+      const baseRecords = baseline?.kinds[kind];
+
+      const removed: number[] = [];
+      const updated: { index: number; mask: number; record: EntityRecord }[] = [];
+      baseIds.forEach((id, index) => {
+        const record = records.get(id);
+        if (!record) {
+          removed.push(index);
+          return;
+        }
+
+        const base = baseRecords!.get(id)!;
+        let mask = 0;
+        for (let i = 0; i < fields.length; i++) {
+          if (record[i] !== base[i]) mask += Math.pow(2, i);
+        }
+        if (mask !== 0) updated.push({ index, mask, record });
+      });
+
+      const created: [string, EntityRecord][] = [];
+      for (const [id, record] of records) {
+        if (!baseRecords || !baseRecords.has(id)) created.push([id, record]);
+      }
+
+      writer.varint(removed.length);
+      for (const index of removed) writer.varint(index);
+
+      writer.varint(updated.length);
+      for (const { index, mask, record } of updated) {
+        writer.varint(index);
+        writer.varint(mask);
+        for (let i = 0; i < fields.length; i++) {
+          if (Math.floor(mask / Math.pow(2, i)) % 2 === 1) {
+            writeField(writer, fields[i], record[i], this.symbols);
+          }
+        }
+      }
+
+      writer.varint(created.length);
+      for (const [id, record] of created) {
+        writer.string(id);
+        for (let i = 0; i < fields.length; i++) {
+          writeField(writer, fields[i], record[i], this.symbols);
+        }
+      }
+    }
+
+    return writer.finish();
+  }
+}
+
+// How many decoded snapshots the client keeps as potential baselines
+const DECODER_HISTORY = 64;
+
+// Client side: mirrors the connection's symbol table and keeps recent
+// snapshots so the server can delta against whichever one we acknowledged
+export class SnapshotDecoder {
+  private symbols: SymbolSlots = { values: [], free: [] };
+  private history: Map<number, QuantizedSnapshot> = new Map();
+
+  decode(bytes: Uint8Array): DecodedSnapshot | null {
+    let quantized: QuantizedSnapshot;
+    let ack: InputAck;
+
+    try {
+      const reader = new ByteReader(bytes);
+      const version = reader.u8();
+      if (version !== SNAPSHOT_FORMAT_VERSION) {
+        console.warn(`Unsupported snapshot format: ${version}`);
+        return null;
+      }
+
+      const id = reader.varint();
+      const baselineId = reader.varint();
+      const tick = reader.varint();
+      ack = { seq: reader.varint(), ticks: reader.varint() };
+
+      const freeCount = reader.varint();
+      for (let i = 0; i < freeCount; i++) {
+        const slot = reader.varint();
+        this.symbols.values[slot] = undefined;
+        this.symbols.free.push(slot);
+      }
+
+      // Read the whole packet even if the baseline is gone, so the symbol
+      // table stays in step with the server's
+      const baseline = baselineId === 0 ? null : this.history.get(baselineId) || null;
+      const kinds: Map<string, EntityRecord>[] = [];
+
+      for (let kind = 0; kind < SCHEMAS.length; kind++) {
+        const fields = SCHEMAS[kind].fields;
+        const baseRecords = baseline?.kinds[kind];
+        const baseIds = sortedIds(baseRecords);
+        const records = new Map(baseRecords || []);
+
+        const removeCount = reader.varint();
+        for (let i = 0; i < removeCount; i++) {
+          records.delete(baseIds[reader.varint()]);
+        }
+
+        const updateCount = reader.varint();
+        for (let n = 0; n < updateCount; n++) {
+          const id = baseIds[reader.varint()];
+          const mask = reader.varint();
+          const record = (records.get(id) || []).slice();
+          for (let i = 0; i < fields.length; i++) {
+            if (Math.floor(mask / Math.pow(2, i)) % 2 === 1) {
+              record[i] = readField(reader, fields[i], this.symbols);
+            }
+          }
+          if (id !== undefined) records.set(id, record);
+        }
+
+        const createCount = reader.varint();
+        for (let n = 0; n < createCount; n++) {
+          const id = reader.string();
+          records.set(id, fields.map((type) => readField(reader, type, this.symbols)));
+        }
+
+        kinds.push(records);
+      }
+
+      if (baselineId !== 0 && !baseline) {
+        console.warn(`Missing snapshot baseline ${baselineId}`);
+        return null;
+      }
+
+      quantized = { id, tick, kinds };
+    } catch (e) {
+      console.error('Failed to decode snapshot:', e);
+      return null;
+    }
+
+    // Map iteration is insertion order, so this drops the oldest first
+    this.history.set(quantized.id, quantized);
+    for (const id of this.history.keys()) {
+      if (this.history.size <= DECODER_HISTORY) break;
+      this.history.delete(id);
+    }
+
+    return { id: quantized.id, snapshot: dequantizeSnapshot(quantized), ack };
+  }
+
+  reset(): void {
+    this.symbols = { values: [], free: [] };
+    this.history.clear();
+  }
+}
@@ -0,0 +1,202 @@
+import type { Grenade, MatchState, Player, Relic } from '../types';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import { vec2Add, vec2Lerp, vec2Scale, clamp, lerp, lerpAngle } from '../utils/math';
+
+export interface InterpolationSettings {
+  delay: number; // seconds remote entities render behind the server clock
+  maxExtrapolation: number; // seconds entities keep moving once snapshots run out
+}
+
+// Two snapshot intervals at 20Hz, so a single late packet never stalls motion
+export const DEFAULT_INTERPOLATION: InterpolationSettings = {
+  delay: 0.1,
+  maxExtrapolation: 0.1,
+};
+
+// What the renderer draws for a networked match
+export interface RenderView {
+  state: MatchState;
+  projectiles: Projectile[];
+  orbs: Orb[];
+}
+
+interface BufferedSnapshot {
+  time: number; // server match time in seconds
+  state: MatchState;
+  projectiles: Projectile[];
+  orbs: Orb[];
+}
+
+// Keep this much history behind the render time
+const BUFFER_SECONDS = 1;
+
+// How quickly the server clock estimate follows new samples
+const CLOCK_SMOOTHING = 0.1;
+
+// Clock jumps bigger than this (match start, reconnect) reset the estimate
+const CLOCK_RESET_THRESHOLD = 0.25;
+
+// Sits between incoming snapshots and the renderer. Remote players,
+// projectiles and relics are drawn `delay` seconds in the past, blended
+// between the two snapshots around that time; if the next snapshot is late
+// they are extrapolated along their velocity for up to `maxExtrapolation`.
+// The local player is never delayed: it always comes from the newest
+// (predicted) state.
+export class SnapshotInterpolator {
+  private settings: InterpolationSettings;
+  private buffer: BufferedSnapshot[] = [];
+  private clockOffset: number | null = null; // server time - local time
+
+  constructor(settings: Partial<InterpolationSettings> = {}) {
+    this.settings = { ...DEFAULT_INTERPOLATION, ...settings };
+  }
+
+  configure(settings: Partial<InterpolationSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): InterpolationSettings {
+    return { ...this.settings };
+  }
+
+  push(time: number, receivedAt: number, state: MatchState, projectiles: Projectile[], orbs: Orb[]): void {
+    const sample = time - receivedAt;
+    if (this.clockOffset === null || Math.abs(sample - this.clockOffset) > CLOCK_RESET_THRESHOLD) {
+      this.clockOffset = sample;
+    } else {
+      this.clockOffset += (sample - this.clockOffset) * CLOCK_SMOOTHING;
+    }
+
+    this.buffer.push({ time, state, projectiles, orbs });
+
+    // Drop snapshots that can no longer bracket the render time
+    const cutoff = time - this.settings.delay - BUFFER_SECONDS;
+    while (this.buffer.length > 2 && this.buffer[1].time < cutoff) {
+      this.buffer.shift();
+    }
+  }
+
+  reset(): void {
+    this.buffer = [];
+    this.clockOffset = null;
+  }
+
+  // Server match time that remote entities are drawn at
+  getRenderTime(now: number): number {
+    if (this.clockOffset === null) return 0;
+    return now + this.clockOffset - this.settings.delay;
+  }
+
+  sample(now: number, localPlayerId: string | null): RenderView | null {
+    if (this.buffer.length === 0 || this.clockOffset === null) return null;
+
+    const renderTime = this.getRenderTime(now);
+    const latest = this.buffer[this.buffer.length - 1];
+
+    if (this.buffer.length === 1) {
+      return this.extrapolate(latest, 0, localPlayerId);
+    }
+
+    // Newest snapshot is already in the past: extrapolate from it
+    if (renderTime >= latest.time) {
+      const ahead = Math.min(renderTime - latest.time, this.settings.maxExtrapolation);
+      return this.extrapolate(latest, ahead, localPlayerId);
+    }
+
+    let index = this.buffer.length - 2;
+    while (index > 0 && this.buffer[index].time > renderTime) index--;
+
+    const from = this.buffer[index];
+    const to = this.buffer[index + 1];
+    const span = to.time - from.time;
+    const t = span > 0 ? clamp((renderTime - from.time) / span, 0, 1) : 1;
+
+    return this.interpolate(from, to, t, latest, localPlayerId);
+  }
+
+  // Discrete fields (health, alive, carried relic) come from the newer snapshot;
+  // only motion is blended
+  private interpolate(
+    from: BufferedSnapshot,
+    to: BufferedSnapshot,
+    t: number,
+    latest: BufferedSnapshot,
+    localPlayerId: string | null
+  ): RenderView {
+    const players = new Map<string, Player>();
+    for (const [id, player] of to.state.players) {
+      if (id === localPlayerId) {
+        players.set(id, latest.state.players.get(id) || player);
+        continue;
+      }
+
+      const previous = from.state.players.get(id);
+      if (!previous || !previous.isAlive || !player.isAlive) {
+        players.set(id, player);
+        continue;
+      }
+
+      players.set(id, {
+        ...player,
+        position: vec2Lerp(previous.position, player.position, t),
+        rotation: lerpAngle(previous.rotation, player.rotation, t),
+      });
+    }
+
+    const relics = new Map<string, Relic>();
+    for (const [id, relic] of to.state.relics) {
+      const previous = from.state.relics.get(id);
+      const moving = previous && !previous.carriedByPlayerId && !relic.carriedByPlayerId;
+      relics.set(id, moving ? { ...relic, position: vec2Lerp(previous.position, relic.position, t) } : relic);
+    }
+
+    const grenades = new Map<string, Grenade>();
+    for (const [id, grenade] of to.state.grenades) {
+      const previous = from.state.grenades.get(id);
+      const position = previous ? vec2Lerp(previous.position, grenade.position, t) : grenade.position;
+      const height = previous ? lerp(previous.height, grenade.height, t) : grenade.height;
+      grenades.set(id, { ...grenade, position, height });
+    }
+
+    // Projectiles new in `to` are walked back along their velocity
+    const fromProjectiles = new Map(from.projectiles.map((p) => [p.id, p] as const));
+    const backstep = (1 - t) * (to.time - from.time);
+    const projectiles = to.projectiles.map((projectile) => {
+      const previous = fromProjectiles.get(projectile.id);
+      const position = previous
+        ? vec2Lerp(previous.position, projectile.position, t)
+        : vec2Add(projectile.position, vec2Scale(projectile.velocity, -backstep));
+      return { ...projectile, position };
+    });
+
+    return {
+      state: { ...to.state, players, relics, grenades },
+      projectiles,
+      orbs: to.orbs,
+    };
+  }
+
+  private extrapolate(latest: BufferedSnapshot, ahead: number, localPlayerId: string | null): RenderView {
+    if (ahead <= 0) {
+      return { state: latest.state, projectiles: latest.projectiles, orbs: latest.orbs };
+    }
+
+    const players = new Map<string, Player>();
+    for (const [id, player] of latest.state.players) {
+      const moves = id !== localPlayerId && player.isAlive;
+      players.set(id, moves ? { ...player, position: vec2Add(player.position, vec2Scale(player.velocity, ahead)) } : player);
+    }
+
+    const projectiles = latest.projectiles.map((projectile) => ({
+      ...projectile,
+      position: vec2Add(projectile.position, vec2Scale(projectile.velocity, ahead)),
+    }));
+
+    return {
+      state: { ...latest.state, players },
+      projectiles,
+      orbs: latest.orbs,
+    };
+  }
+}
@@ -0,0 +1,240 @@
+import type {
+  GameConfig,
+  InputState,
+  InventoryAction,
+  InventorySlot,
+  MatchEvent,
+  Role,
+  ThrowableType,
+  Vector2,
+} from '../types';
+import { isRole } from '../types';
+import type { SerializedMatchState } from '../core/MatchSerializer';
+import type { Projectile } from '../entities/Projectile';
+import type { Orb } from '../entities/Orb';
+import { THROWABLE_CATALOG } from '../entities/Throwable';
+
+// Wire format shared by the browser client and the Node match server.
+// Control messages are JSON text frames; snapshots are binary frames (see
+// SnapshotCodec). Clients only ever send their InputState and snapshot acks.
+
+export const PROTOCOL_VERSION = 14;
+
+// Snapshots sent per second (the simulation itself runs at SIM_TICK_RATE)
+export const SNAPSHOT_RATE = 20;
+
+export interface MatchSnapshot {
+  tick: number;
+  state: SerializedMatchState;
+  projectiles: Projectile[];
+  orbs: Orb[];
+}
+
+export interface JoinMessage {
+  type: 'join';
+  version: number;
+  matchId: string;
+  playerId: string;
+  name: string;
+  role: Role;
+  partyId: string; // players sharing a party share a team
+  reconnectToken: string | null; // from the welcome; proves a rejoin is the same player
+}
+
+export interface InputMessage {
+  type: 'input';
+  seq: number; // increases with every input the client sends
+  viewTick: number; // server tick the client was rendering remote players at
+  input: InputState;
+}
+
+// Tells the server which snapshot it may delta the next one against
+export interface AckMessage {
+  type: 'ack';
+  snapshotId: number;
+}
+
+export type ClientMessage = JoinMessage | InputMessage | AckMessage;
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  matchId: string;
+  playerId: string;
+  tickRate: number;
+  config: GameConfig;
+  reconnectToken: string; // send it with the join to take this player back after a drop
+}
+
+// How much of a client's input stream a snapshot already includes: every input
+// before `seq`, plus `ticks` simulation ticks run with input `seq` itself.
+export interface InputAck {
+  seq: number;
+  ticks: number;
+}
+
+export interface EventMessage {
+  type: 'event';
+  event: MatchEvent;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ServerMessage = WelcomeMessage | EventMessage | ErrorMessage;
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+function parse(data: string): { type?: unknown } | null {
+  try {
+    const value = JSON.parse(data);
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function decodeServerMessage(data: string): ServerMessage | null {
+  const message = parse(data);
+  if (!message) return null;
+
+  switch (message.type) {
+    case 'welcome':
+    case 'event':
+    case 'error':
+      return message as ServerMessage;
+    default:
+      return null;
+  }
+}
+
+// Client messages come from untrusted sockets, so every field is checked
+export function decodeClientMessage(data: string): ClientMessage | null {
+  const message = parse(data) as Record<string, unknown> | null;
+  if (!message) return null;
+
+  if (message.type === 'join') {
+    const { version, matchId, playerId, name, role, partyId, reconnectToken } = message;
+    if (
+      typeof version !== 'number' ||
+      typeof matchId !== 'string' ||
+      typeof playerId !== 'string' ||
+      typeof name !== 'string' ||
+      !isRole(role) ||
+      typeof partyId !== 'string'
+    ) {
+      return null;
+    }
+    return {
+      type: 'join',
+      version,
+      matchId,
+      playerId,
+      name: name.slice(0, 24),
+      role,
+      partyId,
+      reconnectToken: typeof reconnectToken === 'string' ? reconnectToken : null,
+    };
+  }
+
+  if (message.type === 'input') {
+    const input = sanitizeInput(message.input);
+    const { seq, viewTick } = message;
+    if (!input || typeof seq !== 'number' || !Number.isInteger(seq)) return null;
+    if (typeof viewTick !== 'number' || !Number.isInteger(viewTick)) return null;
+    return { type: 'input', seq, viewTick, input };
+  }
+
+  if (message.type === 'ack') {
+    const { snapshotId } = message;
+    if (typeof snapshotId !== 'number' || !Number.isInteger(snapshotId)) return null;
+    return { type: 'ack', snapshotId };
+  }
+
+  return null;
+}
+
+function sanitizeDirection(value: unknown): Vector2 | null {
+  if (!value || typeof value !== 'object') return null;
+  const { x, y } = value as Record<string, unknown>;
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return null;
+  }
+
+  // Directions are at most unit length so clients can't move faster than their role allows
+  const length = Math.sqrt(x * x + y * y);
+  return length > 1 ? { x: x / length, y: y / length } : { x, y };
+}
+
+function sanitizeThrowable(value: unknown): ThrowableType | null {
+  return typeof value === 'string' && Object.hasOwn(THROWABLE_CATALOG, value) ? (value as ThrowableType) : null;
+}
+
+// Any finite offset; the simulation clamps it to throwing range
+function sanitizeOffset(value: unknown): Vector2 {
+  if (!value || typeof value !== 'object') return { x: 0, y: 0 };
+  const { x, y } = value as Record<string, unknown>;
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return { x: 0, y: 0 };
+  }
+  return { x, y };
+}
+
+function sanitizeSlot(value: unknown): InventorySlot | null {
+  if (!value || typeof value !== 'object') return null;
+  const { x, y, rotated } = value as Record<string, unknown>;
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return null;
+  return { x: x as number, y: y as number, rotated: rotated === true };
+}
+
+// Drops anything malformed; whether the action is allowed is up to the simulation
+function sanitizeInventoryAction(value: unknown): InventoryAction | null {
+  if (!value || typeof value !== 'object') return null;
+  const action = value as Record<string, unknown>;
+  const { seq } = action;
+  if (!Number.isInteger(seq)) return null;
+
+  switch (action.type) {
+    case 'move': {
+      const slot = sanitizeSlot(action.slot);
+      if (typeof action.itemId !== 'string' || !slot) return null;
+      return { seq: seq as number, type: 'move', itemId: action.itemId, slot };
+    }
+    case 'drop':
+    case 'equip':
+    case 'use':
+      if (typeof action.itemId !== 'string') return null;
+      return { seq: seq as number, type: action.type, itemId: action.itemId };
+    case 'pickup':
+      if (typeof action.lootId !== 'string') return null;
+      return { seq: seq as number, type: 'pickup', lootId: action.lootId, slot: sanitizeSlot(action.slot) };
+    default:
+      return null;
+  }
+}
+
+export function sanitizeInput(value: unknown): InputState | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+
+  const moveDirection = sanitizeDirection(input.moveDirection);
+  const aimDirection = sanitizeDirection(input.aimDirection);
+  if (!moveDirection || !aimDirection) return null;
+
+  return {
+    moveDirection,
+    aimDirection,
+    firing: input.firing === true,
+    interacting: input.interacting === true,
+    healing: input.healing === true,
+    reloading: input.reloading === true,
+    throwing: sanitizeThrowable(input.throwing),
+    throwOffset: sanitizeOffset(input.throwOffset),
+    throwCancelled: input.throwCancelled === true,
+    usingAbility: input.usingAbility === true,
+    inventoryAction: sanitizeInventoryAction(input.inventoryAction),
+  };
+}
@@ -4,6 +4,13 @@ export type Role = 'vanguard' | 'skirmisher' | 'sentinel' | 'catalyst';
 
 export type WeaponType = 'automatic' | 'semi-automatic' | 'burst';
 export type WeaponRarity = 'common' | 'uncommon' | 'rare';
+export type AmmoType = 'light' | 'medium' | 'heavy' | 'shells';
+export type ConsumableType = 'medkit' | 'shield_cell';
+
+export type ThrowableType = 'frag' | 'smoke' | 'emp';
+
+// Each role's active ability
+export type AbilityType = 'barrier' | 'dash' | 'scan' | 'healing_field';
 
 export type MatchPhase = 'waiting' | 'dropping' | 'open' | 'compression' | 'convergence' | 'ended';
 
@@ -56,6 +63,12 @@ export const ROLE_STATS: Record<Role, RoleStats> = {
   },
 };
 
+// Roles arrive as plain strings from clients; `in` would also accept
+// prototype names such as "constructor"
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && Object.hasOwn(ROLE_STATS, value);
+}
+
 export interface WeaponStats {
   damage: number;
   fireRate: number; // rounds per second
@@ -64,6 +77,9 @@ export interface WeaponStats {
   range: number;
   spread: number; // degrees
   projectileSpeed: number;
+  pellets: number; // projectiles per shot
+  burstCount: number; // shots per trigger pull for burst weapons
+  burstCooldown: number; // seconds after a burst before the next pull
 }
 
 export interface Weapon {
@@ -71,15 +87,58 @@ export interface Weapon {
   name: string;
   type: WeaponType;
   rarity: WeaponRarity;
+  ammoType: AmmoType;
   stats: WeaponStats;
   gridSize: { width: number; height: number };
 }
 
+// Backpack contents. Items occupy a width x height block of cells with its
+// top-left corner at (x, y); rotated items swap width and height.
+interface InventoryItemBase {
+  id: string;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+export type InventoryItem = InventoryItemBase &
+  (
+    | { kind: 'weapon'; weapon: Weapon; loadedAmmo: number }
+    | { kind: 'ammo'; ammoType: AmmoType; quantity: number }
+    | { kind: 'consumable'; consumableType: ConsumableType; quantity: number }
+    | { kind: 'throwable'; throwableType: ThrowableType; quantity: number }
+    | { kind: 'relic'; relicId: string }
+  );
+
+export type InventoryItemKind = InventoryItem['kind'];
+
+export interface Inventory {
+  width: number; // cells
+  height: number;
+  items: InventoryItem[];
+}
+
+export interface InventorySlot {
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+// An item lying on the map
+export interface LootDrop {
+  id: string;
+  position: Vector2;
+  item: InventoryItem;
+}
+
 export interface Player {
   id: string;
   name: string;
   teamId: string;
   role: Role;
+  isBot: boolean; // driven by simulation AI instead of InputState
   position: Vector2;
   velocity: Vector2;
   rotation: number; // radians, direction facing
@@ -87,7 +146,20 @@ export interface Player {
   shield: number;
   isAlive: boolean;
   respawnTimer: number; // seconds remaining, 0 if alive
+  // Knocked down at 0 health: still alive, crawling and waiting for a teammate
+  isDowned: boolean;
+  bleedOutTimer: number; // seconds until a downed player is eliminated
+  reviveProgress: number; // 0-1, how far a teammate's revive has got
   weapon: Weapon | null;
+  ammo: number; // rounds in the magazine; spare rounds are in the backpack
+  reloadTimer: number; // seconds remaining, 0 if not reloading
+  healTimer: number; // seconds of channeling left, 0 if not healing
+  healingWith: ConsumableType | null; // consumable being channeled
+  abilityCooldown: number; // seconds until the role's active ability is ready
+  dashTimer: number; // seconds of dash left, 0 if not dashing
+  revealTimer: number; // seconds this player stays revealed to revealedToTeamId
+  revealedToTeamId: string | null; // team that scanned or spotted them last
+  inventory: Inventory;
   orbs: number;
   carryingRelic: Relic | null;
 }
@@ -140,8 +212,41 @@ export interface Structure {
   isDestructible: boolean;
 }
 
+// A thrown grenade: flies in an arc to where it was aimed, then rolls until
+// its fuse runs out
+export interface Grenade {
+  id: string;
+  ownerId: string;
+  teamId: string;
+  throwableType: ThrowableType;
+  position: Vector2; // on the ground, under the grenade
+  velocity: Vector2;
+  height: number; // above the ground, 0 once landed
+  verticalSpeed: number;
+  fuseTimer: number; // seconds until it goes off
+}
+
+// Smoke left by a smoke grenade; hides whoever is inside
+export interface SmokeCloud {
+  id: string;
+  position: Vector2;
+  radius: number;
+  timeLeft: number; // seconds
+}
+
+// A catalyst's healing field: heals the owner's team while they stand in it
+export interface HealingField {
+  id: string;
+  ownerId: string;
+  teamId: string;
+  position: Vector2;
+  radius: number;
+  timeLeft: number; // seconds
+}
+
 export interface MatchState {
   id: string;
+  seed: number; // drives map generation and simulation randomness
   phase: MatchPhase;
   timeElapsed: number;
   teams: Map<string, Team>;
@@ -149,12 +254,130 @@ export interface MatchState {
   relics: Map<string, Relic>;
   deliverySites: Map<string, DeliverySite>;
   structures: Map<string, Structure>;
+  loot: Map<string, LootDrop>;
+  grenades: Map<string, Grenade>;
+  smokes: Map<string, SmokeCloud>;
+  healingFields: Map<string, HealingField>;
   rings: RiftlineRing[];
   vaultPosition: Vector2 | null;
   vaultRadius: number;
 }
 
-export type GameScreen = 'landing' | 'menu' | 'shard-select' | 'lobby' | 'queue' | 'match' | 'results';
+// Match events: one typed stream for HUD, audio, stats and telemetry
+interface MatchEventBase {
+  timestamp: number; // match time in seconds
+  tick: number;
+  position: Vector2 | null;
+}
+
+export interface PlayerDamagedEvent extends MatchEventBase {
+  type: 'PlayerDamaged';
+  attackerId: string; // player id or 'riftline'
+  victimId: string;
+  amount: number;
+  shieldDamage: number;
+  healthDamage: number;
+}
+
+export interface PlayerDownedEvent extends MatchEventBase {
+  type: 'PlayerDowned';
+  attackerId: string;
+  victimId: string;
+}
+
+export interface PlayerRevivedEvent extends MatchEventBase {
+  type: 'PlayerRevived';
+  playerId: string;
+  reviverId: string;
+}
+
+export interface PlayerEliminatedEvent extends MatchEventBase {
+  type: 'PlayerEliminated';
+  attackerId: string; // player id or 'riftline'; whoever downed them on a bleed-out
+  victimId: string;
+  weaponId: string | null; // the killer's last weapon on the victim, null for the riftline
+  assistIds: string[]; // others who hit the victim within the assist window
+  damage: DamageShare[]; // everything the victim took this life, most first
+}
+
+export interface DamageShare {
+  attackerId: string;
+  amount: number;
+}
+
+export interface RelicPickedUpEvent extends MatchEventBase {
+  type: 'RelicPickedUp';
+  playerId: string;
+  teamId: string;
+  relicId: string;
+}
+
+export interface RelicDeliveredEvent extends MatchEventBase {
+  type: 'RelicDelivered';
+  playerId: string;
+  teamId: string;
+  relicId: string;
+  siteId: string;
+}
+
+export interface OrbCollectedEvent extends MatchEventBase {
+  type: 'OrbCollected';
+  playerId: string;
+  teamId: string;
+  orbId: string;
+}
+
+export interface PhaseChangedEvent extends MatchEventBase {
+  type: 'PhaseChanged';
+  from: MatchPhase;
+  to: MatchPhase;
+}
+
+export interface GrenadeExplodedEvent extends MatchEventBase {
+  type: 'GrenadeExploded';
+  ownerId: string;
+  throwableType: ThrowableType;
+  radius: number;
+}
+
+export interface AbilityUsedEvent extends MatchEventBase {
+  type: 'AbilityUsed';
+  playerId: string;
+  ability: AbilityType;
+  radius: number; // reach of a scan or field, 0 for the rest
+}
+
+export interface TeamEliminatedEvent extends MatchEventBase {
+  type: 'TeamEliminated';
+  teamId: string;
+  attackerId: string | null; // who eliminated the last member
+}
+
+export type MatchEvent =
+  | PlayerDamagedEvent
+  | PlayerDownedEvent
+  | PlayerRevivedEvent
+  | PlayerEliminatedEvent
+  | RelicPickedUpEvent
+  | RelicDeliveredEvent
+  | OrbCollectedEvent
+  | PhaseChangedEvent
+  | GrenadeExplodedEvent
+  | AbilityUsedEvent
+  | TeamEliminatedEvent;
+
+export type MatchEventType = MatchEvent['type'];
+
+export type GameScreen =
+  | 'landing'
+  | 'menu'
+  | 'settings'
+  | 'shard-select'
+  | 'lobby'
+  | 'queue'
+  | 'match'
+  | 'results'
+  | 'replay';
 
 export interface InputState {
   moveDirection: Vector2; // normalized or zero
@@ -163,8 +386,27 @@ export interface InputState {
   interacting: boolean;
   healing: boolean;
   reloading: boolean;
+  // Throwable being aimed; letting go (back to null) throws it at the last
+  // throwOffset, measured from the player in world units
+  throwing: ThrowableType | null;
+  throwOffset: Vector2;
+  throwCancelled: boolean; // set as throwing goes back to null: drop the aim without throwing
+  usingAbility: boolean; // pressing it (not holding) triggers the role ability
+  // Latest backpack command; held like the rest of the input, so it is only
+  // carried out when its seq changes
+  inventoryAction: InventoryAction | null;
 }
 
+export type InventoryAction = InventoryCommand & { seq: number };
+
+// An InventoryAction before the input layer numbers it
+export type InventoryCommand =
+  | { type: 'move'; itemId: string; slot: InventorySlot }
+  | { type: 'drop'; itemId: string }
+  | { type: 'equip'; itemId: string } // swap with the weapon in hand
+  | { type: 'pickup'; lootId: string; slot: InventorySlot | null } // null: first free space
+  | { type: 'use'; itemId: string }; // start channeling a consumable
+
 export interface GameConfig {
   mapWidth: number;
   mapHeight: number;
@@ -174,6 +416,8 @@ export interface GameConfig {
   baseRespawnTime: number; // seconds
   orbRespawnReduction: number; // seconds per orb
   orbDropCount: number; // orbs dropped on elimination
+  bleedOutTime: number; // seconds a downed player lasts without a revive
+  reviveTime: number; // seconds a teammate must hold interact to revive
 }
 
 export const DEFAULT_CONFIG: GameConfig = {
@@ -185,4 +429,6 @@ export const DEFAULT_CONFIG: GameConfig = {
   baseRespawnTime: 15,
   orbRespawnReduction: 1.5,
   orbDropCount: 3,
+  bleedOutTime: 30,
+  reviveTime: 5,
 };
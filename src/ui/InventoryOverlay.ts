@@ -0,0 +1,493 @@
+import type { InventoryCommand, InventoryItem, InventorySlot, LootDrop, Player, Vector2, WeaponRarity } from '../types';
+import type { PointerCapture } from '../core/InputManager';
+import { LOOT_PICKUP_RADIUS, canPlace, footprint, itemName } from '../entities/Inventory';
+import { vec2Distance } from '../utils/math';
+
+const COLORS = {
+  overlay: 'rgba(5, 5, 10, 0.6)',
+  panel: 'rgba(10, 10, 15, 0.92)',
+  border: '#333344',
+  cell: '#15151f',
+  buttonBg: '#1a1a25',
+  primary: '#00f7ff',
+  danger: '#ff4466',
+  ammo: '#ffaa00',
+  medkit: '#00ff88',
+  shieldCell: '#00b4d8',
+  throwable: '#ff7744',
+  relic: '#ffd700',
+  valid: 'rgba(0, 255, 136, 0.35)',
+  invalid: 'rgba(255, 68, 102, 0.35)',
+  text: '#ffffff',
+  textDim: '#888899',
+};
+
+const RARITY_COLORS: Record<WeaponRarity, string> = {
+  common: '#cccccc',
+  uncommon: '#00ff88',
+  rare: '#4da6ff',
+};
+
+const PADDING = 16;
+const MAX_CELL_SIZE = 48;
+const BUTTON_HEIGHT = 36;
+const DRAG_THRESHOLD = 6; // pixels before a press counts as a drag
+
+interface ButtonDef {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color?: string;
+  disabled?: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DragState {
+  source: 'item' | 'loot';
+  id: string;
+  item: InventoryItem;
+  rotated: boolean;
+  grabX: number; // cell within the item that the pointer holds
+  grabY: number;
+  start: Vector2;
+  position: Vector2;
+  moved: boolean;
+}
+
+// Backpack panel drawn over the match. Items are dragged between cells (or
+// out of the panel to drop them), nearby loot is dragged or tapped in, and the
+// selected item can be rotated, equipped or used, or dropped with buttons. Moves are
+// previewed with the shared placement rules but only sent as commands; the
+// simulation decides what actually happens.
+export class InventoryOverlay implements PointerCapture {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private open: boolean = false;
+  private onCommandCallback: ((command: InventoryCommand) => void) | null = null;
+  private onCloseCallback: (() => void) | null = null;
+
+  // Layout and contents from the last render, used for hit testing
+  private buttons: ButtonDef[] = [];
+  private panel: Rect | null = null;
+  private grid: Rect | null = null;
+  private cellSize: number = MAX_CELL_SIZE;
+  private lootTiles: { rect: Rect; drop: LootDrop }[] = [];
+  private player: Player | null = null;
+
+  private selectedId: string | null = null;
+  private drag: DragState | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d')!;
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  setOpen(open: boolean): void {
+    this.open = open;
+    this.selectedId = null;
+    this.drag = null;
+  }
+
+  onCommand(callback: (command: InventoryCommand) => void): void {
+    this.onCommandCallback = callback;
+  }
+
+  onClose(callback: () => void): void {
+    this.onCloseCallback = callback;
+  }
+
+  render(player: Player, loot: Map<string, LootDrop>): void {
+    if (!this.open) return;
+    this.buttons = [];
+    this.lootTiles = [];
+    this.player = player;
+
+    const { inventory } = player;
+    if (this.selectedId && !inventory.items.some((i) => i.id === this.selectedId)) {
+      this.selectedId = null;
+    }
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = this.canvas.width / dpr;
+    const height = this.canvas.height / dpr;
+
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.scale(dpr, dpr);
+
+    // Size the grid to the screen, keeping room for the header, buttons and loot strip
+    const cellSize = Math.floor(
+      Math.min(MAX_CELL_SIZE, (width - PADDING * 4) / inventory.width, (height - 300) / inventory.height)
+    );
+    this.cellSize = Math.max(24, cellSize);
+
+    const gridWidth = this.cellSize * inventory.width;
+    const gridHeight = this.cellSize * inventory.height;
+    const lootTileHeight = Math.max(36, this.cellSize);
+    const panelWidth = gridWidth + PADDING * 2;
+    const panelHeight = 56 + gridHeight + PADDING + BUTTON_HEIGHT + PADDING + 20 + lootTileHeight + PADDING;
+    const panelX = (width - panelWidth) / 2;
+    const panelY = Math.max(10, (height - panelHeight) / 2);
+    this.panel = { x: panelX, y: panelY, width: panelWidth, height: panelHeight };
+
+    this.ctx.fillStyle = COLORS.overlay;
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.fillStyle = COLORS.panel;
+    this.ctx.fillRect(panelX, panelY, panelWidth, panelHeight);
+    this.ctx.strokeStyle = COLORS.border;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(panelX, panelY, panelWidth, panelHeight);
+
+    // Header: title, weapon in hand, close
+    this.ctx.fillStyle = COLORS.primary;
+    this.ctx.font = 'bold 14px sans-serif';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText('BACKPACK', panelX + PADDING, panelY + 12);
+
+    this.ctx.font = '11px sans-serif';
+    if (player.weapon) {
+      this.ctx.fillStyle = RARITY_COLORS[player.weapon.rarity];
+      this.ctx.fillText(`IN HAND: ${player.weapon.name.toUpperCase()} (${player.ammo})`, panelX + PADDING, panelY + 32);
+    } else {
+      this.ctx.fillStyle = COLORS.textDim;
+      this.ctx.fillText('IN HAND: NOTHING', panelX + PADDING, panelY + 32);
+    }
+
+    this.addButton({ id: 'close', x: panelX + panelWidth - 44, y: panelY + 8, width: 36, height: 32, text: '✕' });
+
+    // Grid
+    const gridX = panelX + PADDING;
+    const gridY = panelY + 56;
+    this.grid = { x: gridX, y: gridY, width: gridWidth, height: gridHeight };
+
+    this.ctx.fillStyle = COLORS.cell;
+    this.ctx.fillRect(gridX, gridY, gridWidth, gridHeight);
+    this.ctx.strokeStyle = COLORS.border;
+    this.ctx.beginPath();
+    for (let x = 0; x <= inventory.width; x++) {
+      this.ctx.moveTo(gridX + x * this.cellSize, gridY);
+      this.ctx.lineTo(gridX + x * this.cellSize, gridY + gridHeight);
+    }
+    for (let y = 0; y <= inventory.height; y++) {
+      this.ctx.moveTo(gridX, gridY + y * this.cellSize);
+      this.ctx.lineTo(gridX + gridWidth, gridY + y * this.cellSize);
+    }
+    this.ctx.stroke();
+
+    for (const item of inventory.items) {
+      if (this.drag?.source === 'item' && this.drag.moved && this.drag.id === item.id) continue;
+      const size = footprint(item, item.rotated);
+      this.renderItem(item, {
+        x: gridX + item.x * this.cellSize,
+        y: gridY + item.y * this.cellSize,
+        width: size.width * this.cellSize,
+        height: size.height * this.cellSize,
+      }, item.id === this.selectedId);
+    }
+
+    // Actions for the selected item
+    const selected = inventory.items.find((i) => i.id === this.selectedId) ?? null;
+    const buttonY = gridY + gridHeight + PADDING;
+    const buttonWidth = (gridWidth - 20) / 3;
+    this.addButton({
+      id: 'rotate',
+      x: gridX,
+      y: buttonY,
+      width: buttonWidth,
+      height: BUTTON_HEIGHT,
+      text: 'ROTATE',
+      disabled: !selected || selected.width === selected.height,
+    });
+    // Weapons are equipped, consumables used
+    this.addButton({
+      id: selected?.kind === 'consumable' ? 'use' : 'equip',
+      x: gridX + buttonWidth + 10,
+      y: buttonY,
+      width: buttonWidth,
+      height: BUTTON_HEIGHT,
+      text: selected?.kind === 'consumable' ? 'USE' : 'EQUIP',
+      disabled: selected?.kind !== 'weapon' && selected?.kind !== 'consumable',
+    });
+    this.addButton({
+      id: 'drop',
+      x: gridX + (buttonWidth + 10) * 2,
+      y: buttonY,
+      width: buttonWidth,
+      height: BUTTON_HEIGHT,
+      text: 'DROP',
+      color: COLORS.danger,
+      disabled: !selected || selected.kind === 'relic',
+    });
+
+    // Nearby loot, nearest first
+    const stripY = buttonY + BUTTON_HEIGHT + PADDING;
+    this.ctx.fillStyle = COLORS.textDim;
+    this.ctx.font = '11px sans-serif';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText('NEARBY', gridX, stripY);
+
+    const nearby = Array.from(loot.values())
+      .filter((drop) => vec2Distance(drop.position, player.position) <= LOOT_PICKUP_RADIUS)
+      .sort((a, b) => vec2Distance(a.position, player.position) - vec2Distance(b.position, player.position));
+
+    const tileWidth = Math.max(72, this.cellSize * 2);
+    const tileCount = Math.floor((gridWidth + 8) / (tileWidth + 8));
+    if (nearby.length === 0) {
+      this.ctx.fillText('Nothing to pick up', gridX, stripY + 20);
+    }
+    for (let i = 0; i < Math.min(tileCount, nearby.length); i++) {
+      const drop = nearby[i];
+      const rect = { x: gridX + i * (tileWidth + 8), y: stripY + 20, width: tileWidth, height: lootTileHeight };
+      this.lootTiles.push({ rect, drop });
+      if (this.drag?.source === 'loot' && this.drag.moved && this.drag.id === drop.id) continue;
+      this.renderItem(drop.item, rect, false);
+    }
+
+    if (this.drag?.moved) {
+      this.renderDrag(this.drag, player);
+    }
+  }
+
+  private renderItem(item: InventoryItem, rect: Rect, selected: boolean): void {
+    const color = itemColor(item);
+    const inset = 2;
+
+    this.ctx.fillStyle = COLORS.buttonBg;
+    this.ctx.fillRect(rect.x + inset, rect.y + inset, rect.width - inset * 2, rect.height - inset * 2);
+    this.ctx.strokeStyle = selected ? COLORS.text : color;
+    this.ctx.lineWidth = selected ? 3 : 2;
+    this.ctx.strokeRect(rect.x + inset, rect.y + inset, rect.width - inset * 2, rect.height - inset * 2);
+
+    this.ctx.fillStyle = color;
+    this.ctx.font = 'bold 10px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(itemLabel(item), rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width - 8);
+  }
+
+  // The dragged item under the pointer, over a green or red preview of where it would land
+  private renderDrag(drag: DragState, player: Player): void {
+    const size = footprint(drag.item, drag.rotated);
+    const slot = this.slotUnder(drag);
+
+    if (slot && this.grid) {
+      const ignoreId = drag.source === 'item' ? drag.id : null;
+      const fits = canPlace(player.inventory, size.width, size.height, slot.x, slot.y, ignoreId);
+      this.ctx.fillStyle = fits ? COLORS.valid : COLORS.invalid;
+      this.ctx.fillRect(
+        this.grid.x + slot.x * this.cellSize,
+        this.grid.y + slot.y * this.cellSize,
+        size.width * this.cellSize,
+        size.height * this.cellSize
+      );
+    } else if (drag.source === 'item' && !this.insidePanel(drag.position)) {
+      this.ctx.fillStyle = COLORS.danger;
+      this.ctx.font = 'bold 12px sans-serif';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'bottom';
+      this.ctx.fillText('RELEASE TO DROP', drag.position.x, drag.position.y - 10);
+    }
+
+    this.ctx.globalAlpha = 0.8;
+    this.renderItem(drag.item, {
+      x: drag.position.x - (drag.grabX + 0.5) * this.cellSize,
+      y: drag.position.y - (drag.grabY + 0.5) * this.cellSize,
+      width: size.width * this.cellSize,
+      height: size.height * this.cellSize,
+    }, false);
+    this.ctx.globalAlpha = 1;
+  }
+
+  private addButton(button: ButtonDef): void {
+    this.buttons.push(button);
+
+    this.ctx.globalAlpha = button.disabled ? 0.4 : 1;
+    this.ctx.fillStyle = button.color || COLORS.buttonBg;
+    this.ctx.fillRect(button.x, button.y, button.width, button.height);
+    this.ctx.strokeStyle = COLORS.border;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    this.ctx.fillStyle = COLORS.text;
+    this.ctx.font = 'bold 13px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(button.text, button.x + button.width / 2, button.y + button.height / 2);
+    this.ctx.globalAlpha = 1;
+  }
+
+  pointerDown(position: Vector2): void {
+    if (!this.open || !this.player) return;
+
+    const button = this.buttons.find((b) => contains(b, position));
+    if (button) {
+      if (!button.disabled) this.handleButton(button.id);
+      return;
+    }
+
+    const tile = this.lootTiles.find((t) => contains(t.rect, position));
+    if (tile) {
+      this.drag = this.startDrag('loot', tile.drop.id, tile.drop.item, position, 0, 0);
+      return;
+    }
+
+    const cell = this.cellAt(position);
+    const item = cell && this.player.inventory.items.find((i) => {
+      const size = footprint(i, i.rotated);
+      return cell.x >= i.x && cell.x < i.x + size.width && cell.y >= i.y && cell.y < i.y + size.height;
+    });
+    if (cell && item) {
+      this.selectedId = item.id;
+      this.drag = this.startDrag('item', item.id, item, position, cell.x - item.x, cell.y - item.y);
+      return;
+    }
+
+    // Tapping outside the panel closes it
+    if (!this.insidePanel(position) && this.onCloseCallback) {
+      this.onCloseCallback();
+    }
+  }
+
+  pointerMove(position: Vector2): void {
+    const drag = this.drag;
+    if (!drag) return;
+
+    drag.position = position;
+    if (!drag.moved && vec2Distance(drag.start, position) >= DRAG_THRESHOLD) {
+      drag.moved = true;
+    }
+  }
+
+  pointerUp(position: Vector2): void {
+    const drag = this.drag;
+    if (!drag) return;
+    this.drag = null;
+    drag.position = position;
+
+    if (drag.source === 'loot') {
+      // A tap takes the first free space; a drag asks for a spot
+      const slot = drag.moved ? this.slotUnder(drag) : null;
+      if (drag.moved && !slot) return;
+      this.send({ type: 'pickup', lootId: drag.id, slot });
+      return;
+    }
+
+    if (!drag.moved) return; // a tap just selects
+
+    const slot = this.slotUnder(drag);
+    if (slot) {
+      this.send({ type: 'move', itemId: drag.id, slot });
+    } else if (!this.insidePanel(position) && drag.item.kind !== 'relic') {
+      this.send({ type: 'drop', itemId: drag.id });
+    }
+  }
+
+  private handleButton(id: string): void {
+    const item = this.player?.inventory.items.find((i) => i.id === this.selectedId);
+
+    switch (id) {
+      case 'close':
+        if (this.onCloseCallback) this.onCloseCallback();
+        return;
+      case 'rotate':
+        if (item) this.send({ type: 'move', itemId: item.id, slot: { x: item.x, y: item.y, rotated: !item.rotated } });
+        return;
+      case 'equip':
+        if (item) this.send({ type: 'equip', itemId: item.id });
+        return;
+      case 'use':
+        if (item) this.send({ type: 'use', itemId: item.id });
+        return;
+      case 'drop':
+        if (item) this.send({ type: 'drop', itemId: item.id });
+        return;
+    }
+  }
+
+  private startDrag(
+    source: DragState['source'],
+    id: string,
+    item: InventoryItem,
+    position: Vector2,
+    grabX: number,
+    grabY: number
+  ): DragState {
+    const rotated = source === 'item' ? item.rotated : false;
+    return { source, id, item, rotated, grabX, grabY, start: position, position, moved: false };
+  }
+
+  private send(command: InventoryCommand): void {
+    if (this.onCommandCallback) this.onCommandCallback(command);
+  }
+
+  // Top-left cell the dragged item would land on, if the pointer is over the grid
+  private slotUnder(drag: DragState): InventorySlot | null {
+    const cell = this.cellAt(drag.position);
+    if (!cell) return null;
+    return { x: cell.x - drag.grabX, y: cell.y - drag.grabY, rotated: drag.rotated };
+  }
+
+  private cellAt(position: Vector2): { x: number; y: number } | null {
+    const grid = this.grid;
+    if (!grid || !contains(grid, position)) return null;
+    return {
+      x: Math.min(Math.floor((position.x - grid.x) / this.cellSize), Math.round(grid.width / this.cellSize) - 1),
+      y: Math.min(Math.floor((position.y - grid.y) / this.cellSize), Math.round(grid.height / this.cellSize) - 1),
+    };
+  }
+
+  private insidePanel(position: Vector2): boolean {
+    return this.panel !== null && contains(this.panel, position);
+  }
+}
+
+function contains(rect: Rect, position: Vector2): boolean {
+  return (
+    position.x >= rect.x &&
+    position.x <= rect.x + rect.width &&
+    position.y >= rect.y &&
+    position.y <= rect.y + rect.height
+  );
+}
+
+// Stacks show how many they hold
+function itemLabel(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'ammo':
+      return `${item.quantity} ${item.ammoType.toUpperCase()}`;
+    case 'consumable':
+    case 'throwable':
+      return `${item.quantity} ${itemName(item).toUpperCase()}`;
+    default:
+      return itemName(item).toUpperCase();
+  }
+}
+
+function itemColor(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'weapon':
+      return RARITY_COLORS[item.weapon.rarity];
+    case 'ammo':
+      return COLORS.ammo;
+    case 'consumable':
+      return item.consumableType === 'medkit' ? COLORS.medkit : COLORS.shieldCell;
+    case 'throwable':
+      return COLORS.throwable;
+    case 'relic':
+      return COLORS.relic;
+  }
+}
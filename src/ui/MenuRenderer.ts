@@ -1,6 +1,9 @@
 import type { Role, GameScreen } from '../types';
 import { ROLE_STATS } from '../types';
+import { ROLE_ABILITIES } from '../entities/Ability';
 import { lobbyManager, SHARDS, type Shard, type Party, type PartyMember } from '../lib/lobby';
+import { compositionProblems, compositionRules } from '../lib/composition';
+import type { AimAssistSettings } from '../core/AimAssist';
 
 const COLORS = {
   background: '#0a0a0f',
@@ -30,6 +33,14 @@ export interface MenuState {
   queueTime: number;
   isGuest: boolean;
   username: string;
+  suspendedMatch: SuspendedMatchInfo | null; // practice match left mid-game
+  aimAssist: AimAssistSettings;
+}
+
+export interface SuspendedMatchInfo {
+  role: Role;
+  seed: string;
+  timeElapsed: number; // seconds into the match
 }
 
 interface ButtonDef {
@@ -121,6 +132,9 @@ export class MenuRenderer {
       case 'menu':
         this.renderMainMenu(width, height, state);
         break;
+      case 'settings':
+        this.renderSettings(width, height, state);
+        break;
       case 'shard-select':
         this.renderShardSelect(width, height, state);
         break;
@@ -222,14 +236,18 @@ export class MenuRenderer {
       color: COLORS.buttonBg,
     });
 
-    // Features list
-    this.ctx.fillStyle = COLORS.textDim;
-    this.ctx.font = '11px "Segoe UI", system-ui, sans-serif';
-    this.ctx.textAlign = 'center';
-    const features = ['• Save progress', '• Add friends', '• Join parties', '• Ranked matches'];
-    features.forEach((feature, i) => {
-      this.ctx.fillText(feature, width / 2, height * 0.75 + i * 18);
-    });
+    if (state.suspendedMatch) {
+      this.renderResumePrompt(width, height * 0.73, state.suspendedMatch);
+    } else {
+      // Features list
+      this.ctx.fillStyle = COLORS.textDim;
+      this.ctx.font = '11px "Segoe UI", system-ui, sans-serif';
+      this.ctx.textAlign = 'center';
+      const features = ['• Save progress', '• Add friends', '• Join parties', '• Ranked matches'];
+      features.forEach((feature, i) => {
+        this.ctx.fillText(feature, width / 2, height * 0.75 + i * 18);
+      });
+    }
 
     // Version
     this.ctx.fillStyle = COLORS.textMuted;
@@ -237,6 +255,46 @@ export class MenuRenderer {
     this.ctx.fillText('v0.1.0 Alpha', width / 2, height - 20);
   }
 
+  // Offer to pick up a practice match lost to a reload or closed tab
+  private renderResumePrompt(width: number, y: number, match: SuspendedMatchInfo): void {
+    const minutes = Math.floor(match.timeElapsed / 60);
+    const seconds = Math.floor(match.timeElapsed % 60);
+
+    this.ctx.fillStyle = COLORS.warning;
+    this.ctx.font = 'bold 13px "Segoe UI", system-ui, sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('PRACTICE MATCH IN PROGRESS', width / 2, y);
+
+    this.ctx.fillStyle = COLORS.textDim;
+    this.ctx.font = '11px "Segoe UI", system-ui, sans-serif';
+    this.ctx.fillText(
+      `${match.role.toUpperCase()} • ${minutes}:${seconds.toString().padStart(2, '0')} in • Seed ${match.seed}`,
+      width / 2,
+      y + 20
+    );
+
+    this.addButton({
+      id: 'resume-match',
+      x: width / 2 - 140,
+      y: y + 36,
+      width: 170,
+      height: 44,
+      text: 'RESUME',
+      color: COLORS.primary,
+      textColor: COLORS.background,
+    });
+
+    this.addButton({
+      id: 'discard-match',
+      x: width / 2 + 40,
+      y: y + 36,
+      width: 100,
+      height: 44,
+      text: 'DISCARD',
+      color: COLORS.buttonBg,
+    });
+  }
+
   private renderMainMenu(width: number, height: number, state: MenuState): void {
     // Header with user info
     this.ctx.fillStyle = COLORS.text;
@@ -291,6 +349,28 @@ export class MenuRenderer {
       color: COLORS.buttonBg,
     });
 
+    // Practice on a shared seed
+    this.addButton({
+      id: 'practice-seed',
+      x: centerX,
+      y: height * 0.35 + (buttonHeight + 15) * 3,
+      width: buttonWidth,
+      height: buttonHeight,
+      text: 'ENTER SEED',
+      color: COLORS.buttonBg,
+    });
+
+    // Replays button (smaller, bottom)
+    this.addButton({
+      id: 'replays',
+      x: width - 230,
+      y: height - 50,
+      width: 100,
+      height: 35,
+      text: 'REPLAYS',
+      color: COLORS.buttonBg,
+    });
+
     // Settings button (smaller, bottom)
     this.addButton({
       id: 'settings',
@@ -303,6 +383,74 @@ export class MenuRenderer {
     });
   }
 
+  private renderSettings(width: number, height: number, state: MenuState): void {
+    // Back button
+    this.addButton({
+      id: 'back',
+      x: 20,
+      y: 20,
+      width: 80,
+      height: 35,
+      text: '← BACK',
+      color: COLORS.buttonBg,
+    });
+
+    // Title
+    this.ctx.fillStyle = COLORS.text;
+    this.ctx.font = 'bold 28px "Segoe UI", system-ui, sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('SETTINGS', width / 2, height * 0.12);
+
+    // Aim assist, which only bends the touch aim stick
+    const { enabled, strength } = state.aimAssist;
+    const rowY = height * 0.3;
+    this.ctx.fillStyle = COLORS.textDim;
+    this.ctx.font = '14px "Segoe UI", system-ui, sans-serif';
+    this.ctx.fillText('TOUCH AIM ASSIST', width / 2, rowY - 20);
+
+    this.addButton({
+      id: 'aim-assist-toggle',
+      x: width / 2 - 150,
+      y: rowY,
+      width: 300,
+      height: 50,
+      text: enabled ? 'AIM ASSIST: ON' : 'AIM ASSIST: OFF',
+      color: enabled ? COLORS.primary : COLORS.buttonBg,
+      textColor: enabled ? COLORS.background : COLORS.text,
+    });
+
+    // Strength, in steps of 10%
+    const strengthY = rowY + 70;
+    this.addButton({
+      id: 'aim-assist-weaker',
+      x: width / 2 - 150,
+      y: strengthY,
+      width: 50,
+      height: 50,
+      text: '−',
+      color: COLORS.buttonBg,
+      textColor: !enabled || strength <= 0 ? COLORS.textMuted : undefined,
+      disabled: !enabled || strength <= 0,
+    });
+    this.addButton({
+      id: 'aim-assist-stronger',
+      x: width / 2 + 100,
+      y: strengthY,
+      width: 50,
+      height: 50,
+      text: '+',
+      color: COLORS.buttonBg,
+      textColor: !enabled || strength >= 1 ? COLORS.textMuted : undefined,
+      disabled: !enabled || strength >= 1,
+    });
+
+    this.ctx.fillStyle = enabled ? COLORS.text : COLORS.textMuted;
+    this.ctx.font = 'bold 16px "Segoe UI", system-ui, sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(`STRENGTH ${Math.round(strength * 100)}%`, width / 2, strengthY + 25);
+  }
+
   private renderShardSelect(width: number, height: number, state: MenuState): void {
     // Back button
     this.addButton({
@@ -404,6 +552,18 @@ export class MenuRenderer {
     this.ctx.font = '14px "Segoe UI", system-ui, sans-serif';
     this.ctx.fillText(shardName, width / 2, height * 0.1 + 25);
 
+    // Mode, cycled by the leader clicking
+    const mode = state.party?.mode ?? 'standard';
+    this.addButton({
+      id: 'mode',
+      x: width / 2 - 70,
+      y: height * 0.1 + 40,
+      width: 140,
+      height: 30,
+      text: compositionRules(mode).name.toUpperCase(),
+      color: COLORS.buttonBg,
+    });
+
     // Party member slots
     const slotWidth = 180;
     const slotHeight = 200;
@@ -446,16 +606,41 @@ export class MenuRenderer {
       });
     });
 
+    // What the selected role brings
+    const abilities = ROLE_ABILITIES[state.selectedRole];
+    const detailsY = height * 0.7 + roleButtonHeight + 20;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillStyle = COLORS.primary;
+    this.ctx.font = 'bold 13px "Segoe UI", system-ui, sans-serif';
+    this.ctx.fillText(`${abilities.abilityName.toUpperCase()}: ${abilities.abilityDescription}`, width / 2, detailsY);
+    this.ctx.fillStyle = COLORS.textDim;
+    this.ctx.font = '12px "Segoe UI", system-ui, sans-serif';
+    this.ctx.fillText(`PASSIVE - ${abilities.passiveName}: ${abilities.passiveDescription}`, width / 2, detailsY + 18);
+
+    // Composition problems block readying until someone switches role
+    const problems = compositionProblems(mode, state.party?.members?.map(m => m.role) ?? []);
+    if (problems.length > 0) {
+      this.ctx.fillStyle = COLORS.warning;
+      this.ctx.font = 'bold 12px "Segoe UI", system-ui, sans-serif';
+      problems.forEach((problem, i) => {
+        this.ctx.fillText(problem, width / 2, height * 0.88 - 30 + i * 16 - (problems.length - 1) * 16);
+      });
+    }
+
     // Ready/Find Match button
     const allReady = state.party?.members?.every(m => m.is_ready) ?? false;
+    const blocked = problems.length > 0;
     this.addButton({
       id: 'find-match',
       x: width / 2 - 150,
       y: height * 0.88,
       width: 300,
       height: 55,
-      text: allReady ? 'FIND MATCH' : 'READY UP',
-      color: COLORS.secondary,
+      text: blocked ? 'INVALID SQUAD' : allReady ? 'FIND MATCH' : 'READY UP',
+      color: blocked ? COLORS.buttonBg : COLORS.secondary,
+      textColor: blocked ? COLORS.textMuted : undefined,
+      disabled: blocked,
     });
 
     // Invite friend button
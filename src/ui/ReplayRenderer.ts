@@ -0,0 +1,182 @@
+import type { MatchReplay } from '../core/MatchReplay';
+
+const COLORS = {
+  panel: 'rgba(10, 10, 15, 0.85)',
+  border: '#333344',
+  buttonBg: '#1a1a25',
+  primary: '#00f7ff',
+  danger: '#ff4466',
+  text: '#ffffff',
+  textDim: '#888899',
+  track: '#252535',
+};
+
+interface ButtonDef {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color?: string;
+}
+
+interface TrackRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Playback bar drawn over the match view: exit, pause, speed, timeline, export
+export class ReplayRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private buttons: ButtonDef[] = [];
+  private track: TrackRect | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext('2d')!;
+  }
+
+  render(replay: MatchReplay): void {
+    this.buttons = [];
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = this.canvas.width / dpr;
+    const height = this.canvas.height / dpr;
+
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.scale(dpr, dpr);
+
+    const barHeight = 56;
+    const barY = height - barHeight;
+
+    // Panel
+    this.ctx.fillStyle = COLORS.panel;
+    this.ctx.fillRect(0, barY, width, barHeight);
+    this.ctx.strokeStyle = COLORS.border;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(0, barY);
+    this.ctx.lineTo(width, barY);
+    this.ctx.stroke();
+
+    const buttonSize = 40;
+    const buttonY = barY + (barHeight - buttonSize) / 2;
+    let x = 10;
+
+    this.addButton({ id: 'replay-exit', x, y: buttonY, width: 60, height: buttonSize, text: 'EXIT', color: COLORS.danger });
+    x += 70;
+    this.addButton({
+      id: 'replay-pause',
+      x,
+      y: buttonY,
+      width: buttonSize,
+      height: buttonSize,
+      text: replay.isPaused() || replay.isFinished() ? '▶' : '❚❚',
+    });
+    x += buttonSize + 10;
+    this.addButton({ id: 'replay-slower', x, y: buttonY, width: buttonSize, height: buttonSize, text: '-' });
+    x += buttonSize;
+
+    // Speed label between - and +
+    this.ctx.fillStyle = COLORS.text;
+    this.ctx.font = 'bold 12px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(`${replay.getSpeed()}x`, x + 24, barY + barHeight / 2);
+    x += 48;
+
+    this.addButton({ id: 'replay-faster', x, y: buttonY, width: buttonSize, height: buttonSize, text: '+' });
+    x += buttonSize + 15;
+
+    // Export on the right
+    const exportWidth = 80;
+    this.addButton({
+      id: 'replay-export',
+      x: width - exportWidth - 10,
+      y: buttonY,
+      width: exportWidth,
+      height: buttonSize,
+      text: 'EXPORT',
+    });
+
+    // Timeline fills the remaining space
+    const timeLabelWidth = 90;
+    const trackX = x;
+    const trackWidth = Math.max(40, width - exportWidth - 20 - timeLabelWidth - trackX);
+    const trackY = barY + barHeight / 2 - 4;
+    this.track = { x: trackX, y: barY, width: trackWidth, height: barHeight };
+
+    this.ctx.fillStyle = COLORS.track;
+    this.ctx.fillRect(trackX, trackY, trackWidth, 8);
+    this.ctx.fillStyle = COLORS.primary;
+    this.ctx.fillRect(trackX, trackY, trackWidth * replay.getProgress(), 8);
+
+    // Playhead
+    this.ctx.beginPath();
+    this.ctx.arc(trackX + trackWidth * replay.getProgress(), trackY + 4, 8, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    // Time readout
+    const tickRate = replay.recording.tickRate;
+    this.ctx.fillStyle = COLORS.textDim;
+    this.ctx.font = '12px sans-serif';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText(
+      `${formatTime(replay.getTick() / tickRate)} / ${formatTime(replay.getDurationTicks() / tickRate)}`,
+      trackX + trackWidth + 10,
+      barY + barHeight / 2
+    );
+
+    // Mode banner
+    this.ctx.fillStyle = COLORS.primary;
+    this.ctx.font = 'bold 12px sans-serif';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText('REPLAY · free camera', 15, barY - 20);
+  }
+
+  private addButton(button: ButtonDef): void {
+    this.buttons.push(button);
+
+    this.ctx.fillStyle = button.color || COLORS.buttonBg;
+    this.ctx.fillRect(button.x, button.y, button.width, button.height);
+    this.ctx.strokeStyle = COLORS.border;
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(button.x, button.y, button.width, button.height);
+
+    this.ctx.fillStyle = COLORS.text;
+    this.ctx.font = 'bold 14px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(button.text, button.x + button.width / 2, button.y + button.height / 2);
+  }
+
+  hitTest(x: number, y: number): string | null {
+    for (const button of this.buttons) {
+      if (x >= button.x && x <= button.x + button.width && y >= button.y && y <= button.y + button.height) {
+        return button.id;
+      }
+    }
+    return null;
+  }
+
+  // Fraction along the timeline for a tap on it, or null if it missed
+  timelineHitTest(x: number, y: number): number | null {
+    const track = this.track;
+    if (!track) return null;
+    if (x < track.x || x > track.x + track.width || y < track.y || y > track.y + track.height) {
+      return null;
+    }
+    return (x - track.x) / track.width;
+  }
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
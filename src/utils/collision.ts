@@ -0,0 +1,102 @@
+import type { Vector2, Structure } from '../types';
+import {
+  vec2Distance,
+  vec2Normalize,
+  vec2Sub,
+  vec2Rotate,
+  getCircleRectPushVector,
+  segmentCircleIntersection,
+  segmentRotatedRectIntersection,
+} from './math';
+import { SpatialHash } from './spatialHash';
+
+// Radius of the circle that encloses a structure at any rotation
+export function structureBoundingRadius(structure: Structure): number {
+  if (structure.type === 'pillar') return structure.width / 2;
+  return Math.hypot(structure.width, structure.height) / 2;
+}
+
+export function createStructureIndex(structures: Iterable<Structure>): SpatialHash<Structure> {
+  const index = new SpatialHash<Structure>();
+  for (const structure of structures) {
+    index.insert(structure, structure.position, structureBoundingRadius(structure));
+  }
+  return index;
+}
+
+// Push a circle out of every structure it overlaps (mutates position)
+export function resolveCircleStructureCollisions(
+  structures: Iterable<Structure>,
+  position: Vector2,
+  radius: number
+): void {
+  for (const structure of structures) {
+    // Special handling for pillars (circular)
+    if (structure.type === 'pillar') {
+      const dist = vec2Distance(position, structure.position);
+      const minDist = radius + structure.width / 2;
+      if (dist < minDist) {
+        const pushDir = vec2Normalize(vec2Sub(position, structure.position));
+        const pushDist = minDist - dist;
+        position.x += pushDir.x * pushDist;
+        position.y += pushDir.y * pushDist;
+      }
+    } else {
+      // Rectangular structures
+      const push = getCircleRectPushVector(
+        position,
+        radius,
+        structure.position,
+        structure.width,
+        structure.height,
+        structure.rotation
+      );
+      if (push) {
+        position.x += push.x;
+        position.y += push.y;
+      }
+    }
+  }
+}
+
+// Earliest fraction along a->b at which a circle of `radius` moving along the
+// segment touches the structure, or null if it misses. Rectangles are padded
+// square-cornered, which is close enough for bullets.
+export function sweepStructure(a: Vector2, b: Vector2, radius: number, structure: Structure): number | null {
+  if (structure.type === 'pillar') {
+    return segmentCircleIntersection(a, b, structure.position, structure.width / 2 + radius);
+  }
+
+  return segmentRotatedRectIntersection(
+    a,
+    b,
+    structure.position,
+    structure.width + radius * 2,
+    structure.height + radius * 2,
+    structure.rotation
+  );
+}
+
+// Outward normal of the structure face nearest `point` (a point on or just
+// outside its surface, e.g. where a sweep stopped)
+export function structureNormal(point: Vector2, structure: Structure): Vector2 {
+  if (structure.type === 'pillar') {
+    return vec2Normalize(vec2Sub(point, structure.position));
+  }
+
+  // The face the point sits furthest beyond, in the structure's own frame
+  const local = vec2Rotate(vec2Sub(point, structure.position), -structure.rotation);
+  const beyondX = Math.abs(local.x) - structure.width / 2;
+  const beyondY = Math.abs(local.y) - structure.height / 2;
+  const normal = beyondX > beyondY ? { x: Math.sign(local.x), y: 0 } : { x: 0, y: Math.sign(local.y) };
+  return vec2Rotate(normal, structure.rotation);
+}
+
+// Whether nothing stands between two points. Every structure stops bullets,
+// so every structure blocks sight.
+export function hasLineOfSight(from: Vector2, to: Vector2, structures: Iterable<Structure>): boolean {
+  for (const structure of structures) {
+    if (sweepStructure(from, to, 0, structure) !== null) return false;
+  }
+  return true;
+}
@@ -66,6 +66,19 @@ export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
 
+// Signed turn from angle a to angle b the short way round, in [-PI, PI]
+export function angleDifference(a: number, b: number): number {
+  let diff = (b - a) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+}
+
+// Interpolate between two angles the short way round
+export function lerpAngle(a: number, b: number, t: number): number {
+  return a + angleDifference(a, b) * t;
+}
+
 export function randomRange(min: number, max: number): number {
   return min + Math.random() * (max - min);
 }
@@ -185,6 +198,79 @@ export function getCircleRectPushVector(
   return { x: pushWorldX, y: pushWorldY };
 }
 
+// Earliest fraction (0-1) along segment a->b at which it touches the circle;
+// 0 if it starts inside, null if it never touches
+export function segmentCircleIntersection(
+  a: Vector2,
+  b: Vector2,
+  center: Vector2,
+  radius: number
+): number | null {
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const c = fx * fx + fy * fy - radius * radius;
+  if (c <= 0) return 0;
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return null;
+
+  const half = fx * dx + fy * dy;
+  const discriminant = half * half - lengthSq * c;
+  if (discriminant < 0) return null;
+
+  const t = (-half - Math.sqrt(discriminant)) / lengthSq;
+  return t >= 0 && t <= 1 ? t : null;
+}
+
+// Same as segmentCircleIntersection, for a rotated rectangle
+export function segmentRotatedRectIntersection(
+  a: Vector2,
+  b: Vector2,
+  rectPos: Vector2,
+  rectWidth: number,
+  rectHeight: number,
+  rectRotation: number
+): number | null {
+  // Transform the segment to rectangle's local space
+  const cos = Math.cos(-rectRotation);
+  const sin = Math.sin(-rectRotation);
+  const ax = a.x - rectPos.x;
+  const ay = a.y - rectPos.y;
+  const bx = b.x - rectPos.x;
+  const by = b.y - rectPos.y;
+  const startX = ax * cos - ay * sin;
+  const startY = ax * sin + ay * cos;
+  const deltaX = bx * cos - by * sin - startX;
+  const deltaY = bx * sin + by * cos - startY;
+
+  // Clip the segment against each pair of parallel sides (slab test)
+  let tMin = 0;
+  let tMax = 1;
+  const slabs: [number, number, number][] = [
+    [startX, deltaX, rectWidth / 2],
+    [startY, deltaY, rectHeight / 2],
+  ];
+
+  for (const [start, delta, half] of slabs) {
+    if (delta === 0) {
+      if (start < -half || start > half) return null;
+      continue;
+    }
+
+    let t1 = (-half - start) / delta;
+    let t2 = (half - start) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+
+  return tMin;
+}
+
 // Check if a point is inside a rotated rectangle
 export function pointInRotatedRect(
   point: Vector2,
@@ -0,0 +1,96 @@
+// Pre-allocated object storage. Objects are created up front (and in doubling
+// batches if the pool runs dry) and recycled on release, so steady firing
+// allocates nothing. Live objects stay densely packed in `items`, in no
+// particular order, for fast iteration. Each live object has a handle that
+// stays valid until it is released; releasing swaps the last live object into
+// the freed place, so it is O(1).
+export class Pool<T> {
+  readonly items: T[] = [];
+
+  private factory: () => T;
+  private slots: T[] = []; // every object ever allocated, by handle
+  private handles: number[] = []; // handle of items[i]
+  private positions: number[] = []; // index in items by handle, -1 when free
+  private free: number[] = [];
+
+  constructor(factory: () => T, capacity: number) {
+    this.factory = factory;
+    this.grow(capacity);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get capacity(): number {
+    return this.slots.length;
+  }
+
+  // Take a free object. It still holds whatever its last user left in it, so
+  // the caller must initialise every field.
+  acquire(): number {
+    if (this.free.length === 0) {
+      this.grow(Math.max(this.slots.length, 16));
+    }
+
+    const handle = this.free.pop()!;
+    this.positions[handle] = this.items.length;
+    this.items.push(this.slots[handle]);
+    this.handles.push(handle);
+    return handle;
+  }
+
+  get(handle: number): T {
+    return this.slots[handle];
+  }
+
+  isLive(handle: number): boolean {
+    return this.positions[handle] >= 0;
+  }
+
+  handleAt(index: number): number {
+    return this.handles[index];
+  }
+
+  release(handle: number): void {
+    if (this.isLive(handle)) {
+      this.releaseAt(this.positions[handle]);
+    }
+  }
+
+  // When releasing while iterating `items`, walk it backwards: the object
+  // swapped into `index` has then already been visited
+  releaseAt(index: number): void {
+    const handle = this.handles[index];
+    const last = this.items.length - 1;
+
+    if (index !== last) {
+      this.items[index] = this.items[last];
+      this.handles[index] = this.handles[last];
+      this.positions[this.handles[index]] = index;
+    }
+
+    this.items.pop();
+    this.handles.pop();
+    this.positions[handle] = -1;
+    this.free.push(handle);
+  }
+
+  clear(): void {
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      this.releaseAt(i);
+    }
+  }
+
+  private grow(count: number): void {
+    // Push in reverse so low handles are handed out first
+    const start = this.slots.length;
+    for (let i = 0; i < count; i++) {
+      this.slots.push(this.factory());
+      this.positions.push(-1);
+    }
+    for (let handle = start + count - 1; handle >= start; handle--) {
+      this.free.push(handle);
+    }
+  }
+}
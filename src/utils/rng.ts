@@ -0,0 +1,77 @@
+// Seedable PRNG (mulberry32) so match generation and simulation can be replayed
+
+// Same alphabet as party codes: no 0/O or 1/I confusion
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SEED_CODE_LENGTH = 6; // 6 chars x 5 bits = 30-bit seeds
+const SEED_MAX = 2 ** (SEED_CODE_LENGTH * 5);
+
+export class Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Inclusive of both ends
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * SEED_MAX);
+}
+
+// Derive an independent stream from a seed (e.g. generation vs simulation)
+export function deriveSeed(seed: number, stream: number): number {
+  return (Math.imul(seed ^ stream, 0x9e3779b1) ^ (stream << 16)) >>> 0;
+}
+
+export function encodeSeed(seed: number): string {
+  let value = seed % SEED_MAX;
+  let code = '';
+  for (let i = 0; i < SEED_CODE_LENGTH; i++) {
+    code = SEED_ALPHABET[value % 32] + code;
+    value = Math.floor(value / 32);
+  }
+  return code;
+}
+
+// Returns null for codes that are not valid seed codes
+export function decodeSeed(code: string): number | null {
+  const normalized = code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (normalized.length !== SEED_CODE_LENGTH) return null;
+
+  let value = 0;
+  for (const char of normalized) {
+    const digit = SEED_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * 32 + digit;
+  }
+  return value;
+}
@@ -0,0 +1,111 @@
+import type { Vector2 } from '../types';
+
+// Roughly the size of the largest structure, so most items sit in 1-4 cells
+export const DEFAULT_CELL_SIZE = 128;
+
+interface Entry<T> {
+  item: T;
+  x: number;
+  y: number;
+  radius: number;
+  stamp: number; // last query that returned this entry
+}
+
+// Uniform grid broadphase. Items are inserted with a bounding circle and
+// filed under every cell that circle touches; queries only look at the cells
+// under the query circle and return items whose bounding circles overlap it.
+// Callers still do the exact shape test. Entries and cell lists are reused
+// across clear() so rebuilding every tick does not allocate.
+export class SpatialHash<T> {
+  private cellSize: number;
+  private cells: Map<number, Entry<T>[]> = new Map();
+  private entries: Entry<T>[] = [];
+  private count: number = 0;
+  private queryStamp: number = 0;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  clear(): void {
+    for (const cell of this.cells.values()) {
+      cell.length = 0;
+    }
+    this.count = 0;
+  }
+
+  insert(item: T, position: Vector2, radius: number = 0): void {
+    let entry = this.entries[this.count];
+    if (entry) {
+      entry.item = item;
+      entry.x = position.x;
+      entry.y = position.y;
+      entry.radius = radius;
+    } else {
+      entry = { item, x: position.x, y: position.y, radius, stamp: 0 };
+      this.entries.push(entry);
+    }
+
+    const minX = this.cellOf(position.x - radius);
+    const maxX = this.cellOf(position.x + radius);
+    const minY = this.cellOf(position.y - radius);
+    const maxY = this.cellOf(position.y + radius);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const key = cellKey(cx, cy);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          this.cells.set(key, [entry]);
+        }
+      }
+    }
+    this.count++;
+  }
+
+  // Items whose bounding circle overlaps the given circle, each returned once.
+  // Pass a reused `out` array in hot loops.
+  query(position: Vector2, radius: number, out: T[] = []): T[] {
+    const stamp = ++this.queryStamp;
+    const minX = this.cellOf(position.x - radius);
+    const maxX = this.cellOf(position.x + radius);
+    const minY = this.cellOf(position.y - radius);
+    const maxY = this.cellOf(position.y + radius);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = this.cells.get(cellKey(cx, cy));
+        if (!cell) continue;
+
+        for (const entry of cell) {
+          if (entry.stamp === stamp) continue;
+          entry.stamp = stamp;
+
+          const dx = entry.x - position.x;
+          const dy = entry.y - position.y;
+          const reach = entry.radius + radius;
+          if (dx * dx + dy * dy <= reach * reach) {
+            out.push(entry.item);
+          }
+        }
+      }
+    }
+
+    return out;
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+}
+
+// Cells wrap every 65536 in each axis; aliasing only adds false candidates
+function cellKey(cx: number, cy: number): number {
+  return (cx & 0xffff) * 0x10000 + (cy & 0xffff);
+}
@@ -0,0 +1,114 @@
+import type { MatchEvent, MatchState, Player, SmokeCloud, Structure, Vector2 } from '../types';
+import { ROLE_STATS } from '../types';
+import { pointInCircle, vec2Add, vec2Distance, vec2FromAngle, vec2Lerp } from './math';
+import { hasLineOfSight, sweepStructure } from './collision';
+import type { SpatialHash } from './spatialHash';
+
+// Fog of war rules shared by the server (what each team is sent) and the
+// client (what is drawn). A team sees what its living members see: enemies
+// inside a member's awareness range with no structure in between and nobody
+// in smoke, plus anyone a scan or a sentinel's hit has revealed to it.
+
+// Rays per visibility polygon; enough that corners only look slightly soft
+const POLYGON_RAYS = 120;
+
+export interface TeamVision {
+  visibleEnemies: Set<string>; // player ids
+  areas: Vector2[][]; // one visibility polygon per living member
+}
+
+export function inSmoke(position: Vector2, smokes: Iterable<SmokeCloud>): boolean {
+  for (const smoke of smokes) {
+    if (pointInCircle(position, smoke.position, smoke.radius)) return true;
+  }
+  return false;
+}
+
+export function canSee(
+  viewer: Player,
+  target: Vector2,
+  structures: SpatialHash<Structure>,
+  smokes: Iterable<SmokeCloud>
+): boolean {
+  const distance = vec2Distance(viewer.position, target);
+  if (distance > ROLE_STATS[viewer.role].awarenessRange) return false;
+  if (inSmoke(target, smokes) || inSmoke(viewer.position, smokes)) return false;
+
+  // Only structures near the line can block it
+  const middle = vec2Lerp(viewer.position, target, 0.5);
+  return hasLineOfSight(viewer.position, target, structures.query(middle, distance / 2));
+}
+
+export function visibleEnemyIds(state: MatchState, teamId: string, structures: SpatialHash<Structure>): Set<string> {
+  const viewers = teamViewers(state, teamId);
+  const visible = new Set<string>();
+
+  for (const player of state.players.values()) {
+    if (!player.isAlive || player.teamId === teamId) continue;
+
+    const revealed = player.revealTimer > 0 && player.revealedToTeamId === teamId;
+    if (revealed || viewers.some((viewer) => canSee(viewer, player.position, structures, state.smokes.values()))) {
+      visible.add(player.id);
+    }
+  }
+  return visible;
+}
+
+export function computeTeamVision(state: MatchState, teamId: string, structures: SpatialHash<Structure>): TeamVision {
+  return {
+    visibleEnemies: visibleEnemyIds(state, teamId, structures),
+    areas: teamViewers(state, teamId).map((viewer) =>
+      visibilityPolygon(viewer.position, ROLE_STATS[viewer.role].awarenessRange, structures)
+    ),
+  };
+}
+
+// Outline of what can be seen from `origin` out to `range`, as points going
+// round it. Each ray stops at the first structure it meets.
+export function visibilityPolygon(origin: Vector2, range: number, structures: SpatialHash<Structure>): Vector2[] {
+  const nearby = structures.query(origin, range);
+  const points: Vector2[] = [];
+
+  for (let i = 0; i < POLYGON_RAYS; i++) {
+    const end = vec2Add(origin, vec2FromAngle((i / POLYGON_RAYS) * Math.PI * 2, range));
+    let nearest = 1;
+    for (const structure of nearby) {
+      const t = sweepStructure(origin, end, 0, structure);
+      if (t !== null && t < nearest) nearest = t;
+    }
+    points.push(vec2Lerp(origin, end, nearest));
+  }
+  return points;
+}
+
+// What a team may hear of an event, given the enemies hidden from it: null
+// when the event would give a hidden enemy away, otherwise the event with
+// anything else about hidden enemies stripped out
+export function eventForTeam(event: MatchEvent, hidden: Set<string>): MatchEvent | null {
+  switch (event.type) {
+    case 'PhaseChanged':
+      return event;
+    // The kill feed and objectives are public; where a hidden player was is not
+    case 'PlayerEliminated':
+    case 'TeamEliminated':
+      return event.attackerId && hidden.has(event.attackerId) ? { ...event, position: null } : event;
+    case 'RelicPickedUp':
+    case 'RelicDelivered':
+      return hidden.has(event.playerId) ? { ...event, position: null } : event;
+    // Everyone sees the blast, not who threw it
+    case 'GrenadeExploded':
+      return hidden.has(event.ownerId) ? { ...event, ownerId: '' } : event;
+    case 'PlayerDamaged':
+    case 'PlayerDowned':
+      return hidden.has(event.attackerId) || hidden.has(event.victimId) ? null : event;
+    case 'PlayerRevived':
+      return hidden.has(event.playerId) || hidden.has(event.reviverId) ? null : event;
+    case 'OrbCollected':
+    case 'AbilityUsed':
+      return hidden.has(event.playerId) ? null : event;
+  }
+}
+
+function teamViewers(state: MatchState, teamId: string): Player[] {
+  return Array.from(state.players.values()).filter((player) => player.isAlive && player.teamId === teamId);
+}
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_SUPABASE_URL: string;
+  readonly VITE_MATCH_SERVER_URL?: string; // e.g. ws://localhost:8787; practice vs bots when unset
 }
 
 interface ImportMeta {
@@ -34,6 +34,7 @@ CREATE TABLE IF NOT EXISTS parties (
   code TEXT UNIQUE, -- 6-char join code
   max_size INTEGER DEFAULT 3,
   is_open BOOLEAN DEFAULT TRUE,
+  mode TEXT DEFAULT 'standard' CHECK (mode IN ('standard', 'ranked', 'custom')), -- what the party queues for
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -260,6 +261,117 @@ CREATE TRIGGER party_code_trigger
   FOR EACH ROW
   EXECUTE FUNCTION set_party_code();
 
+-- Why a party may not queue for its mode; empty when it may.
+-- Keep in step with src/lib/composition.ts.
+CREATE OR REPLACE FUNCTION party_composition_problems(p_party_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  party_mode TEXT;
+  rule_name TEXT;
+  max_per_role INTEGER;
+  min_supports INTEGER;
+  problems TEXT[] := '{}';
+  over RECORD;
+  supports INTEGER;
+BEGIN
+  SELECT mode INTO party_mode FROM parties WHERE id = p_party_id;
+
+  SELECT r.name, r.max_per_role, r.min_supports INTO rule_name, max_per_role, min_supports
+  FROM (VALUES
+    ('standard', 'Standard', 2, 0),
+    ('ranked', 'Ranked', 1, 1),
+    ('custom', 'Custom', 3, 0)
+  ) AS r(mode, name, max_per_role, min_supports)
+  WHERE r.mode = party_mode;
+
+  FOR over IN
+    SELECT role FROM party_members WHERE party_id = p_party_id
+    GROUP BY role HAVING COUNT(*) > max_per_role
+  LOOP
+    problems := problems || format('%s: at most %s %s per team', rule_name, max_per_role, upper(over.role));
+  END LOOP;
+
+  SELECT COUNT(*) INTO supports FROM party_members
+  WHERE party_id = p_party_id AND role IN ('catalyst');
+  IF supports < min_supports THEN
+    problems := problems || format('%s: team needs a support (CATALYST)', rule_name);
+  END IF;
+
+  RETURN problems;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A party only queues for lobbies of its mode, with a squad its mode allows.
+-- Locking the party row serializes this against the party triggers below;
+-- they run as the owner so members who cannot update the party still lock it.
+CREATE OR REPLACE FUNCTION check_lobby_team()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_mode TEXT;
+  lobby_mode TEXT;
+  problems TEXT[];
+BEGIN
+  SELECT mode INTO party_mode FROM parties WHERE id = NEW.party_id FOR UPDATE;
+  SELECT mode INTO lobby_mode FROM lobbies WHERE id = NEW.lobby_id;
+  IF party_mode IS DISTINCT FROM lobby_mode THEN
+    RAISE EXCEPTION 'Party is set to % but the lobby is %', party_mode, lobby_mode;
+  END IF;
+
+  problems := party_composition_problems(NEW.party_id);
+  IF array_length(problems, 1) > 0 THEN
+    RAISE EXCEPTION 'Invalid team composition: %', array_to_string(problems, '; ');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER lobby_team_composition_trigger
+  BEFORE INSERT ON lobby_teams
+  FOR EACH ROW
+  EXECUTE FUNCTION check_lobby_team();
+
+-- Whether a party is waiting in a lobby
+CREATE OR REPLACE FUNCTION party_is_queued(p_party_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lobby_teams
+    JOIN lobbies ON lobbies.id = lobby_teams.lobby_id
+    WHERE lobby_teams.party_id = p_party_id AND lobbies.status = 'waiting'
+  );
+$$ LANGUAGE sql;
+
+-- Once queued, a squad and its mode are fixed until it leaves the queue
+CREATE OR REPLACE FUNCTION lock_queued_party_members()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM 1 FROM parties WHERE id = NEW.party_id FOR UPDATE;
+  IF party_is_queued(NEW.party_id) THEN
+    RAISE EXCEPTION 'Party is in the queue';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER party_members_queue_trigger
+  BEFORE INSERT OR UPDATE OF role, party_id ON party_members
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_queued_party_members();
+
+CREATE OR REPLACE FUNCTION lock_queued_party_mode()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mode IS DISTINCT FROM OLD.mode AND party_is_queued(NEW.id) THEN
+    RAISE EXCEPTION 'Party is in the queue';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER party_mode_queue_trigger
+  BEFORE UPDATE OF mode ON parties
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_queued_party_mode();
+
 -- Function to create profile on signup
 CREATE OR REPLACE FUNCTION handle_new_user()
 RETURNS TRIGGER AS $$
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MatchState } from '../src/types';
+import { DEFAULT_CONFIG } from '../src/types';
+import { MatchSimulation } from '../src/core/MatchSimulation';
+import { createPracticeMatch } from '../src/core/MatchSetup';
+import { serializeMatchState } from '../src/core/MatchSerializer';
+import { MatchPatcher, applyMatchPatch, type MatchPatch } from '../src/core/MatchPatch';
+
+// Posting a patch to the main thread copies it
+function patch(patcher: MatchPatcher, simulation: MatchSimulation): MatchPatch {
+  const { state, projectiles, orbs } = simulation;
+  return structuredClone(patcher.createPatch(simulation.getTick(), state, projectiles, orbs));
+}
+
+function createSimulation(): MatchSimulation {
+  const simulation = new MatchSimulation(createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 5), DEFAULT_CONFIG);
+  simulation.spawnStressProjectiles(5);
+  return simulation;
+}
+
+describe('MatchPatch', () => {
+  it('keeps the main thread copy in step with the simulation', () => {
+    const simulation = createSimulation();
+    const patcher = new MatchPatcher();
+    let state: MatchState | null = null;
+
+    for (let frame = 0; frame < 30; frame++) {
+      for (let i = 0; i < 3; i++) simulation.step();
+      state = applyMatchPatch(state, patch(patcher, simulation));
+      assert.deepEqual(serializeMatchState(state), serializeMatchState(simulation.state), `frame ${frame}`);
+    }
+  });
+
+  it('sends structures once, then only those that change', () => {
+    const simulation = createSimulation();
+    const patcher = new MatchPatcher();
+    const first = patch(patcher, simulation);
+    const state = applyMatchPatch(null, first);
+    assert.equal(first.structures.changed.length, simulation.state.structures.size);
+
+    simulation.step();
+    const second = patch(patcher, simulation);
+    assert.equal(second.structures.changed.length, 0);
+    const next = applyMatchPatch(state, second);
+    assert.equal(next.structures, state.structures, 'the same map, so its spatial index is kept');
+
+    const structure = Array.from(simulation.state.structures.values()).find((s) => s.isDestructible)!;
+    structure.health -= 10;
+    const destroyed = Array.from(simulation.state.structures.keys()).find((id) => id !== structure.id)!;
+    simulation.state.structures.delete(destroyed);
+    const third = patch(patcher, simulation);
+    assert.deepEqual(third.structures.changed.map((s) => s.id), [structure.id]);
+    assert.deepEqual(third.structures.removed, [destroyed]);
+
+    const after = applyMatchPatch(next, third);
+    assert.equal(after.structures.get(structure.id)!.health, structure.health);
+    assert.ok(!after.structures.has(destroyed));
+    assert.ok(next.structures.has(destroyed), 'earlier states are left alone');
+  });
+});
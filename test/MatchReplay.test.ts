@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../src/types';
+import { MatchSimulation, createEmptyInput } from '../src/core/MatchSimulation';
+import { LOCAL_PLAYER_ID, createPracticeMatch } from '../src/core/MatchSetup';
+import { MatchRecorder, type MatchRecording } from '../src/core/MatchRecorder';
+import { serializeMatchState } from '../src/core/MatchSerializer';
+import { MatchReplay } from '../src/core/MatchReplay';
+
+// 25 seconds of a practice match, the local player walking and shooting in turns
+function record(): MatchRecording {
+  const simulation = new MatchSimulation(createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 11), DEFAULT_CONFIG);
+  const recorder = new MatchRecorder(simulation, LOCAL_PLAYER_ID);
+  const ticks = 25 * simulation.tickRate;
+  for (let tick = 0; tick < ticks; tick++) {
+    if (tick % 90 === 0) {
+      const turn = tick / 90;
+      simulation.setInput(LOCAL_PLAYER_ID, {
+        ...createEmptyInput(),
+        moveDirection: { x: Math.cos(turn), y: Math.sin(turn) },
+        aimDirection: { x: Math.sin(turn), y: Math.cos(turn) },
+        firing: turn % 2 === 1,
+      });
+    }
+    simulation.step();
+  }
+  return recorder.finish();
+}
+
+function stateOf(replay: MatchReplay) {
+  const simulation = replay.getSimulation();
+  return {
+    tick: simulation.getTick(),
+    state: serializeMatchState(simulation.state),
+    checkpoint: simulation.createCheckpoint(),
+  };
+}
+
+describe('MatchReplay', () => {
+  const recording = record();
+
+  it('seeks back from a keyframe to the same state as playing straight through', () => {
+    const straight = new MatchReplay(recording);
+    straight.seek(700);
+    const at700 = stateOf(straight);
+    straight.seek(recording.durationTicks);
+    const atEnd = stateOf(straight);
+
+    const seeking = new MatchReplay(recording);
+    seeking.seek(recording.durationTicks);
+    seeking.seek(700);
+    assert.deepEqual(stateOf(seeking), at700);
+
+    // Again from the same keyframe, which the first restore must not have changed
+    seeking.seek(1300);
+    seeking.seek(700);
+    assert.deepEqual(stateOf(seeking), at700);
+
+    seeking.seek(recording.durationTicks);
+    assert.deepEqual(stateOf(seeking), atEnd);
+  });
+
+  it('does not go back to the start to seek backwards', () => {
+    const replay = new MatchReplay(recording);
+    replay.seek(recording.durationTicks);
+
+    let created = 0;
+    const createSimulation = replay['createSimulation'].bind(replay);
+    replay['createSimulation'] = () => {
+      created++;
+      return createSimulation();
+    };
+    replay.seek(recording.durationTicks - 60);
+    replay.seek(700);
+    assert.equal(created, 0);
+
+    replay.seek(100);
+    assert.equal(created, 1, 'before the first keyframe it starts over');
+  });
+});
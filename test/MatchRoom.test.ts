@@ -0,0 +1,198 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WebSocket } from 'ws';
+import type { MatchEvent } from '../src/types';
+import { DEFAULT_CONFIG, ROLE_STATS } from '../src/types';
+import { createEmptyInput } from '../src/core/MatchSimulation';
+import { addItem, createThrowableItem } from '../src/entities/Inventory';
+import {
+  PROTOCOL_VERSION,
+  decodeClientMessage,
+  decodeServerMessage,
+  type JoinMessage,
+  type MatchSnapshot,
+  type WelcomeMessage,
+} from '../src/net/protocol';
+import { SnapshotDecoder } from '../src/net/SnapshotCodec';
+import { MatchRoom } from '../server/MatchRoom';
+
+// Stands in for a ws connection, keeping whatever the room sends it
+class FakeSocket {
+  readonly OPEN = 1;
+  readyState = 1;
+  welcome: WelcomeMessage | null = null;
+  errors: string[] = [];
+  events: MatchEvent[] = [];
+  snapshots: MatchSnapshot[] = [];
+  private decoder = new SnapshotDecoder();
+
+  send(data: string | Uint8Array): void {
+    if (typeof data === 'string') {
+      const message = decodeServerMessage(data);
+      if (message?.type === 'welcome') this.welcome = message;
+      if (message?.type === 'error') this.errors.push(message.message);
+      if (message?.type === 'event') this.events.push(message.event);
+      return;
+    }
+    const decoded = this.decoder.decode(data);
+    if (decoded) this.snapshots.push(decoded.snapshot);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  asWebSocket(): WebSocket {
+    return this as unknown as WebSocket;
+  }
+}
+
+const TICK = 1 / 60;
+
+function runTicks(room: MatchRoom, ticks: number): void {
+  for (let i = 0; i < ticks; i++) {
+    room['lastTime'] = performance.now() - TICK * 1000;
+    room['tick']();
+  }
+}
+
+function joinMessage(playerId: string, role: JoinMessage['role'], partyId: string): JoinMessage {
+  return {
+    type: 'join',
+    version: PROTOCOL_VERSION,
+    matchId: 'test',
+    playerId,
+    name: playerId,
+    role,
+    partyId,
+    reconnectToken: null,
+  };
+}
+
+function names(event: MatchEvent): string[] {
+  return Object.values(event).filter((value): value is string => typeof value === 'string');
+}
+
+describe('MatchRoom fog of war', () => {
+  it('keeps a fogged shooter, their bullets and their hits from the target team', () => {
+    const room = new MatchRoom('test', DEFAULT_CONFIG, 1234);
+    const target = new FakeSocket();
+    const shooter = new FakeSocket();
+    room.handleMessage(target.asWebSocket(), joinMessage('target', 'vanguard', 'a'));
+    room.handleMessage(shooter.asWebSocket(), joinMessage('shooter', 'sentinel', 'b'));
+
+    // A sentinel sees further than a vanguard: 300 apart on open ground, the
+    // shooter can see the target but not the other way round
+    const simulation = room['simulation'];
+    const state = simulation.state;
+    const centre = { x: 1500, y: 1500 };
+    for (const [id, structure] of state.structures) {
+      if (Math.abs(structure.position.x - centre.x) < 700 && Math.abs(structure.position.y - centre.y) < 700) {
+        state.structures.delete(id);
+      }
+    }
+    simulation['indexStructures']();
+    const targetPlayer = state.players.get('target')!;
+    const shooterPlayer = state.players.get('shooter')!;
+    targetPlayer.position = { ...centre };
+    shooterPlayer.position = { x: centre.x + 300, y: centre.y };
+    simulation.start();
+
+    room.handleMessage(shooter.asWebSocket(), {
+      type: 'input',
+      seq: 1,
+      viewTick: simulation.getTick(),
+      input: { ...createEmptyInput(), aimDirection: { x: -1, y: 0 }, firing: true },
+    });
+    runTicks(room, 60);
+
+    const stats = ROLE_STATS.vanguard;
+    assert.ok(targetPlayer.health + targetPlayer.shield < stats.maxHealth + stats.maxShield, 'the target was hit');
+    assert.ok(
+      shooter.events.some((e) => e.type === 'PlayerDamaged' && e.attackerId === 'shooter' && e.victimId === 'target'),
+      'the shooter hits the target and hears about it'
+    );
+    assert.ok(
+      shooter.snapshots.some((s) => s.projectiles.some((p) => p.ownerId === 'shooter')),
+      'the shooter sees their own bullets'
+    );
+
+    assert.ok(!target.events.some((e) => names(e).includes('shooter')), 'no event names the hidden shooter');
+    assert.ok(!target.events.some((e) => e.type === 'PlayerDamaged'), 'no damage event reaches the target team');
+    assert.ok(target.snapshots.length > 0);
+    for (const snapshot of target.snapshots) {
+      assert.ok(!snapshot.state.players.some((p) => p.id === 'shooter'), 'the shooter is not in snapshots');
+      assert.ok(!snapshot.projectiles.some((p) => p.ownerId === 'shooter'), 'nor are their bullets');
+    }
+
+    // A grenade lobbed at the target: unseen in the air, ownerless once it lands
+    addItem(shooterPlayer.inventory, createThrowableItem('test_frag', 'frag', 1));
+    const throwing = { ...createEmptyInput(), throwing: 'frag', throwOffset: { x: -300, y: 0 } } as const;
+    room.handleMessage(shooter.asWebSocket(), { type: 'input', seq: 2, viewTick: simulation.getTick(), input: throwing });
+    runTicks(room, 5);
+    room.handleMessage(shooter.asWebSocket(), {
+      type: 'input',
+      seq: 3,
+      viewTick: simulation.getTick(),
+      input: createEmptyInput(),
+    });
+    const seen = target.snapshots.length;
+    runTicks(room, 60);
+
+    assert.ok(
+      shooter.snapshots.some((s) => s.state.grenades.some((g) => g.ownerId === 'shooter' && g.height > 0)),
+      'the shooter sees their grenade in the air'
+    );
+    const grenades = target.snapshots.slice(seen).flatMap((s) => s.state.grenades);
+    assert.ok(grenades.length > 0, 'the target sees the grenade once it lands');
+    for (const grenade of grenades) {
+      assert.equal(grenade.ownerId, '');
+      assert.equal(grenade.height, 0);
+    }
+  });
+});
+
+describe('MatchRoom reconnects', () => {
+  it('only hands a player back to whoever holds their reconnect token', () => {
+    const room = new MatchRoom('test', DEFAULT_CONFIG, 1234);
+    const player = new FakeSocket();
+    room.handleMessage(player.asWebSocket(), joinMessage('player', 'vanguard', 'a'));
+    const token = player.welcome!.reconnectToken;
+
+    for (const reconnectToken of [null, 'guess']) {
+      const impostor = new FakeSocket();
+      room.handleMessage(impostor.asWebSocket(), { ...joinMessage('player', 'vanguard', 'a'), reconnectToken });
+      assert.equal(impostor.welcome, null);
+      assert.equal(impostor.errors.length, 1);
+    }
+    assert.equal(player.readyState, 1, 'the player keeps their connection');
+
+    const rejoined = new FakeSocket();
+    room.handleMessage(rejoined.asWebSocket(), { ...joinMessage('player', 'vanguard', 'a'), reconnectToken: token });
+    assert.equal(rejoined.welcome?.playerId, 'player');
+    assert.equal(rejoined.welcome?.reconnectToken, token);
+    assert.equal(player.readyState, 3, 'the stale connection is dropped');
+  });
+});
+
+describe('MatchRoom joins', () => {
+  it('rejects a join with a role that is not a role, and keeps ticking', () => {
+    const raw = { ...joinMessage('player', 'vanguard', 'a'), role: 'constructor' };
+    assert.equal(decodeClientMessage(JSON.stringify(raw)), null);
+
+    // Even if one got past the decoder
+    const room = new MatchRoom('test', DEFAULT_CONFIG, 1234);
+    const socket = new FakeSocket();
+    room.handleMessage(socket.asWebSocket(), raw as unknown as JoinMessage);
+    assert.deepEqual(socket.errors, ['Unknown role']);
+    assert.equal(room['simulation'].state.players.has('player'), false);
+
+    const other = new FakeSocket();
+    room.handleMessage(other.asWebSocket(), joinMessage('other', 'sentinel', 'b'));
+    room['simulation'].start();
+    const tick = room['simulation'].getTick();
+    runTicks(room, 5);
+    assert.ok(room['simulation'].getTick() > tick);
+    assert.ok(other.snapshots.length > 0);
+  });
+});
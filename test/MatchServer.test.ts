@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import WebSocket from 'ws';
+import { DEFAULT_CONFIG } from '../src/types';
+import { PROTOCOL_VERSION } from '../src/net/protocol';
+import { MatchServer } from '../server/MatchServer';
+
+// Joins `matchId` on a real connection and waits for the server to close it
+async function rejectedJoin(port: number, matchId: string, version: number): Promise<void> {
+  const socket = new WebSocket(`ws://localhost:${port}`);
+  await once(socket, 'open');
+  socket.send(JSON.stringify({
+    type: 'join',
+    version,
+    matchId,
+    playerId: 'player',
+    name: 'Player',
+    role: 'vanguard',
+    partyId: 'a',
+    reconnectToken: 'guess',
+  }));
+  await once(socket, 'close');
+}
+
+describe('MatchServer', () => {
+  it('closes rooms made for joins it rejected', { timeout: 10000 }, async () => {
+    const log = console.log;
+    console.log = () => {};
+    const server = new MatchServer(0, DEFAULT_CONFIG);
+    try {
+      await once(server['wss'], 'listening');
+      const { port } = server['wss'].address() as AddressInfo;
+
+      await rejectedJoin(port, 'old', PROTOCOL_VERSION - 1);
+      await rejectedJoin(port, 'random', PROTOCOL_VERSION - 1);
+
+      // The server sees each close a moment after the client does
+      for (let i = 0; i < 50 && server['rooms'].size > 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      assert.equal(server['rooms'].size, 0);
+    } finally {
+      server.close();
+      console.log = log;
+    }
+  });
+});
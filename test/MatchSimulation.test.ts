@@ -0,0 +1,357 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InputState, Player, Structure } from '../src/types';
+import { DEFAULT_CONFIG, ROLE_STATS } from '../src/types';
+import { MatchSimulation, createEmptyInput, type SimulationCheckpoint } from '../src/core/MatchSimulation';
+import { LOCAL_PLAYER_ID, createPracticeMatch } from '../src/core/MatchSetup';
+import { deserializeMatchState, serializeMatchState, type SerializedMatchState } from '../src/core/MatchSerializer';
+import { addItem, countAmmo, createAmmoItem, createThrowableItem, createWeaponItem } from '../src/entities/Inventory';
+import { createWeapon, type WeaponId } from '../src/entities/Weapon';
+import { MAX_REWIND_SECONDS } from '../src/core/PlayerHistory';
+
+// Through JSON, the way a suspended match is stored
+function suspend(simulation: MatchSimulation): { state: SerializedMatchState; checkpoint: SimulationCheckpoint } {
+  return JSON.parse(
+    JSON.stringify({ state: serializeMatchState(simulation.state), checkpoint: simulation.createCheckpoint() })
+  );
+}
+
+function resume(saved: { state: SerializedMatchState; checkpoint: SimulationCheckpoint }): MatchSimulation {
+  const simulation = new MatchSimulation(deserializeMatchState(saved.state), DEFAULT_CONFIG);
+  simulation.restoreCheckpoint(saved.checkpoint);
+  return simulation;
+}
+
+function createSimulation(): MatchSimulation {
+  const simulation = new MatchSimulation(createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 7), DEFAULT_CONFIG);
+  const player = simulation.state.players.get(LOCAL_PLAYER_ID)!;
+  addItem(player.inventory, createThrowableItem('test_frag', 'frag', 2));
+  addItem(player.inventory, createWeaponItem('test_rifle', createWeapon('standard_rifle'), 0));
+  return simulation;
+}
+
+function hold(simulation: MatchSimulation, input: Partial<InputState>, ticks: number = 1): void {
+  simulation.setInput(LOCAL_PLAYER_ID, { ...createEmptyInput(), ...input });
+  for (let i = 0; i < ticks; i++) simulation.step();
+}
+
+interface Duel {
+  simulation: MatchSimulation;
+  shooter: Player;
+  target: Player;
+}
+
+// Open ground with the local player and one enemy standing 200 to their
+// right, aiming at them; everyone else is taken out of the match
+function createDuel(weapon: WeaponId = 'longshot_dmr'): Duel {
+  const simulation = new MatchSimulation(createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 7), DEFAULT_CONFIG);
+  const { state } = simulation;
+  state.structures.clear();
+  simulation['indexStructures']();
+
+  const shooter = state.players.get(LOCAL_PLAYER_ID)!;
+  const target = Array.from(state.players.values()).find((p) => p.teamId !== shooter.teamId)!;
+  for (const id of state.players.keys()) {
+    if (id !== shooter.id && id !== target.id) state.players.delete(id);
+  }
+  for (const team of state.teams.values()) {
+    team.playerIds = team.playerIds.filter((id) => state.players.has(id));
+  }
+
+  target.isBot = false;
+  target.position = { x: shooter.position.x + 200, y: shooter.position.y };
+  shooter.weapon = createWeapon(weapon);
+  shooter.ammo = shooter.weapon.stats.magazineSize;
+  hold(simulation, AIM);
+  return { simulation, shooter, target };
+}
+
+const AIM: Partial<InputState> = { aimDirection: { x: 1, y: 0 } };
+
+function isHurt(player: Player): boolean {
+  const stats = ROLE_STATS[player.role];
+  return player.health + player.shield < stats.maxHealth + stats.maxShield;
+}
+
+describe('MatchSimulation checkpoints', () => {
+  it('finishes a throw that was being aimed when the match was suspended', () => {
+    const simulation = createSimulation();
+    hold(simulation, { throwing: 'frag', throwOffset: { x: 200, y: 0 } }, 5);
+
+    const resumed = resume(suspend(simulation));
+    hold(resumed, {});
+
+    assert.equal(resumed.state.grenades.size, 1);
+  });
+
+  it('does not repeat an inventory action after resuming', () => {
+    const simulation = createSimulation();
+    const equip = { seq: 1, type: 'equip', itemId: 'test_rifle' } as const;
+    hold(simulation, { inventoryAction: equip });
+    assert.equal(simulation.state.players.get(LOCAL_PLAYER_ID)!.weapon!.id, 'standard_rifle');
+
+    // The client still holds the same numbered action
+    const resumed = resume(suspend(simulation));
+    hold(resumed, { inventoryAction: equip });
+
+    assert.equal(resumed.state.players.get(LOCAL_PLAYER_ID)!.weapon!.id, 'standard_rifle');
+  });
+
+  it('keeps numbering projectiles past those restored', () => {
+    const simulation = createSimulation();
+    simulation.spawnStressProjectiles(3);
+    const restoredIds = new Set(simulation.projectiles.map((p) => p.id));
+
+    const resumed = resume(suspend(simulation));
+    resumed.spawnStressProjectiles(3);
+
+    const ids = resumed.projectiles.map((p) => p.id);
+    assert.equal(new Set(ids).size, ids.length);
+    assert.equal(ids.filter((id) => restoredIds.has(id)).length, 3);
+  });
+});
+
+describe('MatchSimulation throws', () => {
+  it('throws on release but not when the aim is cancelled', () => {
+    const simulation = createSimulation();
+    hold(simulation, { throwing: 'frag', throwOffset: { x: 200, y: 0 } }, 5);
+    hold(simulation, { throwCancelled: true });
+    assert.equal(simulation.state.grenades.size, 0);
+
+    hold(simulation, { throwing: 'frag', throwOffset: { x: 200, y: 0 } }, 5);
+    hold(simulation, {});
+    assert.equal(simulation.state.grenades.size, 1);
+  });
+});
+
+describe('MatchSimulation lag compensation', () => {
+  // The target stands where the shooter sees them until `ticksAgo`, then
+  // jumps out of the line of fire; the shooter's view is `rewind` ticks old
+  function shootBehind(ticksAgo: number, rewind: number): Player {
+    const { simulation, target } = createDuel();
+    hold(simulation, AIM, 30);
+    target.position.y += 300;
+    hold(simulation, AIM, ticksAgo);
+
+    simulation.setRewind(LOCAL_PLAYER_ID, rewind);
+    hold(simulation, { ...AIM, firing: true });
+    hold(simulation, AIM, 30);
+    return target;
+  }
+
+  it('hits the target where the shooter saw them', () => {
+    assert.ok(isHurt(shootBehind(2, 14)), 'rewound 14 ticks, the shot lands');
+    assert.ok(!isHurt(shootBehind(2, 0)), 'without rewind it misses');
+  });
+
+  it('rewinds no further than MAX_REWIND_SECONDS', () => {
+    const { simulation } = createDuel();
+    const maxTicks = Math.ceil(MAX_REWIND_SECONDS * simulation.tickRate);
+    simulation.setRewind(LOCAL_PLAYER_ID, 1000);
+    assert.equal(simulation['rewindTicks'].get(LOCAL_PLAYER_ID), maxTicks);
+
+    // Rewound all the way, the target was still in the way for 15 ticks
+    // after the view tick; capped, the shooter sees them long gone
+    assert.ok(isHurt(shootBehind(maxTicks - 8, maxTicks)), 'within the cap');
+    assert.ok(!isHurt(shootBehind(maxTicks + 5, maxTicks + 20)), 'past the cap');
+  });
+});
+
+describe('MatchSimulation projectiles', () => {
+  it('stops a bullet at a wall thinner than it moves in a tick', () => {
+    const { simulation, shooter, target } = createDuel();
+    const wall: Structure = {
+      id: 'thin_wall',
+      type: 'wall',
+      position: { x: shooter.position.x + 100, y: shooter.position.y },
+      width: 2,
+      height: 200,
+      rotation: 0,
+      health: 500,
+      maxHealth: 500,
+      isDestructible: true,
+    };
+    simulation.state.structures.set(wall.id, wall);
+    simulation['indexStructures']();
+
+    hold(simulation, { ...AIM, firing: true });
+    hold(simulation, AIM, 30);
+
+    assert.ok(!isHurt(target), 'the target behind the wall is not hit');
+    assert.equal(wall.health, wall.maxHealth - shooter.weapon!.stats.damage);
+  });
+});
+
+describe('MatchSimulation weapons', () => {
+  const AWAY: Partial<InputState> = { aimDirection: { x: -1, y: 0 } };
+  const FIRE: Partial<InputState> = { ...AWAY, firing: true };
+
+  // Aimed at nobody, with `reserve` spare rounds for the weapon
+  function arm(weapon: WeaponId, reserve: number): Duel {
+    const duel = createDuel(weapon);
+    const { inventory, weapon: armed } = duel.shooter;
+    inventory.items = inventory.items.filter((item) => item.kind !== 'ammo');
+    if (reserve > 0) addItem(inventory, createAmmoItem('test_ammo', armed!.ammoType, reserve));
+    hold(duel.simulation, AWAY);
+    return duel;
+  }
+
+  function shotsFired({ shooter }: Duel): number {
+    return shooter.weapon!.stats.magazineSize - shooter.ammo;
+  }
+
+  it('fires automatic weapons while held, no faster than their fire rate', () => {
+    const duel = arm('viper_smg', 0);
+    hold(duel.simulation, FIRE, 60);
+    const { fireRate } = duel.shooter.weapon!.stats;
+    assert.ok(shotsFired(duel) > 1 && shotsFired(duel) <= fireRate + 1, `${shotsFired(duel)} shots in a second`);
+  });
+
+  it('fires semi-automatic weapons once per pull', () => {
+    const duel = arm('longshot_dmr', 0);
+    hold(duel.simulation, FIRE, 60);
+    assert.equal(shotsFired(duel), 1);
+
+    hold(duel.simulation, AWAY);
+    hold(duel.simulation, FIRE);
+    assert.equal(shotsFired(duel), 2);
+  });
+
+  it('finishes a burst after the trigger is let go, and fires one burst per pull', () => {
+    const duel = arm('tri_burst_rifle', 0);
+    const { burstCount } = duel.shooter.weapon!.stats;
+    hold(duel.simulation, FIRE);
+    hold(duel.simulation, AWAY, 30);
+    assert.equal(shotsFired(duel), burstCount);
+
+    hold(duel.simulation, FIRE, 60);
+    assert.equal(shotsFired(duel), burstCount * 2);
+  });
+
+  it('reloads an emptied magazine from the backpack', () => {
+    const duel = arm('viper_smg', 50);
+    const { shooter, simulation } = duel;
+    const { magazineSize, reloadTime } = shooter.weapon!.stats;
+    shooter.ammo = 2;
+
+    hold(simulation, FIRE, 30);
+    assert.equal(shooter.ammo, 0);
+    assert.ok(shooter.reloadTimer > 0, 'emptying the magazine starts a reload');
+
+    hold(simulation, AWAY, Math.ceil(reloadTime * simulation.tickRate) + 1);
+    assert.equal(shooter.ammo, magazineSize);
+    assert.equal(countAmmo(shooter.inventory, shooter.weapon!.ammoType), 50 - magazineSize);
+  });
+
+  it('does not reload without spare rounds', () => {
+    const { shooter, simulation } = arm('viper_smg', 0);
+    shooter.ammo = 1;
+    hold(simulation, FIRE, 30);
+    assert.equal(shooter.ammo, 0);
+    assert.equal(shooter.reloadTimer, 0);
+  });
+
+  it('abandons a reload for a fresh pull while rounds are loaded', () => {
+    const { shooter, simulation } = arm('longshot_dmr', 20);
+    shooter.ammo = 4;
+    hold(simulation, { ...AWAY, reloading: true });
+    assert.ok(shooter.reloadTimer > 0);
+
+    hold(simulation, FIRE);
+    assert.equal(shooter.reloadTimer, 0);
+    assert.equal(shooter.ammo, 3);
+  });
+});
+
+describe('MatchSimulation downed players', () => {
+  interface Squad {
+    simulation: MatchSimulation;
+    downed: Player;
+    reviver: Player;
+  }
+
+  // Two teammates side by side and the local player to credit hits to;
+  // everyone else is taken out of the match
+  function createSquad(): Squad {
+    const simulation = new MatchSimulation(createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 7), DEFAULT_CONFIG);
+    const { state } = simulation;
+    const team = Array.from(state.teams.values()).find((t) => t.playerIds.length >= 2)!;
+    team.playerIds = team.playerIds.slice(0, 2);
+    const [downed, reviver] = team.playerIds.map((id) => state.players.get(id)!);
+
+    for (const id of state.players.keys()) {
+      if (id !== LOCAL_PLAYER_ID && !team.playerIds.includes(id)) state.players.delete(id);
+    }
+    for (const player of [downed, reviver]) player.isBot = false;
+    reviver.position = { x: downed.position.x + 30, y: downed.position.y };
+    return { simulation, downed, reviver };
+  }
+
+  function hit(simulation: MatchSimulation, player: Player, damage: number, attackerId = LOCAL_PLAYER_ID): void {
+    simulation['damagePlayer'](player, damage, attackerId, null);
+  }
+
+  function run(simulation: MatchSimulation, seconds: number): void {
+    const ticks = Math.ceil(seconds * simulation.tickRate);
+    for (let i = 0; i < ticks; i++) simulation.step();
+  }
+
+  function startReviving({ simulation, downed, reviver }: Squad): void {
+    hit(simulation, downed, 1000);
+    simulation.setInput(reviver.id, { ...createEmptyInput(), interacting: true });
+  }
+
+  it('downs a player at no health, and eliminates them when hit again', () => {
+    const { simulation, downed } = createSquad();
+    hit(simulation, downed, 1000);
+    assert.ok(downed.isAlive && downed.isDowned);
+
+    hit(simulation, downed, 1000);
+    assert.ok(!downed.isAlive);
+  });
+
+  it('bleeds a downed player out when nobody revives them', () => {
+    const { simulation, downed } = createSquad();
+    hit(simulation, downed, 1000);
+    run(simulation, DEFAULT_CONFIG.bleedOutTime - 1);
+    assert.ok(downed.isAlive);
+
+    run(simulation, 1.1);
+    assert.ok(!downed.isAlive);
+  });
+
+  it('eliminates the squad once nobody is left standing', () => {
+    const { simulation, downed, reviver } = createSquad();
+    hit(simulation, downed, 1000);
+    hit(simulation, reviver, 1000);
+    assert.ok(!downed.isAlive && !reviver.isAlive);
+  });
+
+  it('revives a teammate held for the revive time', () => {
+    const squad = createSquad();
+    startReviving(squad);
+    run(squad.simulation, DEFAULT_CONFIG.reviveTime + 0.1);
+    assert.ok(squad.downed.isAlive && !squad.downed.isDowned);
+  });
+
+  it('starts a revive over when either of them is hit, but not by the riftline', () => {
+    const squad = createSquad();
+    const { simulation, downed, reviver } = squad;
+    const half = DEFAULT_CONFIG.reviveTime / 2;
+    startReviving(squad);
+
+    run(simulation, half);
+    hit(simulation, downed, 1);
+    assert.equal(downed.reviveProgress, 0);
+
+    run(simulation, half);
+    hit(simulation, reviver, 1);
+    assert.equal(downed.reviveProgress, 0);
+
+    run(simulation, half);
+    hit(simulation, downed, 1, 'riftline');
+    assert.ok(downed.reviveProgress > 0);
+    run(simulation, half + 0.1);
+    assert.ok(!downed.isDowned);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../src/types';
+import { createPracticeMatch } from '../src/core/MatchSetup';
+import { serializeMatchState } from '../src/core/MatchSerializer';
+import type { MatchSnapshot } from '../src/net/protocol';
+import type { Projectile } from '../src/entities/Projectile';
+import {
+  SnapshotDecoder,
+  SnapshotEncoder,
+  dequantizeSnapshot,
+  quantizeSnapshot,
+  teamSnapshot,
+  type QuantizedSnapshot,
+} from '../src/net/SnapshotCodec';
+
+const ACK = { seq: 3, ticks: 2 };
+
+function createSnapshot(tick: number = 1): MatchSnapshot {
+  const state = createPracticeMatch(DEFAULT_CONFIG, 'vanguard', 42);
+  return { tick, state: serializeMatchState(state), projectiles: [], orbs: [] };
+}
+
+function projectile(id: string): Projectile {
+  return {
+    id,
+    ownerId: 'player_local',
+    teamId: 'team_0',
+    weaponId: 'pistol',
+    position: { x: 1000.3, y: 2000.7 },
+    velocity: { x: 800, y: -120.5 },
+    damage: 12,
+    distanceTraveled: 40,
+    maxRange: 600,
+    speed: 810,
+  };
+}
+
+// One connection: the server end and the client end
+function connect(): { encoder: SnapshotEncoder; decoder: SnapshotDecoder } {
+  return { encoder: new SnapshotEncoder(), decoder: new SnapshotDecoder() };
+}
+
+function roundTrip(decoder: SnapshotDecoder, bytes: Uint8Array) {
+  const decoded = decoder.decode(bytes);
+  assert.ok(decoded, 'snapshot should decode');
+  return decoded;
+}
+
+describe('SnapshotCodec', () => {
+  it('round-trips a full snapshot', () => {
+    const { encoder, decoder } = connect();
+    const quantized = quantizeSnapshot(1, createSnapshot());
+
+    const decoded = roundTrip(decoder, encoder.encode(quantized, null, ACK));
+
+    assert.equal(decoded.id, 1);
+    assert.deepEqual(decoded.ack, ACK);
+    assert.deepEqual(decoded.snapshot, dequantizeSnapshot(quantized));
+  });
+
+  it('sends a smaller delta against an acknowledged baseline', () => {
+    const { encoder, decoder } = connect();
+    const first = createSnapshot(1);
+    const baseline = quantizeSnapshot(1, first);
+    const full = encoder.encode(baseline, null, ACK);
+    roundTrip(decoder, full);
+
+    const second = createSnapshot(2);
+    second.state.players[0].position.x += 25;
+    second.state.players[0].health -= 10;
+    second.state.timeElapsed += 1 / 20;
+    const current = quantizeSnapshot(2, second);
+
+    const delta = encoder.encode(current, baseline, ACK);
+    const decoded = roundTrip(decoder, delta);
+
+    assert.ok(delta.length < full.length / 4, `delta ${delta.length} bytes vs full ${full.length}`);
+    assert.deepEqual(decoded.snapshot, dequantizeSnapshot(current));
+  });
+
+  it('creates and removes entities in a delta', () => {
+    const { encoder, decoder } = connect();
+    const first = createSnapshot(1);
+    first.projectiles = [projectile('proj_1')];
+    const baseline = quantizeSnapshot(1, first);
+    roundTrip(decoder, encoder.encode(baseline, null, ACK));
+
+    const second = createSnapshot(2);
+    const removedLoot = second.state.loot.shift()!;
+    const removedPlayer = second.state.players.pop()!;
+    second.projectiles = [projectile('proj_2')];
+    const current = quantizeSnapshot(2, second);
+
+    const decoded = roundTrip(decoder, encoder.encode(current, baseline, ACK));
+
+    assert.deepEqual(decoded.snapshot, dequantizeSnapshot(current));
+    assert.deepEqual(decoded.snapshot.projectiles.map((p) => p.id), ['proj_2']);
+    assert.ok(!decoded.snapshot.state.loot.some((l) => l.id === removedLoot.id));
+    assert.ok(!decoded.snapshot.state.players.some((p) => p.id === removedPlayer.id));
+  });
+
+  it('rejects a delta against a baseline it no longer has, then takes a full snapshot', () => {
+    const { encoder, decoder } = connect();
+    const snapshots: QuantizedSnapshot[] = [];
+    for (let id = 1; id <= 70; id++) {
+      const snapshot = createSnapshot(id);
+      snapshot.state.timeElapsed = id;
+      snapshots.push(quantizeSnapshot(id, snapshot));
+    }
+
+    // The decoder keeps a bounded history, so the first snapshot falls out
+    roundTrip(decoder, encoder.encode(snapshots[0], null, ACK));
+    for (let i = 1; i < 69; i++) {
+      roundTrip(decoder, encoder.encode(snapshots[i], snapshots[i - 1], ACK));
+    }
+
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      assert.equal(decoder.decode(encoder.encode(snapshots[69], snapshots[0], ACK)), null);
+    } finally {
+      console.warn = warn;
+    }
+
+    // The server falls back to a full snapshot once the ack is too old
+    const decoded = roundTrip(decoder, encoder.encode(snapshots[69], null, ACK));
+    assert.deepEqual(decoded.snapshot, dequantizeSnapshot(snapshots[69]));
+  });
+
+  it('keeps positions and angles within quantization error', () => {
+    const { encoder, decoder } = connect();
+    const snapshot = createSnapshot();
+    const angles = [0, 0.123456, Math.PI - 0.0001, -2.5, -Math.PI];
+    snapshot.state.players.forEach((player, i) => {
+      player.position = { x: 100.123 + i * 37.77, y: 4000.061 - i * 13.3 };
+      player.velocity = { x: -211.37, y: 99.99 };
+      player.rotation = angles[i % angles.length];
+    });
+
+    const decoded = roundTrip(decoder, encoder.encode(quantizeSnapshot(1, snapshot), null, ACK));
+
+    snapshot.state.players.forEach((player, i) => {
+      const received = decoded.snapshot.state.players.find((p) => p.id === player.id)!;
+      assert.ok(Math.abs(received.position.x - player.position.x) <= 1 / 16, `x of player ${i}`);
+      assert.ok(Math.abs(received.position.y - player.position.y) <= 1 / 16, `y of player ${i}`);
+      assert.ok(Math.abs(received.velocity.x - player.velocity.x) <= 1 / 8, `velocity of player ${i}`);
+
+      // Angles wrap to [0, 2 PI), so compare the short way round
+      const error = Math.abs(Math.atan2(
+        Math.sin(received.rotation - player.rotation),
+        Math.cos(received.rotation - player.rotation)
+      ));
+      assert.ok(error <= Math.PI / 65536 + 1e-9, `rotation of player ${i}`);
+    });
+  });
+
+  it('sends backpacks item by item and rebuilds them exactly', () => {
+    const { encoder, decoder } = connect();
+    const first = createSnapshot(1);
+    const baseline = quantizeSnapshot(1, first);
+    const decoded = roundTrip(decoder, encoder.encode(baseline, null, ACK));
+
+    first.state.players.forEach((player, i) => {
+      assert.deepEqual(decoded.snapshot.state.players[i].inventory, player.inventory);
+      assert.deepEqual(decoded.snapshot.state.players[i].weapon, player.weapon);
+    });
+    assert.deepEqual(decoded.snapshot.state.loot.map((l) => l.item), first.state.loot.map((l) => l.item));
+
+    // Spending ammo again and again only ever sends the changed counts
+    let previous = baseline;
+    const sizes: number[] = [];
+    for (let id = 2; id <= 6; id++) {
+      const next = createSnapshot(id);
+      const ammo = next.state.players[0].inventory.items.find((item) => item.kind === 'ammo')!;
+      assert.equal(ammo.kind, 'ammo');
+      if (ammo.kind === 'ammo') ammo.quantity -= id;
+      const current = quantizeSnapshot(id, next);
+
+      const bytes = encoder.encode(current, previous, ACK);
+      const received = roundTrip(decoder, bytes);
+      assert.deepEqual(received.snapshot.state.players[0].inventory, next.state.players[0].inventory);
+      sizes.push(bytes.length);
+      previous = current;
+    }
+    assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1, `delta sizes ${sizes.join(', ')}`);
+  });
+
+  it('only sends a team its own backpacks', () => {
+    const { encoder, decoder } = connect();
+    const snapshot = createSnapshot();
+    const teamId = snapshot.state.players[0].teamId;
+    const full = quantizeSnapshot(1, snapshot);
+
+    const decoded = roundTrip(decoder, encoder.encode(teamSnapshot(full, teamId, new Set()), null, ACK));
+
+    for (const player of decoded.snapshot.state.players) {
+      const original = snapshot.state.players.find((p) => p.id === player.id)!;
+      if (player.teamId === teamId) {
+        assert.deepEqual(player.inventory, original.inventory);
+      } else {
+        assert.deepEqual(player.inventory.items, []);
+        assert.equal(player.inventory.width, original.inventory.width);
+      }
+    }
+  });
+  it('frees the symbols of removed entities and reuses their slots', () => {
+    const { encoder, decoder } = connect();
+    let previous = quantizeSnapshot(1, createSnapshot(1));
+    roundTrip(decoder, encoder.encode(previous, null, ACK));
+    const settled = encoder['symbols']['slots'].size;
+
+    // Every tick a drop is picked up and another, with a new item id, dropped
+    for (let id = 2; id <= 200; id++) {
+      const snapshot = createSnapshot(id);
+      const drop = snapshot.state.loot.shift()!;
+      snapshot.state.loot.push({ ...drop, id: `loot_drop_${id}`, item: { ...drop.item, id: `item_drop_${id}` } });
+      const current = quantizeSnapshot(id, snapshot);
+
+      const decoded = roundTrip(decoder, encoder.encode(current, previous, ACK));
+      assert.deepEqual(decoded.snapshot, dequantizeSnapshot(current), `snapshot ${id}`);
+      previous = current;
+    }
+
+    assert.ok(encoder['symbols']['slots'].size <= settled + 1, `${encoder['symbols']['slots'].size} symbols`);
+    assert.ok(decoder['symbols'].values.length <= settled + 1, `${decoder['symbols'].values.length} slots`);
+  });
+
+  it('sends team members in order', () => {
+    const { encoder, decoder } = connect();
+    const first = createSnapshot(1);
+    const baseline = quantizeSnapshot(1, first);
+    const decoded = roundTrip(decoder, encoder.encode(baseline, null, ACK));
+    assert.deepEqual(decoded.snapshot.state.teams, first.state.teams);
+
+    const second = createSnapshot(2);
+    const team = second.state.teams.find((t) => t.playerIds.length > 1)!;
+    team.playerIds.reverse();
+    second.state.teams[0].playerIds.push('player_joined');
+    const current = quantizeSnapshot(2, second);
+
+    const received = roundTrip(decoder, encoder.encode(current, baseline, ACK));
+    assert.deepEqual(received.snapshot.state.teams, second.state.teams);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Structure, StructureType } from '../src/types';
+import { segmentCircleIntersection, segmentRotatedRectIntersection } from '../src/utils/math';
+import { sweepStructure } from '../src/utils/collision';
+
+function structure(type: StructureType, width: number, height: number, rotation: number = 0): Structure {
+  return {
+    id: type,
+    type,
+    position: { x: 100, y: 0 },
+    width,
+    height,
+    rotation,
+    health: 100,
+    maxHealth: 100,
+    isDestructible: true,
+  };
+}
+
+function near(actual: number | null, expected: number): void {
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${actual} vs ${expected}`);
+}
+
+describe('segmentCircleIntersection', () => {
+  it('finds where the segment first touches the circle', () => {
+    near(segmentCircleIntersection({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 10), 0.45);
+    near(segmentCircleIntersection({ x: 0, y: 6 }, { x: 200, y: 6 }, { x: 100, y: 0 }, 10), 0.46);
+  });
+
+  it('is 0 from inside and null for a miss or a segment that stops short', () => {
+    assert.equal(segmentCircleIntersection({ x: 95, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 10), 0);
+    assert.equal(segmentCircleIntersection({ x: 0, y: 11 }, { x: 200, y: 11 }, { x: 100, y: 0 }, 10), null);
+    assert.equal(segmentCircleIntersection({ x: 0, y: 0 }, { x: 80, y: 0 }, { x: 100, y: 0 }, 10), null);
+    assert.equal(segmentCircleIntersection({ x: 120, y: 0 }, { x: 300, y: 0 }, { x: 100, y: 0 }, 10), null);
+  });
+});
+
+describe('segmentRotatedRectIntersection', () => {
+  it('finds the entry point of an axis-aligned rectangle', () => {
+    near(segmentRotatedRectIntersection({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 20, 40, 0), 0.45);
+    assert.equal(segmentRotatedRectIntersection({ x: 0, y: 25 }, { x: 200, y: 25 }, { x: 100, y: 0 }, 20, 40, 0), null);
+  });
+
+  it('turns the rectangle by its rotation', () => {
+    // 20 wide and 40 high, turned a quarter: now 40 wide and 20 high
+    const quarter = Math.PI / 2;
+    near(segmentRotatedRectIntersection({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 20, 40, quarter), 0.4);
+    assert.equal(
+      segmentRotatedRectIntersection({ x: 0, y: 15 }, { x: 200, y: 15 }, { x: 100, y: 0 }, 20, 40, quarter),
+      null
+    );
+
+    // A 20 square turned an eighth reaches its corner out to 10 * sqrt(2)
+    const eighth = Math.PI / 4;
+    const corner = 100 - 10 * Math.SQRT2;
+    const t = segmentRotatedRectIntersection({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 20, 20, eighth);
+    near(t, corner / 200);
+  });
+
+  it('is 0 from inside and null for a segment that stops short', () => {
+    assert.equal(segmentRotatedRectIntersection({ x: 100, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 20, 40, 0), 0);
+    assert.equal(segmentRotatedRectIntersection({ x: 0, y: 0 }, { x: 85, y: 0 }, { x: 100, y: 0 }, 20, 40, 0), null);
+  });
+});
+
+describe('sweepStructure', () => {
+  it('catches a fast sweep across a wall thinner than one step', () => {
+    // Neither end of a 30 unit step is inside a 2 unit wall
+    const wall = structure('wall', 2, 100);
+    near(sweepStructure({ x: 85, y: 0 }, { x: 115, y: 0 }, 0, wall), 14 / 30);
+  });
+
+  it('pads by the moving circle', () => {
+    const wall = structure('wall', 2, 100);
+    near(sweepStructure({ x: 0, y: 0 }, { x: 200, y: 0 }, 3, wall), 96 / 200);
+    assert.equal(sweepStructure({ x: 0, y: 52 }, { x: 200, y: 52 }, 1, wall), null);
+    near(sweepStructure({ x: 0, y: 52 }, { x: 200, y: 52 }, 3, wall), 96 / 200);
+
+    const pillar = structure('pillar', 20, 20);
+    near(sweepStructure({ x: 0, y: 0 }, { x: 200, y: 0 }, 5, pillar), 85 / 200);
+    assert.equal(sweepStructure({ x: 0, y: 14 }, { x: 200, y: 14 }, 3, pillar), null);
+  });
+});
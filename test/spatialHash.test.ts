@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Vector2 } from '../src/types';
+import { Rng } from '../src/utils/rng';
+import { SpatialHash } from '../src/utils/spatialHash';
+
+interface Circle {
+  id: number;
+  position: Vector2;
+  radius: number;
+}
+
+// Scattered over a few cells either side of the origin, some big enough to
+// cover several
+function scatter(rng: Rng, count: number): Circle[] {
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    position: { x: rng.range(-600, 600), y: rng.range(-600, 600) },
+    radius: rng.next() < 0.1 ? rng.range(100, 300) : rng.range(0, 30),
+  }));
+}
+
+function overlapping(circles: Circle[], position: Vector2, radius: number): number[] {
+  return circles
+    .filter((c) => Math.hypot(c.position.x - position.x, c.position.y - position.y) <= c.radius + radius)
+    .map((c) => c.id);
+}
+
+function build(circles: Circle[]): SpatialHash<Circle> {
+  const hash = new SpatialHash<Circle>();
+  for (const circle of circles) hash.insert(circle, circle.position, circle.radius);
+  return hash;
+}
+
+describe('SpatialHash', () => {
+  it('returns exactly the items a brute-force search finds, each once', () => {
+    const rng = new Rng(5);
+    const circles = scatter(rng, 300);
+    const hash = build(circles);
+    assert.equal(hash.size, circles.length);
+
+    for (let i = 0; i < 200; i++) {
+      const position = { x: rng.range(-700, 700), y: rng.range(-700, 700) };
+      const radius = rng.range(0, 250);
+      const found = hash.query(position, radius).map((c) => c.id);
+
+      assert.equal(new Set(found).size, found.length, `query ${i} returned an item twice`);
+      assert.deepEqual(found.sort((a, b) => a - b), overlapping(circles, position, radius), `query ${i}`);
+    }
+  });
+
+  it('forgets everything on clear and takes new items in reused entries', () => {
+    const rng = new Rng(9);
+    const before = scatter(rng, 50);
+    const hash = build(before);
+
+    hash.clear();
+    assert.equal(hash.size, 0);
+    assert.deepEqual(hash.query({ x: 0, y: 0 }, 1000), []);
+
+    const after = scatter(rng, 20);
+    for (const circle of after) hash.insert(circle, circle.position, circle.radius);
+    const found = hash.query({ x: 0, y: 0 }, 1000);
+    assert.deepEqual(found.map((c) => c.id).sort((a, b) => a - b), overlapping(after, { x: 0, y: 0 }, 1000));
+    assert.ok(found.every((c) => after.includes(c)));
+  });
+
+  it('appends to the array it is given', () => {
+    const hash = build([{ id: 1, position: { x: 10, y: 10 }, radius: 5 }]);
+    const out: Circle[] = [{ id: 0, position: { x: 0, y: 0 }, radius: 0 }];
+    assert.equal(hash.query({ x: 0, y: 0 }, 20, out), out);
+    assert.deepEqual(out.map((c) => c.id), [0, 1]);
+  });
+});